@@ -0,0 +1,165 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+"use strict";
+
+const width = 1000;
+const height = 800;
+
+function renderDependencyGraph() {
+    renderProblems();
+
+    const svg = d3.select("svg")
+        .attr("xmlns", "http://www.w3.org/2000/svg")
+        .attr("version", "1.1")
+        .attr("viewBox", "0 0 " + width + " " + height);
+    svg.selectAll("*").remove();
+
+    svg.append("defs").append("marker")
+        .attr("id", "dependencyEnd")
+        .attr("viewBox", "0 -5 10 10")
+        .attr("refX", 10)
+        .attr("refY", 0)
+        .attr("markerWidth", 7)
+        .attr("markerHeight", 7)
+        .attr("orient", "auto")
+        .attr("class", "marker")
+        .append("path")
+        .attr("d", "M0,-5L10,0L0,5");
+
+    const topGroup = svg.append("g");
+
+    const zoom = d3.zoom()
+        .scaleExtent([0.15, 3])
+        .on("zoom", function () {
+            topGroup.attr("transform", d3.event.transform);
+        });
+    svg.call(zoom).on("dblclick.zoom", null);
+
+    const nodes = dependencyGraphData.grammars;
+    const links = dependencyGraphData.links;
+
+    // The node size depends on the grammar name, which must be known for the collision detection.
+    for (const node of nodes) {
+        node.width = 8 * node.name.length + 30;
+        node.height = 30;
+    }
+
+    const force = d3.forceSimulation(nodes)
+        .force("link", d3.forceLink(links).id((d) => d.id).distance(180))
+        .force("charge", d3.forceManyBody().strength(-800))
+        .force("center", d3.forceCenter(width / 2, height / 2))
+        .force("collide", d3.forceCollide((d) => d.width / 2 + 10));
+
+    const lines = topGroup.append("g").selectAll("line")
+        .data(links)
+        .enter().append("line")
+        .attr("class", (d) => {
+            const cyclic = d.source.cyclic && d.target.cyclic;
+
+            return "dependency " + d.kind + (cyclic ? " cyclic" : "");
+        })
+        .attr("marker-end", "url(#dependencyEnd)")
+        .on("click", (d) => {
+            vscode.postMessage({ command: "revealGrammar", file: d.file, range: d.range });
+        });
+    lines.append("title").text((d) => (d.kind === "import" ? "import " : "tokenVocab = ") + d.target.name);
+
+    const grammars = topGroup.append("g").selectAll("g")
+        .data(nodes)
+        .enter().append("g")
+        .attr("class", (d) => "grammar " + d.type + (d.cyclic ? " cyclic" : ""))
+        .on("dblclick", (d) => {
+            if (d.type !== "missing") {
+                vscode.postMessage({ command: "revealGrammar", file: d.id });
+            }
+        })
+        .call(d3.drag()
+            .on("start", dragStarted)
+            .on("drag", dragged)
+            .on("end", dragEnded)
+        );
+
+    grammars.append("rect")
+        .attr("x", (d) => -d.width / 2)
+        .attr("y", (d) => -d.height / 2)
+        .attr("width", (d) => d.width)
+        .attr("height", (d) => d.height)
+        .attr("rx", 5)
+        .attr("ry", 5);
+
+    grammars.append("text")
+        .attr("class", "grammar-label")
+        .attr("dy", "0.31em")
+        .text((d) => d.name);
+
+    grammars.append("title").text((d) => (d.type === "missing" ? "Grammar not found" : d.id));
+
+    force.on("tick", () => {
+        lines
+            .attr("x1", (d) => d.source.x)
+            .attr("y1", (d) => d.source.y)
+            .attr("x2", (d) => borderPoint(d.source, d.target)[0])
+            .attr("y2", (d) => borderPoint(d.source, d.target)[1]);
+        grammars.attr("transform", (d) => "translate(" + d.x + "," + d.y + ")");
+    });
+
+    function dragStarted(d) {
+        if (!d3.event.active) {
+            force.alphaTarget(0.3).restart();
+        }
+        d.fx = d.x;
+        d.fy = d.y;
+    }
+
+    function dragged(d) {
+        d.fx = d3.event.x;
+        d.fy = d3.event.y;
+    }
+
+    function dragEnded() {
+        if (!d3.event.active) {
+            force.alphaTarget(0);
+        }
+    }
+}
+
+// Computes the point where a line from the source center to the target center crosses the target's border,
+// so that arrow heads are not hidden by the target node.
+function borderPoint(source, target) {
+    const dx = source.x - target.x;
+    const dy = source.y - target.y;
+    if (dx === 0 && dy === 0) {
+        return [target.x, target.y];
+    }
+
+    const scale = Math.min(
+        dx === 0 ? Infinity : (target.width / 2) / Math.abs(dx),
+        dy === 0 ? Infinity : (target.height / 2) / Math.abs(dy),
+    );
+
+    return [target.x + dx * scale, target.y + dy * scale];
+}
+
+function renderProblems() {
+    const problems = document.getElementById("problems");
+    while (problems.firstChild) {
+        problems.removeChild(problems.firstChild);
+    }
+
+    for (const problem of dependencyGraphData.problems) {
+        const link = document.createElement("a");
+        link.textContent = problem.text;
+        link.onclick = function () {
+            vscode.postMessage({ command: "revealGrammar", file: problem.file, range: problem.range });
+        };
+
+        const line = document.createElement("div");
+        line.appendChild(link);
+        problems.appendChild(line);
+    }
+}
@@ -0,0 +1,183 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+"use strict";
+
+const width = 1000;
+const height = 800;
+const modeRadius = 40;
+
+function render() {
+    const svg = d3.select("svg")
+        .attr("xmlns", "http://www.w3.org/2000/svg")
+        .attr("version", "1.1")
+        .attr("viewBox", "0 0 " + width + " " + height);
+
+    // Transitions end in the center of the target mode, loops at its border.
+    const defs = svg.append("defs");
+    for (const [id, offset] of [["modeTransitionEnd", 32], ["modeLoopEnd", 10]]) {
+        defs.append("marker")
+            .attr("id", id)
+            .attr("viewBox", "0 -5 10 10")
+            .attr("refX", offset) // Marker units are scaled by the stroke width.
+            .attr("refY", 0)
+            .attr("markerWidth", 7)
+            .attr("markerHeight", 7)
+            .attr("orient", "auto")
+            .attr("class", "marker")
+            .append("path")
+            .attr("d", "M0,-5L10,0L0,5");
+    }
+
+    const topGroup = svg.append("g");
+
+    const zoom = d3.zoom()
+        .scaleExtent([0.15, 3])
+        .on("zoom", function () {
+            topGroup.attr("transform", d3.event.transform);
+        });
+    svg.call(zoom).on("dblclick.zoom", null);
+
+    const nodes = modeGraphData.modes;
+    const links = modeGraphData.links;
+
+    const force = d3.forceSimulation(nodes)
+        .force("link", d3.forceLink(links).id((d) => d.name).distance(250))
+        .force("charge", d3.forceManyBody().strength(-1500))
+        .force("center", d3.forceCenter(width / 2, height / 2))
+        .force("collide", d3.forceCollide(2 * modeRadius));
+
+    const transitions = topGroup.append("g").selectAll("path")
+        .data(links)
+        .enter().append("path")
+        .attr("class", (d) => "mode-transition " + d.kind)
+        .attr("marker-end", (d) => (d.source === d.target ? "url(#modeLoopEnd)" : "url(#modeTransitionEnd)"));
+
+    const labels = topGroup.append("g").selectAll("text")
+        .data(links)
+        .enter().append("text")
+        .attr("class", "mode-transition-label")
+        .text((d) => d.rules.map((rule) => rule.name).join(", "))
+        .on("click", (d) => {
+            vscode.postMessage({ command: "revealCommand", file: modeGraphData.file, range: d.rules[0].range });
+        });
+    labels.append("title").text((d) => d.kind + ": " + d.rules.map((rule) => rule.name).join(", "));
+
+    const modes = topGroup.append("g").selectAll("circle")
+        .data(nodes)
+        .enter().append("circle")
+        .attr("r", modeRadius)
+        .attr("class", (d) => {
+            let cssClass = "mode";
+            if (d.name === "DEFAULT_MODE") {
+                cssClass += " default-mode";
+            }
+            if (!d.reachable) {
+                cssClass += " unreachable";
+            }
+            if (d.pushedWithoutPop) {
+                cssClass += " no-pop";
+            }
+
+            return cssClass;
+        })
+        .on("dblclick", (d) => {
+            if (d.range) {
+                vscode.postMessage({ command: "revealCommand", file: modeGraphData.file, range: d.range });
+            }
+        })
+        .call(d3.drag()
+            .on("start", dragStarted)
+            .on("drag", dragged)
+            .on("end", dragEnded)
+        );
+
+    modes.append("title").text((d) => {
+        const problems = [];
+        if (!d.reachable) {
+            problems.push("This mode cannot be reached from DEFAULT_MODE.");
+        }
+        if (d.pushedWithoutPop) {
+            problems.push("This mode is pushed, but never popped.");
+        }
+
+        return problems.length > 0 ? d.name + "\n" + problems.join("\n") : d.name;
+    });
+
+    const modeLabels = topGroup.append("g").selectAll("text")
+        .data(nodes)
+        .enter().append("text")
+        .attr("class", "mode-label")
+        .attr("dy", "0.31em")
+        .text((d) => d.name);
+
+    force.on("tick", () => {
+        transitions.attr("d", transitionPath);
+        labels
+            .attr("x", (d) => labelPosition(d)[0])
+            .attr("y", (d) => labelPosition(d)[1]);
+        modes
+            .attr("cx", (d) => d.x)
+            .attr("cy", (d) => d.y);
+        modeLabels
+            .attr("x", (d) => d.x)
+            .attr("y", (d) => d.y);
+    });
+
+    function dragStarted(d) {
+        if (!d3.event.active) {
+            force.alphaTarget(0.3).restart();
+        }
+        d.fx = d.x;
+        d.fy = d.y;
+    }
+
+    function dragged(d) {
+        d.fx = d3.event.x;
+        d.fy = d3.event.y;
+    }
+
+    function dragEnded() {
+        if (!d3.event.active) {
+            force.alphaTarget(0);
+        }
+    }
+}
+
+// Transitions are drawn as arcs, so that transitions in both directions between two modes do not overlap.
+// Transitions to the same mode are drawn as loops above the mode.
+function transitionPath(d) {
+    if (d.source === d.target) {
+        const x = d.source.x;
+        const y = d.source.y - modeRadius;
+
+        return "M" + (x - 15) + "," + y + "C" + (x - 60) + "," + (y - 90) + " " + (x + 60) + "," + (y - 90) + " "
+            + (x + 15) + "," + y;
+    }
+
+    const dx = d.target.x - d.source.x;
+    const dy = d.target.y - d.source.y;
+    const radius = Math.sqrt(dx * dx + dy * dy) * 1.5;
+
+    return "M" + d.source.x + "," + d.source.y + "A" + radius + "," + radius + " 0 0,1 " + d.target.x + ","
+        + d.target.y;
+}
+
+function labelPosition(d) {
+    if (d.source === d.target) {
+        return [d.source.x, d.source.y - modeRadius - 75];
+    }
+
+    // Move the label from the middle of the connection line to the arc.
+    const dx = d.target.x - d.source.x;
+    const dy = d.target.y - d.source.y;
+    const length = Math.sqrt(dx * dx + dy * dy) || 1;
+    const radius = length * 1.5;
+    const offset = radius - Math.sqrt(radius * radius - length * length / 4);
+
+    return [(d.source.x + d.target.x) / 2 + dy / length * offset, (d.source.y + d.target.y) / 2 - dx / length * offset];
+}
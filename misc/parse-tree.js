@@ -34,6 +34,7 @@ root.y0 = height / 2;
 
 var nodeSelection;
 var linkSelection;
+var highlightedNodeId = -1; // Set by the parse tree preview, for the node at the caret position in the input.
 
 var nodeWidth = horizontal ? 60 : 190;
 var nodeHeight = horizontal ? 190 : 60;
@@ -59,6 +60,39 @@ function initSwitches() {
 
 //---------------------------------------------------------------------------------------------------------------------
 
+function nodeClass(d) {
+    var result = "tree-node";
+    if (!d.parent) {
+        result += " tree-root";
+    } else {
+        switch (d.data.type) {
+            case 1: { // A terminal node.
+                result += " tree-leaf";
+                break;
+            }
+            case 2: { // An error node.
+                result += " tree-error";
+                break;
+            }
+        }
+    }
+
+    if (d.data.id === highlightedNodeId) {
+        result += " tree-highlight";
+    }
+
+    return result;
+}
+
+//---------------------------------------------------------------------------------------------------------------------
+
+function highlightNode(id) {
+    highlightedNodeId = id;
+    topGroup.selectAll(".tree-node").attr("class", nodeClass);
+}
+
+//---------------------------------------------------------------------------------------------------------------------
+
 function update(parent) {
     var [nodeW, nodeH] = cluster.nodeSize();
     rectW = (horizontal ? nodeH : nodeW) * 0.9;
@@ -72,23 +106,7 @@ function update(parent) {
         });
 
     var nodeEnter = nodeSelection.enter().append("g")
-        .attr("class", function (d) {
-            if (!d.parent) {
-                return "tree-node tree-root";
-            }
-            var result = "tree-node";
-            switch (d.data.type) {
-                case 1: { // A terminal node.
-                        result += " tree-leaf";
-                        break;
-                    }
-                case 2: { // An error node.
-                        result += " tree-error";
-                        break;
-                    }
-            }
-            return result;
-        })
+        .attr("class", nodeClass)
         .attr("transform", function (d) {
             if (horizontal) {
                 return "translate(" + parent.y0 + "," + parent.x0 + ")";
@@ -285,23 +303,7 @@ function createText(nodeEnter) {
  */
 function updateExistingNodes(t) {
     nodeSelection.transition(t)
-        .attr("class", function (d) {
-            if (!d.parent) {
-                return "tree-node tree-root";
-            }
-            var result = "tree-node";
-            switch (d.data.type) {
-                case 1: { // A terminal node.
-                        result += " tree-leaf";
-                        break;
-                    }
-                case 2: { // An error node.
-                        result += " tree-error";
-                        break;
-                    }
-            }
-            return result;
-        })
+        .attr("class", nodeClass)
 
     nodeSelection.select("rect").transition(t)
         .attr("width", rectW);
@@ -0,0 +1,86 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+"use strict";
+
+// Makes line breaks and tabs in token text visible, like the ANTLR4 TestRig does.
+function escapeTokenText(text) {
+    return text.replace(/\n/g, "\\n").replace(/\r/g, "\\r").replace(/\t/g, "\\t");
+}
+
+function createLink(text, message) {
+    const link = document.createElement("a");
+    link.textContent = text;
+    link.onclick = function () {
+        vscode.postMessage(message);
+    };
+
+    return link;
+}
+
+function renderTokenStream() {
+    const body = document.getElementById("tokens");
+    while (body.firstChild) {
+        body.removeChild(body.firstChild);
+    }
+
+    for (const entry of tokenStreamData.tokens) {
+        const token = entry.token;
+        const row = document.createElement("tr");
+        if (entry.channelName !== "DEFAULT_TOKEN_CHANNEL") {
+            row.className = "token-off-channel";
+        }
+
+        const addCell = function (content) {
+            const cell = document.createElement("td");
+            if (typeof content === "string") {
+                cell.textContent = content;
+            } else if (content) {
+                cell.appendChild(content);
+            }
+            row.appendChild(cell);
+        };
+
+        addCell(String(token.tokenIndex));
+        addCell(token.name + " (" + token.type + ")");
+        addCell(entry.channelName);
+        addCell(entry.modeName);
+        addCell(escapeTokenText(token.text));
+        addCell(createLink(token.line + ":" + (token.offset + 1), {
+            command: "revealInput",
+            file: tokenStreamData.input,
+            line: token.line,
+            column: token.offset,
+            length: token.stopIndex - token.startIndex + 1,
+        }));
+
+        if (entry.ruleDefinition && entry.ruleDefinition.definition) {
+            addCell(createLink(entry.ruleName, {
+                command: "revealRule",
+                file: entry.ruleDefinition.source,
+                range: entry.ruleDefinition.definition.range,
+            }));
+        } else {
+            addCell(entry.ruleName);
+        }
+
+        body.appendChild(row);
+    }
+
+    document.getElementById("token-count").textContent = String(tokenStreamData.tokens.length);
+
+    const errors = document.getElementById("errors");
+    while (errors.firstChild) {
+        errors.removeChild(errors.firstChild);
+    }
+
+    for (const error of tokenStreamData.errors) {
+        const line = document.createElement("div");
+        line.textContent = error;
+        errors.appendChild(line);
+    }
+}
@@ -52,6 +52,11 @@ function exportToHTML(type, name) {
 	}
 }
 
+function toggleAnnotations(checkbox) {
+	// The diagrams are generated by the extension, so let it render them again.
+	vscode.postMessage({ command: "toggleRRDAnnotations", show: checkbox.checked });
+}
+
 (function () {
 
 	// Used to send messages from the extension to this webview.
@@ -82,6 +87,23 @@ function exportToHTML(type, name) {
                 update(root);
                 break;
             }
+
+            case "highlightParseTreeNode": {
+                highlightNode(event.data.id);
+                break;
+            }
+
+            case "updateTokenStream": {
+                tokenStreamData = event.data.tokenStreamData;
+                renderTokenStream();
+                break;
+            }
+
+            case "updateDependencyGraph": {
+                dependencyGraphData = event.data.dependencyGraphData;
+                renderDependencyGraph();
+                break;
+            }
 		}
 	});
 }());
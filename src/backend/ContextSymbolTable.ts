@@ -150,6 +150,7 @@ export class ContextSymbolTable extends SymbolTable {
             source: (symbol.context && symbolTable && symbolTable.owner) ? symbolTable.owner.fileName : "ANTLR runtime",
             definition: SourceContext.definitionForContext(symbol.context, true),
             description: undefined,
+            documentation: SourceContext.documentationForContext(symbol.context),
         };
 
     }
@@ -236,11 +237,15 @@ export class ContextSymbolTable extends SymbolTable {
         }
     }
 
+    /**
+     * @returns The names of all rules defined in this table, which are not referenced anywhere in it.
+     */
     public getUnreferencedSymbols(): string[] {
         const result: string[] = [];
-        for (const entry of this.symbolReferences) {
-            if (entry[1] === 0) {
-                result.push(entry[0]);
+        for (const symbol of this.getAllSymbols(Symbol, true)) {
+            if ((symbol instanceof RuleSymbol || symbol instanceof TokenSymbol || symbol instanceof FragmentTokenSymbol)
+                && this.getReferenceCount(symbol.name) === 0) {
+                result.push(symbol.name);
             }
         }
 
@@ -384,6 +389,7 @@ export class ContextSymbolTable extends SymbolTable {
                 source: root.owner ? root.owner.fileName : "ANTLR runtime",
                 definition: SourceContext.definitionForContext(symbol.context, true),
                 description: undefined,
+                documentation: SourceContext.documentationForContext(symbol.context),
             });
         }
 
@@ -0,0 +1,427 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { DocumentationOptions, SymbolDocumentation, SymbolKind } from "./facade";
+import { GrammarType, SourceContext } from "./SourceContext";
+
+/**
+ * All the details of a single rule, as needed for the documentation.
+ */
+interface RuleEntry {
+    name: string;
+    anchor: string;
+    kind: SymbolKind;
+    definition: string;
+    documentation?: SymbolDocumentation;
+    svg?: string;
+    uses: string[];
+    usedBy: string[];
+}
+
+/**
+ * Creates a reference documentation for a grammar, as static HTML page and/or Markdown file.
+ * The railroad diagrams are embedded in the HTML page, while for Markdown they are written as SVG files into a
+ * sub folder named after the grammar. The diagrams can also be exported alone.
+ */
+export class DocumentationGenerator {
+    // The styles for railroad diagrams, taken from the light theme. They are embedded into the generated files,
+    // so that they do not depend on the extension.
+    private static readonly diagramStyles = `
+        svg.railroad-diagram path { stroke-width: 2; stroke: darkgray; fill: rgba(0, 0, 0, 0); }
+        svg.railroad-diagram text {
+            font: bold 12px Hack, "Source Code Pro", monospace; text-anchor: middle; fill: #404040;
+        }
+        svg.railroad-diagram text.comment { font: italic 10px Hack, "Source Code Pro", monospace; fill: #404040; }
+        svg.railroad-diagram g.non-terminal rect { stroke-width: 2; stroke: #404040; fill: rgba(255, 255, 255, 1); }
+        svg.railroad-diagram g.terminal rect { stroke-width: 2; stroke: #404040; fill: rgba(0, 0, 0, 0.1); }
+    `;
+
+    private static readonly pageStyles = `
+        body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2em auto;
+            max-width: 60em; color: #24292e; }
+        pre, code { font-family: Hack, "Source Code Pro", monospace; background: #f6f8fa; }
+        pre { padding: 0.8em; overflow: auto; }
+        section { border-top: 1px solid #e1e4e8; }
+        .deprecated { color: #b31d28; }
+        .references { font-size: 0.9em; }
+    `;
+
+    public constructor(private context: SourceContext) { }
+
+    /**
+     * Escapes characters which have a special meaning in HTML.
+     *
+     * @param text The text to escape.
+     *
+     * @returns The escaped text.
+     */
+    private static escapeHTML(text: string): string {
+        return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+    }
+
+    /**
+     * Converts the (markdown) text of a doc comment to HTML. Only paragraphs, inline code and emphasis are
+     * supported.
+     *
+     * @param text The text to convert.
+     *
+     * @returns The HTML code.
+     */
+    private static textToHTML(text: string): string {
+        return text.split(/\n\s*\n/).map((paragraph) => {
+            const html = DocumentationGenerator.escapeHTML(paragraph.trim())
+                .replace(/`([^`]+)`/g, "<code>$1</code>")
+                .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+                .replace(/\*([^*]+)\*/g, "<em>$1</em>");
+
+            return "<p>" + html + "</p>";
+        }).join("\n");
+    }
+
+    /**
+     * Writes the documentation files for the grammar.
+     *
+     * @param options The output folder and the formats to generate.
+     *
+     * @returns The names of the generated files (without the diagram images).
+     */
+    public generate(options: DocumentationOptions): string[] {
+        const parserRules: RuleEntry[] = [];
+        const lexerRules: RuleEntry[] = [];
+        for (const entry of this.collectRules()) {
+            if (entry.kind === SymbolKind.ParserRule) {
+                parserRules.push(entry);
+            } else {
+                lexerRules.push(entry);
+            }
+        }
+
+        fs.mkdirSync(options.outputDir, { recursive: true });
+
+        const result: string[] = [];
+        if (options.html ?? true) {
+            const fileName = path.join(options.outputDir, this.context.sourceId + ".html");
+            fs.writeFileSync(fileName, this.createHTML(parserRules, lexerRules), "utf8");
+            result.push(fileName);
+        }
+
+        if (options.markdown ?? true) {
+            this.writeDiagrams(path.join(options.outputDir, this.context.sourceId), [...parserRules, ...lexerRules]);
+
+            const fileName = path.join(options.outputDir, this.context.sourceId + ".md");
+            fs.writeFileSync(fileName, this.createMarkdown(parserRules, lexerRules), "utf8");
+            result.push(fileName);
+        }
+
+        return result;
+    }
+
+    /**
+     * Writes the railroad diagrams of all rules as stand-alone SVG files (one per rule), together with an
+     * index page which shows all of them.
+     *
+     * @param outputDir The folder to write the files to.
+     *
+     * @returns The names of the written files. The index page is the last entry.
+     */
+    public exportDiagrams(outputDir: string): string[] {
+        const entries = this.collectRules().filter((entry) => entry.svg !== undefined);
+        const result = this.writeDiagrams(outputDir, entries);
+
+        const escape = (text: string) => DocumentationGenerator.escapeHTML(text);
+        const sections = entries.map((entry) => `<h3 id="${entry.anchor}">${escape(entry.name)}</h3>\n` +
+            `<img src="${encodeURIComponent(entry.name)}.svg" alt="${escape(entry.name)}">`);
+
+        const fileName = path.join(outputDir, "index.html");
+        fs.writeFileSync(fileName, `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>${escape(this.title)}</title>
+    <style>${DocumentationGenerator.pageStyles}</style>
+</head>
+<body>
+<h1>${escape(this.title)}</h1>
+${sections.join("\n")}
+</body>
+</html>
+`, "utf8");
+        result.push(fileName);
+
+        return result;
+    }
+
+    /**
+     * Collects the details of all rules and tokens defined in the grammar (not those from imported grammars).
+     *
+     * @returns The list of rules, in the order in which they are defined.
+     */
+    private collectRules(): RuleEntry[] {
+        const graph = this.context.getReferenceGraph();
+
+        // Names in the reference graph are qualified by the grammar name.
+        const unqualified = (name: string) => name.substring(name.lastIndexOf(".") + 1);
+        const usedBy = new Map<string, Set<string>>();
+        const uses = new Map<string, string[]>();
+        graph.forEach((node, name) => {
+            const caller = unqualified(name);
+            const callees = [...node.rules, ...node.tokens].map(unqualified);
+            uses.set(caller, [...new Set(callees)]);
+            for (const callee of callees) {
+                let callers = usedBy.get(callee);
+                if (!callers) {
+                    callers = new Set();
+                    usedBy.set(callee, callers);
+                }
+                callers.add(caller);
+            }
+        });
+
+        const result: RuleEntry[] = [];
+        for (const symbol of this.context.listTopLevelSymbols(true)) {
+            switch (symbol.kind) {
+                case SymbolKind.ParserRule:
+                case SymbolKind.LexerRule:
+                case SymbolKind.FragmentLexerToken:
+                case SymbolKind.VirtualLexerToken: {
+                    // The doc comment is part of the definition, but is rendered separately.
+                    const definition = symbol.definition?.text.replace(/^(\s*\/\*\*[\s\S]*?\*\/)+\s*/, "") ?? "";
+                    result.push({
+                        name: symbol.name,
+                        anchor: (symbol.kind === SymbolKind.ParserRule ? "rule-" : "token-") + symbol.name,
+                        kind: symbol.kind,
+                        definition,
+                        documentation: symbol.documentation,
+                        svg: symbol.kind === SymbolKind.VirtualLexerToken ? undefined :
+                            this.context.getRRDSvg(symbol.name),
+                        uses: uses.get(symbol.name) ?? [],
+                        usedBy: [...usedBy.get(symbol.name) ?? []],
+                    });
+
+                    break;
+                }
+
+                default: {
+                    break;
+                }
+            }
+        }
+
+        // Keep the order of the grammar, instead of the grouping by symbol type.
+        return result.sort((lhs, rhs) => this.definitionStart(lhs.name) - this.definitionStart(rhs.name));
+    }
+
+    /**
+     * Writes the railroad diagrams of the given rules, one SVG file per rule, named after the rule.
+     *
+     * @param folder The target folder.
+     * @param entries The rules to write.
+     *
+     * @returns The names of the written files.
+     */
+    private writeDiagrams(folder: string, entries: RuleEntry[]): string[] {
+        fs.mkdirSync(folder, { recursive: true });
+
+        const result: string[] = [];
+        for (const entry of entries) {
+            if (entry.svg) {
+                // Stand-alone SVG files need their own style definitions.
+                const svg = entry.svg.replace(/^<svg[^>]*>/,
+                    (tag) => `${tag}\n<style>${DocumentationGenerator.diagramStyles}</style>`);
+                const fileName = path.join(folder, entry.name + ".svg");
+                fs.writeFileSync(fileName, '<?xml version="1.0" standalone="no"?>\n' + svg, "utf8");
+                result.push(fileName);
+            }
+        }
+
+        return result;
+    }
+
+    private definitionStart(name: string): number {
+        const info = this.context.getSymbolInfo(name);
+        if (!info?.definition) {
+            return 0;
+        }
+
+        return info.definition.range.start.row * 10000 + info.definition.range.start.column;
+    }
+
+    private get title(): string {
+        switch (this.context.info.type) {
+            case GrammarType.Lexer: {
+                return `Lexer Grammar ${this.context.sourceId}`;
+            }
+
+            case GrammarType.Parser: {
+                return `Parser Grammar ${this.context.sourceId}`;
+            }
+
+            default: {
+                return `Grammar ${this.context.sourceId}`;
+            }
+        }
+    }
+
+    private createMarkdown(parserRules: RuleEntry[], lexerRules: RuleEntry[]): string {
+        const anchors = new Map<string, string>();
+        [...parserRules, ...lexerRules].forEach((entry) => { anchors.set(entry.name, entry.anchor); });
+        const link = (name: string) => {
+            const anchor = anchors.get(name);
+
+            return anchor ? `[${name}](#${anchor})` : "`" + name + "`";
+        };
+
+        const lines: string[] = [`# ${this.title}`, ""];
+        const grammarDocumentation = SourceContext.documentationForContext(this.context.grammarTree);
+        if (grammarDocumentation && grammarDocumentation.text.length > 0) {
+            lines.push(grammarDocumentation.text, "");
+        }
+
+        if (parserRules.length > 0) {
+            lines.push("**Parser rules:** " + parserRules.map((entry) => link(entry.name)).join(", "), "");
+        }
+
+        if (lexerRules.length > 0) {
+            lines.push("**Tokens:** " + lexerRules.map((entry) => link(entry.name)).join(", "), "");
+        }
+
+        const addSection = (entry: RuleEntry) => {
+            lines.push(`<a id="${entry.anchor}"></a>`, "", `### ${entry.name}`, "");
+
+            const documentation = entry.documentation;
+            if (documentation?.deprecated !== undefined) {
+                lines.push("**Deprecated**" +
+                    (documentation.deprecated.length > 0 ? ": " + documentation.deprecated : ""), "");
+            }
+
+            if (documentation && documentation.text.length > 0) {
+                lines.push(documentation.text, "");
+            }
+
+            if (entry.svg) {
+                lines.push(`![${entry.name}](${this.context.sourceId}/${entry.name}.svg)`, "");
+            }
+
+            if (entry.kind !== SymbolKind.ParserRule && entry.definition.length > 0) {
+                lines.push("```antlr", entry.definition, "```", "");
+            }
+
+            for (const example of documentation?.examples ?? []) {
+                lines.push("*Example:*", "", "```", example, "```", "");
+            }
+
+            if (entry.uses.length > 0) {
+                lines.push("Uses: " + entry.uses.map(link).join(", "), "");
+            }
+
+            if (entry.usedBy.length > 0) {
+                lines.push("Used by: " + entry.usedBy.map(link).join(", "), "");
+            }
+        };
+
+        if (parserRules.length > 0) {
+            lines.push("## Parser Rules", "");
+            parserRules.forEach(addSection);
+        }
+
+        if (lexerRules.length > 0) {
+            lines.push("## Tokens", "");
+            lexerRules.forEach(addSection);
+        }
+
+        return lines.join("\n");
+    }
+
+    private createHTML(parserRules: RuleEntry[], lexerRules: RuleEntry[]): string {
+        const escape = (text: string) => DocumentationGenerator.escapeHTML(text);
+        const anchors = new Map<string, string>();
+        [...parserRules, ...lexerRules].forEach((entry) => { anchors.set(entry.name, entry.anchor); });
+        const link = (name: string) => {
+            const anchor = anchors.get(name);
+
+            return anchor ? `<a href="#${anchor}">${escape(name)}</a>` : `<code>${escape(name)}</code>`;
+        };
+
+        const parts: string[] = [];
+        const grammarDocumentation = SourceContext.documentationForContext(this.context.grammarTree);
+        if (grammarDocumentation && grammarDocumentation.text.length > 0) {
+            parts.push(DocumentationGenerator.textToHTML(grammarDocumentation.text));
+        }
+
+        if (parserRules.length > 0) {
+            parts.push(`<p><strong>Parser rules:</strong> ${parserRules.map((entry) => link(entry.name))
+                .join(", ")}</p>`);
+        }
+
+        if (lexerRules.length > 0) {
+            parts.push(`<p><strong>Tokens:</strong> ${lexerRules.map((entry) => link(entry.name)).join(", ")}</p>`);
+        }
+
+        const addSection = (entry: RuleEntry) => {
+            parts.push(`<section id="${entry.anchor}">`, `<h3>${escape(entry.name)}</h3>`);
+
+            const documentation = entry.documentation;
+            if (documentation?.deprecated !== undefined) {
+                parts.push(`<p class="deprecated"><strong>Deprecated</strong>${documentation.deprecated.length > 0
+                    ? ": " + escape(documentation.deprecated) : ""}</p>`);
+            }
+
+            if (documentation && documentation.text.length > 0) {
+                parts.push(DocumentationGenerator.textToHTML(documentation.text));
+            }
+
+            if (entry.svg) {
+                parts.push(entry.svg);
+            }
+
+            if (entry.kind !== SymbolKind.ParserRule && entry.definition.length > 0) {
+                parts.push(`<pre><code>${escape(entry.definition)}</code></pre>`);
+            }
+
+            for (const example of documentation?.examples ?? []) {
+                parts.push("<p><em>Example:</em></p>", `<pre><code>${escape(example)}</code></pre>`);
+            }
+
+            if (entry.uses.length > 0) {
+                parts.push(`<p class="references">Uses: ${entry.uses.map(link).join(", ")}</p>`);
+            }
+
+            if (entry.usedBy.length > 0) {
+                parts.push(`<p class="references">Used by: ${entry.usedBy.map(link).join(", ")}</p>`);
+            }
+
+            parts.push("</section>");
+        };
+
+        if (parserRules.length > 0) {
+            parts.push("<h2>Parser Rules</h2>");
+            parserRules.forEach(addSection);
+        }
+
+        if (lexerRules.length > 0) {
+            parts.push("<h2>Tokens</h2>");
+            lexerRules.forEach(addSection);
+        }
+
+        return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>${escape(this.title)}</title>
+    <style>${DocumentationGenerator.pageStyles}${DocumentationGenerator.diagramStyles}</style>
+</head>
+<body>
+<h1>${escape(this.title)}</h1>
+${parts.join("\n")}
+</body>
+</html>
+`;
+    }
+}
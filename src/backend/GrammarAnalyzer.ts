@@ -0,0 +1,1258 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import { Lexer, ParserRuleContext, Token, Vocabulary } from "antlr4ts";
+import {
+    AbstractPredicateTransition, ActionTransition, ATN, ATNState, BlockStartState, DecisionState, LexerActionType,
+    LexerTypeAction, LL1Analyzer, PlusLoopbackState, RuleStopState, RuleTransition, StarLoopEntryState, TransitionType,
+} from "antlr4ts/atn";
+import { IntervalSet } from "antlr4ts/misc";
+import { ParseTree, TerminalNode } from "antlr4ts/tree";
+
+import {
+    AlternativeContext, ANTLRv4Parser, BlockContext, ElementContext, GrammarSpecContext, LexerRuleSpecContext,
+    ParserRuleSpecContext, RulerefContext, SetElementContext, TerminalRuleContext,
+} from "../parser/ANTLRv4Parser";
+import { DiagnosticEntry, DiagnosticType, LexicalRange } from "./facade";
+
+/**
+ * Describes where a decision in the parser ATN comes from.
+ */
+export interface DecisionSite {
+    // The element or rule block which forms the decision.
+    context: ParserRuleContext;
+
+    // The source alternatives of the block (for loops and optional elements without a block: the element).
+    alternatives: ParserRuleContext[];
+}
+
+/**
+ * The result of enumerating the token sequences an alternative can match.
+ */
+interface SequenceList {
+    sequences: number[][];
+
+    // False if not all sequences could be determined (e.g. because of loops, wildcards or predicates).
+    complete: boolean;
+}
+
+/**
+ * A position in the ATN, together with the follow states of the rules we entered to get there.
+ */
+interface Configuration {
+    state: ATNState;
+    stack: ATNState[];
+}
+
+/**
+ * Checks a parser grammar for problems which ANTLR4 does not report (or only in generation runs), like
+ * unreachable alternatives and ambiguities. Most checks work on the ATN from the interpreter data.
+ */
+export class GrammarAnalyzer {
+    // Limits for the enumeration of token sequences per alternative.
+    private static readonly maxSequenceLength = 8;
+    private static readonly maxSequenceCount = 100;
+    private static readonly maxSteps = 5000;
+    private static readonly maxStackDepth = 20;
+
+    // The number of distinct simulation steps when comparing lexer rules.
+    private static readonly maxLexerSimulations = 2000;
+
+    public constructor(private tree: GrammarSpecContext, private diagnostics: DiagnosticEntry[]) { }
+
+    /**
+     * Converts the source range of the given context to a lexical range (end column exclusive).
+     *
+     * @param ctx The context to convert.
+     *
+     * @returns The computed range.
+     */
+    public static rangeFromContext(ctx: ParserRuleContext): LexicalRange {
+        let stop = ctx.stop ?? ctx.start;
+        let start = ctx.start;
+        if (stop.tokenIndex < start.tokenIndex) {
+            // An empty alternative. Use the token before it.
+            start = stop;
+        }
+
+        if (stop.type === Token.EOF) {
+            stop = start;
+        }
+
+        return GrammarAnalyzer.rangeFromTokens(start, stop);
+    }
+
+    /**
+     * Collects the sources of all decisions in the given rule, in the order ANTLR4 creates them in the ATN
+     * (inner blocks first).
+     *
+     * @param rule The rule to examine.
+     *
+     * @returns A list of decision sites.
+     */
+    public static collectDecisionSites(rule: ParserRuleSpecContext): DecisionSite[] {
+        const result: DecisionSite[] = [];
+
+        const ruleBlock = rule.ruleBlock();
+        const labeledAlts = ruleBlock.ruleAltList().labeledAlt();
+        for (const labeledAlt of labeledAlts) {
+            GrammarAnalyzer.collectAlternativeSites(labeledAlt.alternative(), result);
+        }
+
+        const alternatives = labeledAlts.map((labeledAlt) => labeledAlt.alternative());
+        if (labeledAlts.length > 1 && !(labeledAlts[0].POUND() === undefined && GrammarAnalyzer.isSet(alternatives))) {
+            result.push({ context: ruleBlock, alternatives: labeledAlts });
+        }
+
+        return result;
+    }
+
+    private static collectAlternativeSites(alternative: AlternativeContext, sites: DecisionSite[]): void {
+        for (const element of alternative.element()) {
+            const ebnf = element.ebnf();
+            const labeledElement = element.labeledElement();
+
+            let block: BlockContext | undefined;
+            let suffix = element.ebnfSuffix();
+            if (ebnf) {
+                block = ebnf.block();
+                suffix = ebnf.blockSuffix()?.ebnfSuffix();
+            } else if (labeledElement) {
+                block = labeledElement.block();
+            } else if (!element.atom()) {
+                continue; // Actions and predicates.
+            }
+
+            // A block is either a decision on its own or reduced to a set by ANTLR4, if all alternatives consist
+            // of a single token.
+            let alternatives: ParserRuleContext[] = [element];
+            if (block) {
+                const blockAlternatives = block.altList().alternative();
+                for (const blockAlternative of blockAlternatives) {
+                    GrammarAnalyzer.collectAlternativeSites(blockAlternative, sites);
+                }
+
+                if (!GrammarAnalyzer.isSet(blockAlternatives)) {
+                    alternatives = blockAlternatives;
+                }
+            }
+
+            if (!suffix) {
+                if (alternatives.length > 1) {
+                    sites.push({ context: block!, alternatives });
+                }
+            } else if (suffix.QUESTION().length > 0 && !suffix.STAR() && !suffix.PLUS()) {
+                sites.push({ context: element, alternatives });
+            } else {
+                // Closures have a decision for their block (if it has more than one alternative) and one
+                // to decide between looping and exiting.
+                if (alternatives.length > 1) {
+                    sites.push({ context: block!, alternatives });
+                }
+                sites.push({ context: element, alternatives: [element] });
+            }
+        }
+    }
+
+    /**
+     * Determines if the given alternatives form a set (all of them consist only of a single token reference or
+     * literal), which ANTLR4 uses instead of a block.
+     *
+     * @param alternatives The alternatives to check.
+     *
+     * @returns True if the alternatives can be reduced to a set.
+     */
+    private static isSet(alternatives: AlternativeContext[]): boolean {
+        if (alternatives.length < 2) {
+            return false;
+        }
+
+        return alternatives.every((alternative) => {
+            const elements = alternative.element();
+            if (elements.length !== 1 || elements[0].ebnfSuffix()) {
+                return false;
+            }
+
+            return elements[0].atom()?.terminalRule() !== undefined;
+        });
+    }
+
+    private static rangeFromTokens(start: Token, stop: Token): LexicalRange {
+        return {
+            start: { column: start.charPositionInLine, row: start.line },
+            end: { column: stop.charPositionInLine + stop.stopIndex - stop.startIndex + 1, row: stop.line },
+        };
+    }
+
+    private static configurationKey(configuration: Configuration): string {
+        return `${configuration.state.stateNumber}:${configuration.stack.map((state) => state.stateNumber).join(",")}`;
+    }
+
+    /**
+     * Looks for configurations which completed a top level rule.
+     *
+     * @param configurations The configurations to examine.
+     *
+     * @returns The smallest index of all completed rules (which is the one a lexer would pick), if there's any.
+     */
+    private static acceptedRule(configurations: Configuration[]): number | undefined {
+        let result: number | undefined;
+        for (const { state, stack } of configurations) {
+            if (state instanceof RuleStopState && stack.length === 0) {
+                if (result === undefined || state.ruleIndex < result) {
+                    result = state.ruleIndex;
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Converts the content of a grammar string literal to the code points it stands for.
+     *
+     * @param literal The literal, including the quotes.
+     *
+     * @returns The list of code points or undefined if the literal contains an invalid escape sequence.
+     */
+    private static unescapeLiteral(literal: string): number[] | undefined {
+        const result: number[] = [];
+        const text = literal.substring(1, literal.length - 1);
+        const escapes = new Map([["n", 10], ["r", 13], ["t", 9], ["b", 8], ["f", 12], ["\\", 92], ["'", 39]]);
+
+        let index = 0;
+        while (index < text.length) {
+            const codePoint = text.codePointAt(index)!;
+            index += codePoint > 0xFFFF ? 2 : 1;
+            if (codePoint !== 92) { // Backslash
+                result.push(codePoint);
+
+                continue;
+            }
+
+            const next = text.charAt(index++);
+            if (escapes.has(next)) {
+                result.push(escapes.get(next)!);
+            } else if (next === "u") {
+                let digits;
+                if (text.charAt(index) === "{") {
+                    const end = text.indexOf("}", index);
+                    digits = end > -1 ? text.substring(index + 1, end) : "";
+                    index = end + 1;
+                } else {
+                    digits = text.substr(index, 4);
+                    index += 4;
+                }
+
+                if (!/^[0-9a-fA-F]{1,6}$/.test(digits)) {
+                    return undefined;
+                }
+                result.push(parseInt(digits, 16));
+            } else {
+                return undefined;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Looks for sets of parser rules which are mutually left-recursive. ANTLR4 can only handle direct left recursion
+     * and refuses to generate anything for such grammars, so this check does not need an ATN.
+     * Each involved rule gets a warning at the rule reference which leads back to it.
+     */
+    public checkIndirectLeftRecursion(): void {
+        const rules = this.parserRules();
+        const nullable = this.computeNullableRules(rules);
+
+        // For each rule the rule references which can appear at the leftmost position of it.
+        const leftReferences = new Map<string, RulerefContext[]>();
+        for (const [name, rule] of rules) {
+            const references: RulerefContext[] = [];
+            for (const labeledAlt of rule.ruleBlock().ruleAltList().labeledAlt()) {
+                this.collectLeftReferences(labeledAlt.alternative(), nullable, references);
+            }
+            leftReferences.set(name, references);
+        }
+
+        for (const component of this.findStronglyConnectedRules(leftReferences)) {
+            if (component.size < 2) {
+                continue; // Direct left recursion is supported by ANTLR4.
+            }
+
+            for (const name of component) {
+                // Find a path back to this rule, going through other rules of the component.
+                const path = this.findLeftRecursionPath(name, component, leftReferences);
+                if (path.length > 0) {
+                    const names = [name, ...path.map((reference) => reference.text)];
+                    this.diagnostics.push({
+                        type: DiagnosticType.Warning,
+                        message: `Rule '${name}' is indirectly left-recursive (${names.join(" -> ")})`,
+                        range: GrammarAnalyzer.rangeFromContext(path[0]),
+                    });
+                }
+            }
+        }
+    }
+
+    /**
+     * Examines each decision in the given parser ATN and reports alternatives which can never be matched, because
+     * earlier alternatives match the same input, alternatives which are ambiguous and LL(1) conflicts.
+     *
+     * @param atn The parser ATN (from interpreter data).
+     * @param ruleNames The rule names from the interpreter data.
+     * @param vocabulary For token names in messages.
+     */
+    public checkDecisions(atn: ATN, ruleNames: string[], vocabulary: Vocabulary): void {
+        const rules = this.parserRules();
+
+        const decisionsPerRule = new Map<number, DecisionState[]>();
+        for (const state of atn.decisionToState) {
+            let list = decisionsPerRule.get(state.ruleIndex);
+            if (!list) {
+                list = [];
+                decisionsPerRule.set(state.ruleIndex, list);
+            }
+            list.push(state);
+        }
+
+        const analyzer = new LL1Analyzer(atn);
+        for (const [ruleIndex, decisions] of decisionsPerRule) {
+            const rule = rules.get(ruleNames[ruleIndex]);
+            if (!rule || atn.ruleToStartState[ruleIndex].isPrecedenceRule) {
+                // Imported rules are checked in their own grammar. Left recursive rules are rewritten by ANTLR4 and
+                // do not match the source anymore.
+                continue;
+            }
+
+            // Decisions are numbered in the order ANTLR4 creates them, which we can reproduce from the parse tree.
+            // If that doesn't work out (e.g. because of a stale ATN) we use the rule name as location.
+            let sites: Array<DecisionSite | undefined> = GrammarAnalyzer.collectDecisionSites(rule);
+            if (sites.length !== decisions.length) {
+                sites = [];
+            }
+
+            decisions.forEach((decision, index) => {
+                this.checkDecision(atn, analyzer, vocabulary, decision, rule, sites[index]);
+            });
+        }
+    }
+
+    /**
+     * Compares the lexer rules within each mode and reports rules which can never be matched, because everything they
+     * match is matched by earlier rules already (e.g. a keyword defined after an identifier rule).
+     *
+     * @param atn The lexer ATN (from interpreter data).
+     * @param ruleNames The rule names from the interpreter data.
+     */
+    public checkLexerRules(atn: ATN, ruleNames: string[]): void {
+        const rules = this.lexerRules();
+        const predicateRules = this.rulesWithPredicates(atn);
+
+        for (const modeStart of atn.modeToStartState) {
+            // The mode start state has a transition to each (non-fragment) rule in the mode, in definition order.
+            const modeRules: number[] = [];
+            for (let i = 0; i < modeStart.numberOfTransitions; ++i) {
+                modeRules.push(modeStart.transition(i).target.ruleIndex);
+            }
+
+            modeRules.forEach((ruleIndex, position) => {
+                const rule = rules.get(ruleNames[ruleIndex]);
+                if (!rule || position === 0) {
+                    return;
+                }
+
+                // Rules with predicates might not match, so they cannot shadow other rules.
+                const candidates = modeRules.slice(0, position).filter((candidate) => !predicateRules.has(candidate));
+                const shadowing = this.findShadowingRules(atn, ruleIndex, candidates);
+                if (shadowing && shadowing.length > 0) {
+                    const names = shadowing.map((index) => `'${ruleNames[index]}'`);
+                    this.diagnostics.push({
+                        type: DiagnosticType.Warning,
+                        message: `Lexer rule '${ruleNames[ruleIndex]}' can never be matched, because everything it ` +
+                            `matches is matched by the earlier rule${names.length > 1 ? "s" : ""} ${names.join(", ")}`,
+                        range: GrammarAnalyzer.rangeFromTokens(rule.TOKEN_REF().symbol, rule.TOKEN_REF().symbol),
+                    });
+                }
+            });
+        }
+    }
+
+    /**
+     * Reports string literals in parser rules, which the lexer never returns as the token they stand for.
+     * For example a literal 'if' stands for the token IF (defined as `IF: 'if';`), but if that rule comes after
+     * an identifier rule, the lexer will always return an identifier for this input.
+     *
+     * @param lexerATN The ATN of the lexer providing the tokens (from interpreter data).
+     * @param vocabulary The vocabulary of the parser.
+     */
+    public checkParserLiterals(lexerATN: ATN, vocabulary: Vocabulary): void {
+        const literalTypes = new Map<string, number>();
+        for (let type = Token.MIN_USER_TOKEN_TYPE; type <= vocabulary.maxTokenType; ++type) {
+            const literal = vocabulary.getLiteralName(type);
+            if (literal) {
+                literalTypes.set(literal, type);
+            }
+        }
+
+        const predicateRules = this.rulesWithPredicates(lexerATN);
+        const tokenName = (type: number): string => vocabulary.getSymbolicName(type) ?? vocabulary.getDisplayName(type);
+
+        for (const rule of this.parserRules().values()) {
+            const literals: TerminalNode[] = [];
+            this.collectLiterals(rule, literals);
+
+            for (const literal of literals) {
+                const expectedType = literalTypes.get(literal.text);
+                const input = GrammarAnalyzer.unescapeLiteral(literal.text);
+                if (expectedType === undefined || !input || input.length === 0) {
+                    continue;
+                }
+
+                // Fine, if the literal is lexed as its token in any of the modes.
+                let found = false;
+                let defaultType: number | undefined;
+                for (let mode = 0; mode < lexerATN.modeToStartState.length && !found; ++mode) {
+                    const ruleIndex = this.lexWholeInput(lexerATN, mode, input);
+                    if (ruleIndex === undefined) {
+                        continue;
+                    }
+
+                    if (predicateRules.has(ruleIndex)) {
+                        found = true; // Cannot say for sure.
+
+                        break;
+                    }
+
+                    const type = this.tokenTypeOfRule(lexerATN, ruleIndex);
+                    if (type === expectedType) {
+                        found = true;
+                    } else if (mode === 0) {
+                        defaultType = type;
+                    }
+                }
+
+                if (!found && defaultType !== undefined) {
+                    this.diagnostics.push({
+                        type: DiagnosticType.Warning,
+                        message: `The literal ${literal.text} is always lexed as ${tokenName(defaultType)}, not as ` +
+                            tokenName(expectedType),
+                        range: GrammarAnalyzer.rangeFromTokens(literal.symbol, literal.symbol),
+                    });
+                }
+            }
+        }
+    }
+
+    private parserRules(): Map<string, ParserRuleSpecContext> {
+        const result = new Map<string, ParserRuleSpecContext>();
+        for (const spec of this.tree.rules().ruleSpec()) {
+            const rule = spec.parserRuleSpec();
+            if (rule) {
+                result.set(rule.RULE_REF().text, rule);
+            }
+        }
+
+        return result;
+    }
+
+    private lexerRules(): Map<string, LexerRuleSpecContext> {
+        const result = new Map<string, LexerRuleSpecContext>();
+        for (const spec of this.tree.rules().ruleSpec()) {
+            const rule = spec.lexerRuleSpec();
+            if (rule) {
+                result.set(rule.TOKEN_REF().text, rule);
+            }
+        }
+
+        for (const modeSpec of this.tree.modeSpec()) {
+            for (const rule of modeSpec.lexerRuleSpec()) {
+                result.set(rule.TOKEN_REF().text, rule);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Collects all string literals which stand for a token in the given subtree.
+     *
+     * @param tree The subtree to search.
+     * @param literals Receives the found literals.
+     */
+    private collectLiterals(tree: ParseTree, literals: TerminalNode[]): void {
+        if (tree instanceof TerminalNode) {
+            if (tree.symbol.type === ANTLRv4Parser.STRING_LITERAL
+                && (tree.parent instanceof TerminalRuleContext || tree.parent instanceof SetElementContext)) {
+                literals.push(tree);
+            }
+
+            return;
+        }
+
+        for (let i = 0; i < tree.childCount; ++i) {
+            this.collectLiterals(tree.getChild(i), literals);
+        }
+    }
+
+    private rulesWithPredicates(atn: ATN): Set<number> {
+        const result = new Set<number>();
+        for (const state of atn.states) {
+            for (let i = 0; i < state.numberOfTransitions; ++i) {
+                if (state.transition(i) instanceof AbstractPredicateTransition) {
+                    result.add(state.ruleIndex);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Determines the token type a lexer rule produces, taking `type` commands into account.
+     *
+     * @param atn The lexer ATN.
+     * @param ruleIndex The index of the rule.
+     *
+     * @returns The token type or undefined if the rule doesn't produce a token on its own (skip and more commands).
+     */
+    private tokenTypeOfRule(atn: ATN, ruleIndex: number): number | undefined {
+        let result: number | undefined = atn.ruleToTokenType[ruleIndex];
+        for (const state of atn.states) {
+            if (state.ruleIndex !== ruleIndex) {
+                continue;
+            }
+
+            for (let i = 0; i < state.numberOfTransitions; ++i) {
+                const transition = state.transition(i);
+                if (transition instanceof ActionTransition) {
+                    const action = atn.lexerActions[transition.actionIndex];
+                    switch (action?.actionType) {
+                        case LexerActionType.TYPE: {
+                            result = (action as LexerTypeAction).type;
+                            break;
+                        }
+
+                        case LexerActionType.SKIP:
+                        case LexerActionType.MORE: {
+                            return undefined;
+                        }
+
+                        default: {
+                            break;
+                        }
+                    }
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Determines which parser rules can match empty input.
+     *
+     * @param rules The rules to examine.
+     *
+     * @returns The names of all rules which can match nothing.
+     */
+    private computeNullableRules(rules: Map<string, ParserRuleSpecContext>): Set<string> {
+        const result = new Set<string>();
+
+        let changed = true;
+        while (changed) {
+            changed = false;
+            for (const [name, rule] of rules) {
+                if (!result.has(name)) {
+                    const alternatives = rule.ruleBlock().ruleAltList().labeledAlt();
+                    if (alternatives.some((labeledAlt) => this.isNullable(labeledAlt.alternative(), result))) {
+                        result.add(name);
+                        changed = true;
+                    }
+                }
+            }
+        }
+
+        return result;
+    }
+
+    private isNullable(alternative: AlternativeContext, nullableRules: Set<string>): boolean {
+        return alternative.element().every((element) => this.isElementNullable(element, nullableRules));
+    }
+
+    private isElementNullable(element: ElementContext, nullableRules: Set<string>): boolean {
+        if (element.actionBlock()) {
+            return true;
+        }
+
+        let suffix = element.ebnfSuffix();
+        const ebnf = element.ebnf();
+        if (ebnf) {
+            suffix = ebnf.blockSuffix()?.ebnfSuffix();
+        }
+
+        if (suffix && !suffix.PLUS()) {
+            return true;
+        }
+
+        const block = ebnf?.block() ?? element.labeledElement()?.block();
+        if (block) {
+            return block.altList().alternative().some((alternative) => this.isNullable(alternative, nullableRules));
+        }
+
+        const atom = element.atom() ?? element.labeledElement()?.atom();
+        const ruleref = atom?.ruleref();
+        if (ruleref) {
+            return nullableRules.has(ruleref.RULE_REF().text);
+        }
+
+        return false;
+    }
+
+    /**
+     * Collects all rule references which can appear at the start of the given alternative.
+     *
+     * @param alternative The alternative to examine.
+     * @param nullableRules The names of rules which can match empty input.
+     * @param references Receives the found rule references.
+     */
+    private collectLeftReferences(alternative: AlternativeContext, nullableRules: Set<string>,
+        references: RulerefContext[]): void {
+        for (const element of alternative.element()) {
+            const block = element.ebnf()?.block() ?? element.labeledElement()?.block();
+            if (block) {
+                for (const blockAlternative of block.altList().alternative()) {
+                    this.collectLeftReferences(blockAlternative, nullableRules, references);
+                }
+            } else {
+                const atom = element.atom() ?? element.labeledElement()?.atom();
+                const ruleref = atom?.ruleref();
+                if (ruleref) {
+                    references.push(ruleref);
+                }
+            }
+
+            if (!this.isElementNullable(element, nullableRules)) {
+                break;
+            }
+        }
+    }
+
+    /**
+     * Tarjan's algorithm to find strongly connected components in the left reference graph.
+     *
+     * @param graph The left references of each rule.
+     *
+     * @returns A list of rule sets, each forming a strongly connected component.
+     */
+    private findStronglyConnectedRules(graph: Map<string, RulerefContext[]>): Array<Set<string>> {
+        const result: Array<Set<string>> = [];
+        const indexes = new Map<string, number>();
+        const lowLinks = new Map<string, number>();
+        const stack: string[] = [];
+        let index = 0;
+
+        const connect = (name: string) => {
+            indexes.set(name, index);
+            lowLinks.set(name, index);
+            ++index;
+            stack.push(name);
+
+            for (const reference of graph.get(name) ?? []) {
+                const target = reference.RULE_REF().text;
+                if (!graph.has(target)) {
+                    continue;
+                }
+
+                if (!indexes.has(target)) {
+                    connect(target);
+                    lowLinks.set(name, Math.min(lowLinks.get(name)!, lowLinks.get(target)!));
+                } else if (stack.includes(target)) {
+                    lowLinks.set(name, Math.min(lowLinks.get(name)!, indexes.get(target)!));
+                }
+            }
+
+            if (lowLinks.get(name) === indexes.get(name)) {
+                const component = new Set<string>();
+                let member;
+                do {
+                    member = stack.pop()!;
+                    component.add(member);
+                } while (member !== name);
+                result.push(component);
+            }
+        };
+
+        for (const name of graph.keys()) {
+            if (!indexes.has(name)) {
+                connect(name);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Does a breadth-first search for the shortest reference path from the given rule back to itself, which
+     * involves at least one other rule.
+     *
+     * @param name The rule to start with.
+     * @param component The rules which can be part of the path.
+     * @param graph The left references of each rule.
+     *
+     * @returns The rule references forming the path.
+     */
+    private findLeftRecursionPath(name: string, component: Set<string>,
+        graph: Map<string, RulerefContext[]>): RulerefContext[] {
+        const pending: RulerefContext[][] = [];
+        for (const reference of graph.get(name)!) {
+            const target = reference.RULE_REF().text;
+            if (target !== name && component.has(target)) {
+                pending.push([reference]);
+            }
+        }
+
+        const visited = new Set<string>();
+        while (pending.length > 0) {
+            const path = pending.shift()!;
+            const current = path[path.length - 1].RULE_REF().text;
+            if (current === name) {
+                return path;
+            }
+
+            if (visited.has(current)) {
+                continue;
+            }
+            visited.add(current);
+
+            for (const reference of graph.get(current)!) {
+                const target = reference.RULE_REF().text;
+                if (component.has(target)) {
+                    pending.push([...path, reference]);
+                }
+            }
+        }
+
+        return [];
+    }
+
+    private checkDecision(atn: ATN, analyzer: LL1Analyzer, vocabulary: Vocabulary, decision: DecisionState,
+        rule: ParserRuleSpecContext, site: DecisionSite | undefined): void {
+        const ruleName = rule.RULE_REF().text;
+
+        // Returns the location for an alternative (one-based) or for the entire decision.
+        const rangeFor = (alternative?: number): LexicalRange => {
+            if (!site) {
+                return GrammarAnalyzer.rangeFromTokens(rule.RULE_REF().symbol, rule.RULE_REF().symbol);
+            }
+
+            if (alternative !== undefined && alternative <= site.alternatives.length) {
+                return GrammarAnalyzer.rangeFromContext(site.alternatives[alternative - 1]);
+            }
+
+            return GrammarAnalyzer.rangeFromContext(site.context);
+        };
+
+        const tokenList = (set: IntervalSet): string => {
+            const names = set.toArray().slice(0, 5).map((type) => vocabulary.getDisplayName(type));
+
+            return names.join(", ") + (set.size > 5 ? ", ..." : "");
+        };
+
+        const lookahead = analyzer.getDecisionLookahead(decision) ?? [];
+
+        if (decision instanceof StarLoopEntryState || decision instanceof PlusLoopbackState) {
+            // Loop or exit. With a non-greedy loop the exit branch comes first.
+            const [loop, exit] = decision.nonGreedy ? [lookahead[1], lookahead[0]] : [lookahead[0], lookahead[1]];
+            const conflict = this.intersect(loop, exit);
+            if (conflict) {
+                this.diagnostics.push({
+                    type: DiagnosticType.Warning,
+                    message: `Potential ambiguity in rule '${ruleName}': the loop can be continued or exited on ` +
+                        tokenList(conflict),
+                    range: rangeFor(),
+                });
+            }
+
+            return;
+        }
+
+        if (!(decision instanceof BlockStartState)) {
+            return;
+        }
+
+        // Map decision alternatives to source alternatives. An optional block has an additional
+        // alternative to skip the block (the first one, if the block is non-greedy).
+        let alternativeCount = decision.numberOfTransitions;
+        let firstAlternative = 0;
+        if (site && site.alternatives.length === alternativeCount - 1) {
+            --alternativeCount;
+            if (decision.nonGreedy) {
+                firstAlternative = 1;
+            }
+
+            const bypass = lookahead[decision.nonGreedy ? 0 : alternativeCount];
+            const entry = new IntervalSet();
+            for (let i = 0; i < alternativeCount; ++i) {
+                const set = lookahead[firstAlternative + i];
+                if (set) {
+                    entry.addAll(set);
+                }
+            }
+
+            const conflict = this.intersect(entry, bypass);
+            if (conflict) {
+                this.diagnostics.push({
+                    type: DiagnosticType.Warning,
+                    message: `Potential ambiguity in rule '${ruleName}': the optional part can be matched or ` +
+                        `skipped on ${tokenList(conflict)}`,
+                    range: rangeFor(),
+                });
+            }
+        } else if (site && site.alternatives.length !== alternativeCount) {
+            site = undefined;
+        }
+
+        const sequences: SequenceList[] = [];
+        for (let i = 0; i < alternativeCount; ++i) {
+            const start = decision.transition(firstAlternative + i).target;
+            sequences.push(this.enumerateSequences(atn, start, decision.endState));
+        }
+
+        const alternativeName = (alternative: number): string => (site
+            ? `alternative ${alternative}`
+            : `alternative ${alternative} (of decision ${decision.decision})`);
+
+        for (let j = 1; j < alternativeCount; ++j) {
+            const reported = new Set<number>();
+
+            // Which earlier alternatives also match the sequences of this alternative?
+            const { sequences: candidates, complete } = sequences[j];
+            const matchedBy = new Map<number, number[]>(); // Alternative -> example sequence.
+            let unmatched = 0;
+            for (const sequence of candidates) {
+                let matched = false;
+                for (let i = 0; i < j; ++i) {
+                    const start = decision.transition(firstAlternative + i).target;
+                    if (this.matches(atn, start, decision.endState, sequence)) {
+                        matched = true;
+                        if (!matchedBy.has(i)) {
+                            matchedBy.set(i, sequence);
+                        }
+
+                        break;
+                    }
+                }
+
+                if (!matched) {
+                    ++unmatched;
+                }
+            }
+
+            if (complete && candidates.length > 0 && unmatched === 0) {
+                const shadowing = [...matchedBy.keys()].map((i) => i + 1);
+                this.diagnostics.push({
+                    type: DiagnosticType.Warning,
+                    message: `In rule '${ruleName}' ${alternativeName(j + 1)} can never be matched, because ` +
+                        `everything it matches is matched by alternative ${shadowing.join(", ")} already`,
+                    range: rangeFor(j + 1),
+                });
+                shadowing.forEach((alternative) => reported.add(alternative - 1));
+            } else {
+                for (const [i, sequence] of matchedBy) {
+                    const input = sequence.length === 0
+                        ? "empty input"
+                        : "input " + sequence.map((type) => vocabulary.getDisplayName(type)).join(" ");
+                    this.diagnostics.push({
+                        type: DiagnosticType.Warning,
+                        message: `Ambiguity in rule '${ruleName}': ${alternativeName(j + 1)} and ` +
+                            `alternative ${i + 1} both match ${input}`,
+                        range: rangeFor(j + 1),
+                    });
+                    reported.add(i);
+                }
+            }
+
+            // LL(1) conflicts, for alternatives not already reported.
+            for (let i = 0; i < j; ++i) {
+                if (reported.has(i)) {
+                    continue;
+                }
+
+                const conflict = this.intersect(lookahead[firstAlternative + i], lookahead[firstAlternative + j]);
+                if (conflict) {
+                    this.diagnostics.push({
+                        type: DiagnosticType.Warning,
+                        message: `FIRST/FIRST conflict in rule '${ruleName}': ${alternativeName(j + 1)} and ` +
+                            `alternative ${i + 1} can both start with ${tokenList(conflict)}`,
+                        range: rangeFor(j + 1),
+                    });
+                }
+            }
+        }
+    }
+
+    /**
+     * Computes the common tokens of two lookahead sets.
+     *
+     * @param lhs The first set.
+     * @param rhs The second set.
+     *
+     * @returns The intersection (without the epsilon marker) or undefined if there is none or if one of the sets
+     *          is unknown (because of predicates).
+     */
+    private intersect(lhs: IntervalSet | undefined, rhs: IntervalSet | undefined): IntervalSet | undefined {
+        if (!lhs || !rhs) {
+            return undefined;
+        }
+
+        const result = lhs.and(rhs);
+        result.remove(Token.EPSILON);
+
+        return result.isNil ? undefined : result;
+    }
+
+    /**
+     * Collects all token sequences which lead from the given start state to the end state (both in the same rule).
+     *
+     * @param atn The ATN to walk.
+     * @param start The state to start from.
+     * @param end The state to reach.
+     *
+     * @returns The found sequences, which are only a subset if the walk hit one of the limits.
+     */
+    private enumerateSequences(atn: ATN, start: ATNState, end: ATNState): SequenceList {
+        const result: SequenceList = { sequences: [], complete: true };
+        const seen = new Set<string>();
+        let steps = 0;
+        let stopped = false; // Set when a hard limit was reached.
+
+        const walk = (state: ATNState, stack: ATNState[], tokens: number[]): void => {
+            if (stopped) {
+                return;
+            }
+
+            if (++steps > GrammarAnalyzer.maxSteps) {
+                result.complete = false;
+                stopped = true;
+
+                return;
+            }
+
+            if (state === end && stack.length === 0) {
+                const key = tokens.join(" ");
+                if (!seen.has(key)) {
+                    seen.add(key);
+                    result.sequences.push(tokens);
+                    if (result.sequences.length === GrammarAnalyzer.maxSequenceCount) {
+                        result.complete = false;
+                        stopped = true;
+                    }
+                }
+
+                return;
+            }
+
+            if (state instanceof RuleStopState) {
+                if (stack.length > 0) {
+                    walk(stack[stack.length - 1], stack.slice(0, -1), tokens);
+                }
+
+                return;
+            }
+
+            for (let i = 0; i < state.numberOfTransitions; ++i) {
+                const transition = state.transition(i);
+                switch (transition.serializationType) {
+                    case TransitionType.RULE: {
+                        if (stack.length < GrammarAnalyzer.maxStackDepth) {
+                            walk(transition.target, [...stack, (transition as RuleTransition).followState], tokens);
+                        } else {
+                            result.complete = false;
+                        }
+                        break;
+                    }
+
+                    case TransitionType.EPSILON:
+                    case TransitionType.ACTION:
+                    case TransitionType.PRECEDENCE: {
+                        walk(transition.target, stack, tokens);
+                        break;
+                    }
+
+                    case TransitionType.ATOM:
+                    case TransitionType.RANGE:
+                    case TransitionType.SET: {
+                        if (tokens.length < GrammarAnalyzer.maxSequenceLength) {
+                            for (const type of transition.label!.toArray()) {
+                                walk(transition.target, stack, [...tokens, type]);
+                            }
+                        } else {
+                            result.complete = false;
+                        }
+                        break;
+                    }
+
+                    default: {
+                        // Predicates, wildcards and negated sets. We cannot tell what they match.
+                        result.complete = false;
+                        break;
+                    }
+                }
+            }
+        };
+
+        walk(start, [], []);
+
+        return result;
+    }
+
+    /**
+     * Simulates the ATN from the given start state to determine if the token sequence leads exactly to the end state.
+     *
+     * @param atn The ATN to use.
+     * @param start The state to start from.
+     * @param end The state to reach.
+     * @param tokens The input to match.
+     *
+     * @returns True if the sequence is matched.
+     */
+    private matches(atn: ATN, start: ATNState, end: ATNState, tokens: number[]): boolean {
+        let configurations = this.closure([{ state: start, stack: [] }], true, end);
+        for (const type of tokens) {
+            const next = this.move(configurations, type, Token.MIN_USER_TOKEN_TYPE, atn.maxTokenType, end);
+            if (next.length === 0) {
+                return false;
+            }
+            configurations = this.closure(next, true, end);
+        }
+
+        return configurations.some((configuration) => configuration.state === end
+            && configuration.stack.length === 0);
+    }
+
+    /**
+     * Computes all configurations which can be reached from the given ones without consuming input.
+     *
+     * @param configurations The configurations to start from.
+     * @param followPredicates If false then paths with a predicate are not followed.
+     * @param end An optional state at which to stop (if reached at the top level).
+     *
+     * @returns The closure of the given configurations.
+     */
+    private closure(configurations: Configuration[], followPredicates: boolean, end?: ATNState): Configuration[] {
+        const result: Configuration[] = [];
+        const seen = new Set<string>();
+        const pending = [...configurations];
+        while (pending.length > 0) {
+            const configuration = pending.pop()!;
+            const { state, stack } = configuration;
+            const key = GrammarAnalyzer.configurationKey(configuration);
+            if (seen.has(key)) {
+                continue;
+            }
+            seen.add(key);
+            result.push(configuration);
+
+            if (state === end && stack.length === 0) {
+                continue;
+            }
+
+            if (state instanceof RuleStopState) {
+                if (stack.length > 0) {
+                    pending.push({ state: stack[stack.length - 1], stack: stack.slice(0, -1) });
+                }
+
+                continue;
+            }
+
+            for (let i = 0; i < state.numberOfTransitions; ++i) {
+                const transition = state.transition(i);
+                if (transition instanceof RuleTransition) {
+                    if (stack.length < GrammarAnalyzer.maxStackDepth) {
+                        pending.push({ state: transition.target, stack: [...stack, transition.followState] });
+                    }
+                } else if (transition.isEpsilon) {
+                    if (followPredicates || !(transition instanceof AbstractPredicateTransition)) {
+                        pending.push({ state: transition.target, stack });
+                    }
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Determines the configurations reached by consuming the given symbol (a token or a code point).
+     *
+     * @param configurations The configurations to start from.
+     * @param symbol The symbol to consume.
+     * @param minSymbol The smallest valid symbol (for wildcards and negated sets).
+     * @param maxSymbol The largest valid symbol.
+     * @param end An optional state at which to stop (if reached at the top level).
+     *
+     * @returns The list of reached configurations (without their closure).
+     */
+    private move(configurations: Configuration[], symbol: number, minSymbol: number, maxSymbol: number,
+        end?: ATNState): Configuration[] {
+        const result: Configuration[] = [];
+        for (const { state, stack } of configurations) {
+            if (state === end && stack.length === 0) {
+                continue;
+            }
+
+            for (let i = 0; i < state.numberOfTransitions; ++i) {
+                const transition = state.transition(i);
+                if (!transition.isEpsilon && transition.matches(symbol, minSymbol, maxSymbol)) {
+                    result.push({ state: transition.target, stack });
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Checks if the language of a lexer rule is a subset of the languages of a number of other lexer rules.
+     *
+     * @param atn The lexer ATN.
+     * @param ruleIndex The rule to check.
+     * @param candidates The rules which might cover the rule (in the order the lexer tries them).
+     *
+     * @returns The rules which win over the given rule, if every input it matches is matched by one of the candidates.
+     *          Undefined, if the rule can match input which no candidate matches or if that cannot be determined.
+     */
+    private findShadowingRules(atn: ATN, ruleIndex: number, candidates: number[]): number[] | undefined {
+        const initial = this.closure([{ state: atn.ruleToStartState[ruleIndex], stack: [] }], true);
+        if (GrammarAnalyzer.acceptedRule(initial) !== undefined) {
+            return undefined; // Matches empty input, which ANTLR4 reports already.
+        }
+
+        // Simulate the rule and all candidates in parallel, for every input the rule can match. The rule is shadowed
+        // if a candidate accepts wherever the rule accepts. The input is partitioned in character ranges for which
+        // the ATN transitions behave the same.
+        const pending: Array<[Configuration[], Configuration[]]> = [[
+            initial,
+            this.closure(candidates.map((candidate) => ({ state: atn.ruleToStartState[candidate], stack: [] })), false),
+        ]];
+        const seen = new Set<string>();
+        const result = new Set<number>();
+        while (pending.length > 0) {
+            const [rule, others] = pending.shift()!;
+            if (others.length === 0) {
+                return undefined;
+            }
+
+            const key = rule.map((entry) => GrammarAnalyzer.configurationKey(entry)).sort().join(" ") + "|"
+                + others.map((entry) => GrammarAnalyzer.configurationKey(entry)).sort().join(" ");
+            if (seen.has(key)) {
+                continue;
+            }
+
+            if (seen.size === GrammarAnalyzer.maxLexerSimulations) {
+                return undefined;
+            }
+            seen.add(key);
+
+            if (GrammarAnalyzer.acceptedRule(rule) !== undefined) {
+                const winner = GrammarAnalyzer.acceptedRule(others);
+                if (winner === undefined) {
+                    return undefined;
+                }
+                result.add(winner);
+            }
+
+            for (const symbol of this.characterClasses(rule, others)) {
+                const next = this.move(rule, symbol, Lexer.MIN_CHAR_VALUE, Lexer.MAX_CHAR_VALUE);
+                if (next.length > 0) {
+                    pending.push([
+                        this.closure(next, true),
+                        this.closure(this.move(others, symbol, Lexer.MIN_CHAR_VALUE, Lexer.MAX_CHAR_VALUE), false),
+                    ]);
+                }
+            }
+        }
+
+        return [...result].sort((lhs, rhs) => lhs - rhs);
+    }
+
+    /**
+     * Splits the characters consumed by the first list of configurations into ranges, for which all transitions in
+     * both lists behave the same.
+     *
+     * @param configurations The configurations whose input is considered.
+     * @param others Further configurations which take part in the partitioning.
+     *
+     * @returns One representative code point for each range.
+     */
+    private characterClasses(configurations: Configuration[], others: Configuration[]): number[] {
+        const labels = (list: Configuration[]): IntervalSet[] => {
+            const sets: IntervalSet[] = [];
+            for (const { state } of list) {
+                for (let i = 0; i < state.numberOfTransitions; ++i) {
+                    const transition = state.transition(i);
+                    if (transition.isEpsilon) {
+                        continue;
+                    }
+
+                    switch (transition.serializationType) {
+                        case TransitionType.WILDCARD: {
+                            sets.push(IntervalSet.COMPLETE_CHAR_SET);
+                            break;
+                        }
+
+                        case TransitionType.NOT_SET: {
+                            sets.push(IntervalSet.COMPLETE_CHAR_SET.subtract(transition.label!));
+                            break;
+                        }
+
+                        default: {
+                            if (transition.label) {
+                                sets.push(transition.label);
+                            }
+                            break;
+                        }
+                    }
+                }
+            }
+
+            return sets;
+        };
+
+        const ownLabels = labels(configurations);
+        const boundaries = new Set<number>();
+        for (const set of [...ownLabels, ...labels(others)]) {
+            for (const interval of set.intervals) {
+                boundaries.add(interval.a);
+                boundaries.add(interval.b + 1);
+            }
+        }
+
+        // Each boundary starts a new range. Only ranges consumed by the first list are relevant.
+        return [...boundaries].filter((symbol) => ownLabels.some((set) => set.contains(symbol)));
+    }
+
+    /**
+     * Simulates the lexer ATN for the given input, in the given mode, to find the rule which matches it completely.
+     *
+     * @param atn The lexer ATN.
+     * @param mode The index of the lexer mode.
+     * @param input The code points to match.
+     *
+     * @returns The index of the winning rule, if any.
+     */
+    private lexWholeInput(atn: ATN, mode: number, input: number[]): number | undefined {
+        let configurations = this.closure([{ state: atn.modeToStartState[mode], stack: [] }], true);
+        for (const symbol of input) {
+            configurations = this.closure(this.move(configurations, symbol, Lexer.MIN_CHAR_VALUE,
+                Lexer.MAX_CHAR_VALUE), true);
+        }
+
+        return GrammarAnalyzer.acceptedRule(configurations);
+    }
+}
@@ -0,0 +1,232 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as path from "path";
+
+import { PlusLoopbackState, StarLoopEntryState } from "antlr4ts/atn";
+
+import { LexerRuleSpecContext, ParserRuleSpecContext } from "../parser/ANTLRv4Parser";
+import { GrammarAnalyzer } from "./GrammarAnalyzer";
+import { SourceContext } from "./SourceContext";
+import { AlternativeCoverage, GrammarCoverageReport, LexicalRange, RuleCoverage } from "./facade";
+
+/**
+ * Collects which decisions, alternatives and rules the grammar interpreters used while processing test input.
+ * One instance can be used for any number of inputs, to get the coverage of an entire test suite.
+ */
+export class GrammarCoverage {
+    public inputCount = 0;
+
+    // Decision number -> (alternative -> count).
+    private decisions = new Map<number, Map<number, number>>();
+    private parserRules = new Map<number, number>(); // Rule index -> count.
+    private tokenTypes = new Map<number, number>();  // Token type -> count (including skipped tokens).
+
+    /**
+     * Renders a coverage report as markdown text.
+     *
+     * @param report The report to render.
+     * @param title The heading for the report.
+     *
+     * @returns The markdown text.
+     */
+    public static formatReport(report: GrammarCoverageReport, title: string): string {
+        const parserRules = report.rules.filter((rule) => !rule.isLexerRule);
+        const lexerRules = report.rules.filter((rule) => rule.isLexerRule);
+        const alternatives = parserRules.reduce((list, rule) => list.concat(rule.alternatives),
+            [] as AlternativeCoverage[]);
+
+        const count = (list: Array<{ hits: number }>): string => {
+            const covered = list.filter((entry) => entry.hits > 0).length;
+
+            return `${covered}/${list.length}`;
+        };
+
+        const location = (fileName: string, range: LexicalRange): string => {
+            const start = range.start;
+
+            return `${path.basename(fileName)}:${start.row}:${start.column + 1}`;
+        };
+
+        const lines = [
+            `# ${title}`,
+            "",
+            `Inputs: ${report.inputCount}  `,
+            `Parser rules reached: ${count(parserRules)}  `,
+            `Alternatives exercised: ${count(alternatives)}  `,
+            `Lexer rules matched: ${count(lexerRules)}`,
+            "",
+            "| Rule | Hits | Alternatives | Never exercised |",
+            "| --- | ---: | ---: | --- |",
+        ];
+
+        for (const rule of report.rules) {
+            const missing = rule.alternatives.filter((alternative) => alternative.hits === 0)
+                .map((alternative) => location(rule.fileName, alternative.range));
+            const covered = rule.alternatives.length > 0 ? count(rule.alternatives) : "";
+            lines.push(`| ${rule.name} | ${rule.hits} | ${covered} | ${missing.join(", ")} |`);
+        }
+
+        return lines.join("\n") + "\n";
+    }
+
+    public recordDecision(decision: number, alternative: number): void {
+        let alternatives = this.decisions.get(decision);
+        if (!alternatives) {
+            alternatives = new Map<number, number>();
+            this.decisions.set(decision, alternatives);
+        }
+        alternatives.set(alternative, (alternatives.get(alternative) ?? 0) + 1);
+    }
+
+    public recordRule(ruleIndex: number): void {
+        this.parserRules.set(ruleIndex, (this.parserRules.get(ruleIndex) ?? 0) + 1);
+    }
+
+    public recordToken(tokenType: number): void {
+        this.tokenTypes.set(tokenType, (this.tokenTypes.get(tokenType) ?? 0) + 1);
+    }
+
+    /**
+     * Maps the collected data to the rules and alternatives in the grammar source.
+     *
+     * @param context The grammar for which the data was collected.
+     * @param dependencies The contexts the grammar depends on (imports, token vocabulary).
+     *
+     * @returns The coverage report.
+     */
+    public createReport(context: SourceContext, dependencies: Set<SourceContext>): GrammarCoverageReport {
+        const report: GrammarCoverageReport = { inputCount: this.inputCount, rules: [] };
+
+        const contexts = [context, ...dependencies];
+        const parserRules = new Map<string, [ParserRuleSpecContext, string]>();
+        const lexerRules = new Map<string, [LexerRuleSpecContext, string]>();
+        for (const entry of contexts) {
+            const tree = entry.grammarTree;
+            if (!tree) {
+                continue;
+            }
+
+            // The first definition wins, which is the one in the main grammar for overridden rules.
+            const specs = tree.rules().ruleSpec();
+            for (const spec of specs) {
+                const rule = spec.parserRuleSpec();
+                if (rule && !parserRules.has(rule.RULE_REF().text)) {
+                    parserRules.set(rule.RULE_REF().text, [rule, entry.fileName]);
+                }
+            }
+
+            const lexerSpecs = specs.map((spec) => spec.lexerRuleSpec());
+            tree.modeSpec().forEach((modeSpec) => lexerSpecs.push(...modeSpec.lexerRuleSpec()));
+            for (const rule of lexerSpecs) {
+                if (rule && !lexerRules.has(rule.TOKEN_REF().text)) {
+                    lexerRules.set(rule.TOKEN_REF().text, [rule, entry.fileName]);
+                }
+            }
+        }
+
+        const [, parserData] = context.interpreterData;
+        if (parserData) {
+            const atn = parserData.atn;
+            parserData.ruleNames.forEach((name, ruleIndex) => {
+                const entry = parserRules.get(name);
+                if (!entry) {
+                    return;
+                }
+
+                const [rule, fileName] = entry;
+                const coverage: RuleCoverage = {
+                    name,
+                    fileName,
+                    isLexerRule: false,
+                    range: GrammarAnalyzer.rangeFromContext(rule),
+                    hits: this.parserRules.get(ruleIndex) ?? 0,
+                    alternatives: [],
+                };
+                report.rules.push(coverage);
+
+                // Left recursive rules are rewritten by ANTLR4 and their decisions don't match the source anymore.
+                if (atn.ruleToStartState[ruleIndex].isPrecedenceRule) {
+                    return;
+                }
+
+                const decisions = atn.decisionToState.filter((state) => state.ruleIndex === ruleIndex);
+                const sites = GrammarAnalyzer.collectDecisionSites(rule);
+                if (sites.length !== decisions.length) {
+                    return;
+                }
+
+                decisions.forEach((decision, index) => {
+                    const site = sites[index];
+                    const taken = this.decisions.get(decision.decision);
+                    const hits = (alternative: number) => taken?.get(alternative) ?? 0;
+
+                    if (decision instanceof PlusLoopbackState) {
+                        // The block of a (...)+ loop is always entered at least once.
+                        return;
+                    }
+
+                    if (decision instanceof StarLoopEntryState) {
+                        // One alternative enters the loop, the other one exits it.
+                        coverage.alternatives.push({
+                            range: GrammarAnalyzer.rangeFromContext(site.alternatives[0]),
+                            hits: hits(decision.nonGreedy ? 2 : 1),
+                        });
+
+                        return;
+                    }
+
+                    // Optional blocks have an additional alternative for skipping the block, which comes first
+                    // for non-greedy blocks.
+                    const offset = decision.nonGreedy && decision.numberOfTransitions > site.alternatives.length
+                        ? 1
+                        : 0;
+                    site.alternatives.forEach((alternative, alternativeIndex) => {
+                        coverage.alternatives.push({
+                            range: GrammarAnalyzer.rangeFromContext(alternative),
+                            hits: hits(alternativeIndex + 1 + offset),
+                        });
+                    });
+                });
+
+                // Decisions are ordered inner blocks first. Use the source order instead.
+                coverage.alternatives.sort((lhs, rhs) => lhs.range.start.row - rhs.range.start.row
+                    || lhs.range.start.column - rhs.range.start.column);
+            });
+        }
+
+        let [lexerData] = context.interpreterData;
+        for (const dependency of dependencies) {
+            if (lexerData) {
+                break;
+            }
+            [lexerData] = dependency.interpreterData;
+        }
+
+        if (lexerData) {
+            lexerData.ruleNames.forEach((name, ruleIndex) => {
+                const entry = lexerRules.get(name);
+                if (!entry || entry[0].FRAGMENT()) {
+                    // Fragment rules never produce a token on their own.
+                    return;
+                }
+
+                const [rule, fileName] = entry;
+                report.rules.push({
+                    name,
+                    fileName,
+                    isLexerRule: true,
+                    range: GrammarAnalyzer.rangeFromContext(rule),
+                    hits: this.tokenTypes.get(lexerData!.atn.ruleToTokenType[ruleIndex]) ?? 0,
+                    alternatives: [],
+                });
+            });
+        }
+
+        return report;
+    }
+}
@@ -7,30 +7,79 @@
 
 import { EventEmitter } from "events";
 
-import { CharStreams, CommonTokenStream, CommonToken, ParserRuleContext, Token } from "antlr4ts";
-import { ParseTree, ErrorNode, TerminalNode } from "antlr4ts/tree";
+import {
+    CharStreams, CommonTokenStream, CommonToken, IntStream, ListTokenSource, ParserRuleContext, Token,
+} from "antlr4ts";
+import { ParseTree, ErrorNode, TerminalNode, Trees } from "antlr4ts/tree";
+import { ATNState, ATNStateType, Transition, TransitionType } from "antlr4ts/atn";
 import { ScopedSymbol, VariableSymbol } from "antlr4-c3";
 
 import { InterpreterData } from "./InterpreterDataReader";
 import {
-    LexerToken, ParseTreeNode, ParseTreeNodeType, LexicalRange, PredicateFunction,
+    LexerToken, ParseTreeNode, ParseTreeNodeType, LexicalRange, PredicateFunction, SymbolKind,
 } from "./facade";
 
 import { RuleSymbol } from "./ContextSymbolTable";
-import { SourceContext } from "./SourceContext";
+import { SourceContext, GrammarType } from "./SourceContext";
+import {
+    ANTLRv4Parser, AltListContext, AlternativeContext, AtomContext, LabeledAltContext, ParserRuleSpecContext,
+    RuleAltListContext,
+} from "../parser/ANTLRv4Parser";
 import {
     GrammarLexerInterpreter, InterpreterLexerErrorListener, GrammarParserInterpreter, InterpreterParserErrorListener,
-    RunMode,
+    RunMode, ParseEvent, DecisionPrediction,
 } from "./GrammarInterpreters";
 
 import * as vm from "vm";
 import * as fs from "fs";
 
-export interface GrammarBreakPoint {
+/**
+ * Optional details of a break point, which control if and how the debugger stops at it.
+ */
+export interface GrammarBreakPointConditions {
+    // A JS expression which must evaluate to a truthy value for the break point to trigger.
+    // See `GrammarDebugger.evaluationScope` for the available variables.
+    condition?: string;
+
+    // The number of hits required for the break point to trigger. Can be prefixed with a comparison operator
+    // (=, ==, !=, >, >=, <, <=) or with % to trigger on every n-th hit. A plain number N means ">= N".
+    hitCondition?: string;
+
+    // If set the break point is a log point: the message is printed (with expressions in curly braces replaced
+    // by their value) and the debugger doesn't stop.
+    logMessage?: string;
+}
+
+export interface GrammarBreakPoint extends GrammarBreakPointConditions {
     source: string;
     validated: boolean;
     line: number;
+    column?: number; // If set, the break point is at the grammar element at this position (0-based).
+    id: number;
+    message?: string; // Explains why a break point could not be validated.
+}
+
+/**
+ * A break point which triggers when the lexer produces a token of the given type.
+ */
+export interface GrammarTokenBreakPoint extends GrammarBreakPointConditions {
+    tokenName: string;
+    validated: boolean;
     id: number;
+    message?: string;
+}
+
+/**
+ * Describes the lexer while it is being debugged.
+ */
+export interface GrammarLexerState {
+    mode: string;
+    modeStack: string[];   // All modes pushed by the lexer, with the most recent one last.
+    token?: LexerToken;    // The token produced last.
+    ruleName?: string;     // The lexer rule which matched that token.
+    line: number;          // The position of the next input character.
+    column: number;
+    candidates: string[];  // The lexer rules which can match at that position.
 }
 
 export interface GrammarStackFrame {
@@ -43,6 +92,11 @@ export interface GrammarStackFrame {
  * This class provides debugging support for a grammar.
  */
 export class GrammarDebugger extends EventEmitter {
+    private static readonly hitConditionPattern = /^\s*(==?|!=|>=?|<=?|%)?\s*(\d+)\s*$/;
+
+    // When set, each prediction made by the parser is described in the debug console.
+    public logPredictions = false;
+
     // Interpreter data for the main grammar as well as all imported grammars.
     private lexerData: InterpreterData | undefined;
     private parserData: InterpreterData | undefined;
@@ -55,6 +109,22 @@ export class GrammarDebugger extends EventEmitter {
     private breakPoints = new Map<number, GrammarBreakPoint>();
     private nextBreakPointId = 0;
 
+    // The ATN states of all validated break points and how often each break point was hit in the current run.
+    private breakPointStates = new Map<GrammarBreakPoint, ATNState[]>();
+    private hitCounts = new Map<number, number>();
+
+    // Break point hits in the parser (step, break point id), to restore the hit counts when going back in time.
+    private hitLog: Array<[number, number]> = [];
+
+    // Break points in lexer rules (with the rule index) and on token types.
+    private lexerBreakPoints = new Map<GrammarBreakPoint, number>();
+    private tokenBreakPoints: GrammarTokenBreakPoint[] = [];
+
+    // In debug mode the input is tokenized completely (one token per step) before the parser starts.
+    private lexing = false;
+    private lexedTokens: Token[] = [];
+    private startRuleIndex = 0;
+
     public constructor(private contexts: SourceContext[], actionFile: string) {
         super();
 
@@ -78,12 +148,20 @@ export class GrammarDebugger extends EventEmitter {
         // grammar) or a dedicated lexer context. Parser data is merged into one set (by ANTLR4) even if there
         // are sub grammars. We need sub grammar contexts for breakpoint validation and call stacks.
         if (this.isValid) {
+            // Grammars imported by a lexer grammar are merged into it, so their own lexer data must not be used.
+            const imported = new Set<string>();
+            for (const context of this.contexts) {
+                if (context.info.type === GrammarType.Lexer) {
+                    context.info.imports.forEach((name) => imported.add(name));
+                }
+            }
+
             // Set up the required structures with an empty input stream.
             // On start we will replace that with the actual input.
             let lexerName = "";
             for (const context of this.contexts) {
                 const [lexerData, parserData] = context.interpreterData;
-                if (!this.lexerData && lexerData) {
+                if (!this.lexerData && lexerData && !imported.has(context.sourceId)) {
                     this.lexerData = lexerData;
                     lexerName = context.fileName;
                 }
@@ -94,6 +172,11 @@ export class GrammarDebugger extends EventEmitter {
             }
 
             const eventSink = (event: string | symbol, ...args: any[]): void => {
+                // Errors were already reported when this part of the input was parsed the first time.
+                if (event === "output" && this.parser?.replayTarget !== undefined) {
+                    return;
+                }
+
                 setImmediate((_) => this.emit(event, args));
             };
 
@@ -110,12 +193,152 @@ export class GrammarDebugger extends EventEmitter {
                 this.parser = new GrammarParserInterpreter(eventSink, predicateFunction, this.contexts[0],
                     this.parserData, this.tokenStream);
                 this.parser.buildParseTree = true;
+                this.parser.breakPointFilter = (state) => this.checkBreakPoints(state);
+                this.parser.predictionListener = (prediction) => {
+                    if (this.logPredictions && this.parser!.replayTarget === undefined) {
+                        this.sendEvent("output", GrammarDebugger.describePrediction(prediction), undefined, 0, 0,
+                            false);
+                    }
+                };
                 this.parser.removeErrorListeners();
                 this.parser.addErrorListener(new InterpreterParserErrorListener(eventSink));
             }
         }
     }
 
+    /**
+     * Determines if the given atom is the first element of an alternative which is not the first in its block.
+     * Such an alternative usually starts on an own line (after the "|").
+     *
+     * @param atom The atom to check.
+     * @param atoms All atoms of the rule, in grammar order.
+     *
+     * @returns True if the atom starts an alternative.
+     */
+    private static startsAlternative(atom: AtomContext, atoms: AtomContext[]): boolean {
+        let run = atom.parent;
+        while (run && !(run instanceof ParserRuleSpecContext)) {
+            if (run instanceof AlternativeContext) {
+                const alternative = run;
+                const owner = alternative.parent instanceof LabeledAltContext ? alternative.parent : alternative;
+                if (owner.parent?.children?.[0] !== owner) {
+                    const first = atoms.find((candidate) => GrammarDebugger.isAncestor(alternative, candidate));
+                    if (first === atom) {
+                        return true;
+                    }
+                }
+            }
+            run = run.parent;
+        }
+
+        return false;
+    }
+
+    private static isAncestor(ancestor: ParseTree, tree: ParseTree): boolean {
+        let run: ParseTree | undefined = tree;
+        while (run) {
+            if (run === ancestor) {
+                return true;
+            }
+            run = run.parent;
+        }
+
+        return false;
+    }
+
+    private static enclosingBlock(atom: AtomContext): ParseTree | undefined {
+        let run = atom.parent;
+        while (run && !(run instanceof AltListContext) && !(run instanceof RuleAltListContext)) {
+            run = run.parent;
+        }
+
+        return run;
+    }
+
+    /**
+     * Creates a one line description of a prediction, for logging.
+     *
+     * @param prediction The prediction to describe.
+     *
+     * @returns The description.
+     */
+    private static describePrediction(prediction: DecisionPrediction): string {
+        const alternatives = (list: number[]) => `{${list.join(", ")}}`;
+        const lookahead = prediction.steps.map((step) => `"${step.text}" ${alternatives(step.alternatives)}` +
+            (step.fullContext ? " (LL)" : "")).join(", ");
+
+        let result = `Decision ${prediction.decision} in ${prediction.ruleName}: predicted alternative ` +
+            `${prediction.prediction} of ${prediction.alternativeCount}, lookahead: ${lookahead || "none"}`;
+        if (prediction.fullContext) {
+            result += `; SLL conflict between ${alternatives(prediction.conflictingAlternatives ?? [])}, ` +
+                "full context (LL) prediction used";
+        }
+
+        if (prediction.ambiguousAlternatives) {
+            result += `; ambiguous alternatives ${alternatives(prediction.ambiguousAlternatives)}`;
+        }
+
+        return result;
+    }
+
+    /**
+     * Checks the syntax of the conditions of a break point.
+     *
+     * @param breakPoint The break point to check.
+     *
+     * @returns An error message if there's a problem, otherwise undefined.
+     */
+    private static checkConditions(breakPoint: GrammarBreakPointConditions): string | undefined {
+        try {
+            if (breakPoint.condition) {
+                new vm.Script(breakPoint.condition);
+            }
+        } catch (e) {
+            return "Invalid condition: " + String(e);
+        }
+
+        if (breakPoint.hitCondition && !GrammarDebugger.hitConditionPattern.test(breakPoint.hitCondition)) {
+            return `Invalid hit count condition "${breakPoint.hitCondition}"`;
+        }
+
+        return undefined;
+    }
+
+    private static hitConditionMatches(hitCondition: string, hits: number): boolean {
+        const match = GrammarDebugger.hitConditionPattern.exec(hitCondition)!;
+        const value = Number(match[2]);
+        switch (match[1]) {
+            case "=":
+            case "==": {
+                return hits === value;
+            }
+
+            case "!=": {
+                return hits !== value;
+            }
+
+            case ">": {
+                return hits > value;
+            }
+
+            case "<": {
+                return hits < value;
+            }
+
+            case "<=": {
+                return hits <= value;
+            }
+
+            case "%": {
+                return value > 0 && hits % value === 0;
+            }
+
+            default: {
+                return hits >= value;
+            }
+        }
+    }
+
     public get isValid(): boolean {
         return this.contexts.find((context) => !context.isInterpreterDataLoaded) === undefined;
     }
@@ -123,53 +346,123 @@ export class GrammarDebugger extends EventEmitter {
     public start(startRuleIndex: number, input: string, noDebug: boolean): void {
         const stream = CharStreams.fromString(input);
         this.lexer.inputStream = stream;
+        this.tokenStream.tokenSource = this.lexer; // Resets the token stream.
 
-        if (!this.parser) {
+        if (!this.parser && noDebug) {
             this.sendEvent("end");
 
             return;
         }
 
         this.parseTree = undefined;
-        this.parser.breakPoints.clear();
+        this.parser?.breakPoints.clear();
 
         if (noDebug) {
-            void this.parser.setProfile(false).then(() => {
+            this.lexing = false;
+            void this.parser!.setProfile(false).then(() => {
                 this.parseTree = this.parser!.parse(startRuleIndex);
                 this.sendEvent("end");
             });
         } else {
+            this.hitCounts.clear();
+            this.hitLog = [];
             for (const bp of this.breakPoints) {
                 this.validateBreakPoint(bp[1]);
             }
 
-            this.parser.start(startRuleIndex);
+            this.startRuleIndex = startRuleIndex;
+            this.lexing = true;
+            this.lexedTokens = [];
+            this.lexer.tokenOrigins = new Map();
             this.continue();
         }
     }
 
-    public continue(): void {
-        if (this.parser) {
-            this.parseTree = this.parser.continue(RunMode.Normal);
+    /**
+     * Parses the entire input synchronously, without breakpoints and without sending any events.
+     * Can be called repeatedly, e.g. to keep a parse tree preview up to date. The result is available via
+     * `currentParseTree` afterwards.
+     *
+     * @param startRuleIndex The index of the rule to start parsing with.
+     * @param input The text to parse.
+     */
+    public parse(startRuleIndex: number, input: string): void {
+        this.parseTree = undefined;
+        this.lexing = false;
+        if (!this.parser) {
+            return;
         }
+
+        this.lexer.inputStream = CharStreams.fromString(input);
+        this.tokenStream.tokenSource = this.lexer; // Resets the token stream.
+        this.parser.inputStream = this.tokenStream;
+        this.parser.breakPoints.clear();
+
+        this.parseTree = this.parser.parse(startRuleIndex);
+    }
+
+    public continue(): void {
+        this.run(RunMode.Normal);
     }
 
     public stepIn(): void {
-        if (this.parser) {
-            this.parseTree = this.parser.continue(RunMode.StepIn);
-        }
+        this.run(RunMode.StepIn);
     }
 
     public stepOut(): void {
-        if (this.parser) {
-            this.parseTree = this.parser.continue(RunMode.StepOut);
-        }
+        this.run(RunMode.StepOut);
     }
 
     public stepOver(): void {
-        if (this.parser) {
-            this.parseTree = this.parser.continue(RunMode.StepOver);
+        this.run(RunMode.StepOver);
+    }
+
+    /**
+     * Goes back to the previous step position of the parser.
+     */
+    public stepBack(): void {
+        this.goTo(this.currentStep - 1);
+    }
+
+    /**
+     * Goes back to the last step position where the parser stopped because of a break point, or to the first
+     * step if there's none.
+     */
+    public reverseContinue(): void {
+        let target = 1;
+        for (const step of this.parser?.breakPointSteps ?? []) {
+            if (step < this.currentStep && step > target) {
+                target = step;
+            }
+        }
+        this.goTo(target);
+    }
+
+    /**
+     * Moves the parser to the given step position, which must have been reached before in this debug run.
+     * This is done by parsing the input again from the start, ignoring all break points, which rebuilds the
+     * parse tree and the call stack for that position.
+     *
+     * @param step The step to go to. Values outside of the recorded range are clamped to it.
+     */
+    public goTo(step: number): void {
+        if (this.lexing || !this.parser || this.recordedSteps === 0) {
+            // Going back is only supported while parsing. Stay where we are.
+            this.sendEvent("stopOnStep");
+
+            return;
+        }
+
+        step = Math.max(1, Math.min(step, this.recordedSteps));
+        for (const id of new Set(this.hitLog.map(([, hitId]) => hitId))) {
+            this.hitCounts.set(id, this.hitLog.filter(([hitStep, hitId]) => hitId === id && hitStep <= step).length);
         }
+
+        this.tokenStream.tokenSource = new ListTokenSource(this.lexedTokens);
+        this.parser.inputStream = this.tokenStream; // Also resets the error count.
+        this.parser.start(this.startRuleIndex, true);
+        this.parser.replayTarget = step;
+        this.parseTree = this.parser.continue(RunMode.Normal);
     }
 
     public stop(): void {
@@ -180,25 +473,86 @@ export class GrammarDebugger extends EventEmitter {
         // no-op
     }
 
-    public clearBreakPoints(): void {
-        this.breakPoints.clear();
+    /**
+     * Removes break points.
+     *
+     * @param source If given only the break points in this file are removed, otherwise all of them.
+     */
+    public clearBreakPoints(source?: string): void {
+        for (const [id, breakPoint] of this.breakPoints) {
+            if (source === undefined || breakPoint.source === source) {
+                this.breakPoints.delete(id);
+                this.breakPointStates.delete(breakPoint);
+                this.lexerBreakPoints.delete(breakPoint);
+            }
+        }
+
         if (this.parser) {
             this.parser.breakPoints.clear();
+            for (const states of this.breakPointStates.values()) {
+                states.forEach((state) => { this.parser!.breakPoints.add(state); });
+            }
         }
     }
 
-    public addBreakPoint(path: string, line: number): GrammarBreakPoint {
-        const breakPoint = <GrammarBreakPoint>{ source: path, validated: false, line, id: this.nextBreakPointId++ };
+    public addBreakPoint(path: string, line: number, conditions?: GrammarBreakPointConditions,
+        column?: number): GrammarBreakPoint {
+        const breakPoint = <GrammarBreakPoint>{
+            ...conditions,
+            source: path,
+            validated: false,
+            line,
+            column,
+            id: this.nextBreakPointId++,
+        };
         this.breakPoints.set(breakPoint.id, breakPoint);
         this.validateBreakPoint(breakPoint);
 
         return breakPoint;
     }
 
+    public clearTokenBreakPoints(): void {
+        this.tokenBreakPoints = [];
+    }
+
+    /**
+     * Adds a break point which stops the debugger when the lexer produced a token of the given type.
+     *
+     * @param tokenName The symbolic name of the token type (e.g. "Identifier") or its literal name (e.g. "'+'").
+     * @param conditions Additional conditions for the break point.
+     *
+     * @returns The new break point.
+     */
+    public addTokenBreakPoint(tokenName: string, conditions?: GrammarBreakPointConditions): GrammarTokenBreakPoint {
+        const breakPoint: GrammarTokenBreakPoint = {
+            ...conditions,
+            tokenName,
+            validated: false,
+            id: this.nextBreakPointId++,
+        };
+
+        breakPoint.message = GrammarDebugger.checkConditions(breakPoint);
+        if (!breakPoint.message) {
+            if (this.tokenTypeFromName(tokenName) === undefined) {
+                breakPoint.message = `Unknown token type "${tokenName}"`;
+            } else {
+                breakPoint.validated = true;
+            }
+        }
+        this.tokenBreakPoints.push(breakPoint);
+
+        return breakPoint;
+    }
+
     /**
-     * @returns the list of tokens in the test input.
+     * @returns the list of tokens in the test input. While the lexer is being debugged only the tokens produced
+     *          so far are returned.
      */
     public get tokenList(): Token[] {
+        if (this.lexing) {
+            return this.lexedTokens;
+        }
+
         this.tokenStream.fill();
 
         return this.tokenStream.getTokens();
@@ -249,6 +603,22 @@ export class GrammarDebugger extends EventEmitter {
 
     public get currentStackTrace(): GrammarStackFrame[] {
         const result: GrammarStackFrame[] = [];
+        if (this.lexing) {
+            // A single frame for the lexer rule which produced the current token.
+            const ruleName = this.lexerState?.ruleName;
+            const info = ruleName ? this.contexts[0].getSymbolInfo(ruleName) : undefined;
+            if (ruleName && info?.definition) {
+                const start = info.definition.range.start;
+                result.push({
+                    name: ruleName,
+                    source: info.source,
+                    next: [{ start, end: { column: start.column + ruleName.length, row: start.row } }],
+                });
+            }
+
+            return result;
+        }
+
         if (this.parser) {
             for (const frame of this.parser.callStack) {
                 const externalFrame = <GrammarStackFrame>{
@@ -281,8 +651,125 @@ export class GrammarDebugger extends EventEmitter {
         return result.reverse();
     }
 
+    /**
+     * @returns The predictions the parser made since the previous step position, in the order they were made.
+     *          Decisions with only one alternative are not included.
+     */
+    public get currentPredictions(): DecisionPrediction[] {
+        return this.lexing ? [] : this.parser?.predictions ?? [];
+    }
+
+    /**
+     * @returns The events recorded by the parser in the current debug run, in the order they occurred.
+     */
+    public get history(): ParseEvent[] {
+        return this.parser?.history ?? [];
+    }
+
+    /**
+     * @returns The number of step positions the parser passed so far (0 while lexing).
+     */
+    public get currentStep(): number {
+        return this.lexing ? 0 : this.parser?.currentStep ?? 0;
+    }
+
+    /**
+     * @returns The highest step position reached in the current debug run. All steps up to this one can be
+     *          visited again.
+     */
+    public get recordedSteps(): number {
+        return this.lexing ? 0 : this.parser?.furthestStep ?? 0;
+    }
+
     public get currentTokenIndex(): number {
-        return this.tokenStream.index;
+        return this.lexing ? 0 : this.tokenStream.index;
+    }
+
+    /**
+     * @returns Details about the lexer while it is being debugged, undefined if the parser runs already.
+     */
+    public get lexerState(): GrammarLexerState | undefined {
+        if (!this.lexing) {
+            return undefined;
+        }
+
+        const modeName = (mode: number) => this.lexer.modeNames[mode] ?? String(mode);
+        const input = this.lexer.inputStream;
+
+        // eslint-disable-next-line no-underscore-dangle
+        const [currentMode, modeStack] = [this.lexer._mode, this.lexer._modeStack];
+        const result: GrammarLexerState = {
+            mode: modeName(currentMode),
+            modeStack: modeStack.toArray().map(modeName),
+            line: this.lexer.line,
+            column: this.lexer.charPositionInLine,
+            candidates: [],
+        };
+
+        if (this.lexedTokens.length > 0) {
+            const token = this.lexedTokens[this.lexedTokens.length - 1] as CommonToken;
+            result.token = this.convertToken(token);
+            const origin = this.lexer.tokenOrigins?.get(token);
+            if (origin) {
+                result.ruleName = this.lexer.ruleNames[origin.ruleIndex];
+            }
+        }
+
+        // All rules in the current mode, which can start with the next input character.
+        const next = input.LA(1);
+        if (next !== IntStream.EOF) {
+            const atn = this.lexer.atn;
+            const modeStart = atn.modeToStartState[currentMode];
+            for (let i = 0; i < modeStart.numberOfTransitions; ++i) {
+                const ruleStart = modeStart.transition(i).target;
+                if (atn.nextTokens(ruleStart).contains(next)) {
+                    result.candidates.push(this.lexer.ruleNames[ruleStart.ruleIndex]);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Collects the values which can be used in break point conditions and log messages.
+     *
+     * @returns An object with the current parser state.
+     */
+    public get evaluationScope(): { [key: string]: string | number } {
+        if (this.lexing) {
+            const state = this.lexerState!;
+
+            return {
+                tokenText: state.token?.text ?? "",
+                tokenType: state.token?.type ?? Token.INVALID_TYPE,
+                tokenName: state.token?.name ?? "",
+                tokenIndex: state.token?.tokenIndex ?? -1,
+                line: state.token?.line ?? 0,
+                column: state.token?.offset ?? 0,
+                ruleName: state.ruleName ?? "",
+                ruleDepth: 0,
+                mode: state.mode,
+            };
+        }
+
+        if (!this.parser?.context) {
+            return {};
+        }
+
+        const token = this.parser.inputStream.LT(1) as CommonToken;
+        const context = this.parser.context;
+
+        return {
+            tokenText: token.text ?? "",
+            tokenType: token.type,
+            tokenName: this.tokenTypeName(token),
+            tokenIndex: token.tokenIndex,
+            line: token.line,
+            column: token.charPositionInLine,
+            ruleName: this.parser.ruleNames[context.ruleIndex],
+            ruleDepth: context.depth(),
+        };
     }
 
     /**
@@ -346,6 +833,184 @@ export class GrammarDebugger extends EventEmitter {
         return this.lexer.vocabulary.getSymbolicName(token.type) || "T__" + token.type;
     }
 
+    /**
+     * Continues execution in the given mode. While lexing, the lexer produces one token at a time until a break
+     * point triggers or a step ends. After the last token the parser takes over (if there's one).
+     *
+     * @param runMode How to continue.
+     */
+    private run(runMode: RunMode): void {
+        if (this.lexing) {
+            if (!this.lexNext(runMode)) {
+                return;
+            }
+
+            // Lexing finished. Continue parsing in a way that matches the requested action.
+            this.lexing = false;
+            this.lexer.tokenOrigins = undefined;
+            if (!this.parser) {
+                this.sendEvent("end");
+
+                return;
+            }
+
+            this.tokenStream.tokenSource = new ListTokenSource(this.lexedTokens);
+            this.parser.inputStream = this.tokenStream;
+            this.parser.start(this.startRuleIndex);
+            if (runMode !== RunMode.Normal) {
+                runMode = RunMode.StepIn;
+            }
+        }
+
+        if (this.parser) {
+            this.parseTree = this.parser.continue(runMode);
+        }
+    }
+
+    /**
+     * Lets the lexer produce tokens until a token break point or a lexer rule break point triggers, or (when
+     * stepping) until the next token was produced.
+     *
+     * @param runMode How to continue. Step out runs until all input was consumed.
+     *
+     * @returns True if the end of the input was reached, false if the debugger stopped.
+     */
+    private lexNext(runMode: RunMode): boolean {
+        while (true) {
+            const token = this.lexer.nextToken();
+            if (token instanceof CommonToken) {
+                token.tokenIndex = this.lexedTokens.length;
+            }
+            this.lexedTokens.push(token);
+
+            if (token.type === Token.EOF) {
+                return true;
+            }
+
+            if (this.checkLexerBreakPoints(token)) {
+                this.sendEvent("stopOnBreakpoint");
+
+                return false;
+            }
+
+            if (runMode === RunMode.StepIn || runMode === RunMode.StepOver) {
+                this.sendEvent("stopOnStep");
+
+                return false;
+            }
+        }
+    }
+
+    /**
+     * Determines if the debugger must stop after the lexer produced the given token.
+     *
+     * @param token The new token.
+     *
+     * @returns True if at least one lexer rule break point or token break point triggered.
+     */
+    private checkLexerBreakPoints(token: Token): boolean {
+        let result = false;
+        const origin = this.lexer.tokenOrigins?.get(token);
+        if (origin) {
+            for (const [breakPoint, ruleIndex] of this.lexerBreakPoints) {
+                if (ruleIndex === origin.ruleIndex && this.checkBreakPoint(breakPoint)) {
+                    result = true;
+                }
+            }
+        }
+
+        for (const breakPoint of this.tokenBreakPoints) {
+            if (breakPoint.validated && this.tokenTypeFromName(breakPoint.tokenName) === token.type
+                && this.checkBreakPoint(breakPoint)) {
+                result = true;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * @param name The symbolic name of a token type or its literal name (including the quotes).
+     *
+     * @returns The token type for the given name or undefined if there's no such type.
+     */
+    private tokenTypeFromName(name: string): number | undefined {
+        if (name === "EOF") {
+            return Token.EOF;
+        }
+
+        const vocabulary = this.lexer.vocabulary;
+        for (let type = 0; type <= vocabulary.maxTokenType; ++type) {
+            if (vocabulary.getSymbolicName(type) === name || vocabulary.getLiteralName(type) === name) {
+                return type;
+            }
+        }
+    }
+
+    /**
+     * Called by the parser interpreter when it reaches a state with a break point, to determine if it should stop.
+     * This evaluates the conditions of all break points at that state, updates hit counts and prints log points.
+     *
+     * @param state The state the interpreter reached.
+     *
+     * @returns True if at least one of the break points at this state triggered.
+     */
+    private checkBreakPoints(state: ATNState): boolean {
+        // A break point on a rule start is checked before the parser reaches the step position at which it stops.
+        const step = this.parser!.currentStep + (state.stateType === ATNStateType.RULE_START ? 1 : 0);
+
+        let result = false;
+        for (const [breakPoint, breakPointStates] of this.breakPointStates) {
+            if (breakPointStates.includes(state) && this.checkBreakPoint(breakPoint, step)) {
+                result = true;
+            }
+        }
+
+        return result;
+    }
+
+    private checkBreakPoint(breakPoint: GrammarBreakPoint | GrammarTokenBreakPoint, step?: number): boolean {
+        const scope = this.evaluationScope;
+        const [source, line] = "source" in breakPoint ? [breakPoint.source, breakPoint.line] : [undefined, 0];
+        if (breakPoint.condition) {
+            try {
+                if (!vm.runInNewContext(breakPoint.condition, scope, { timeout: 1000 })) {
+                    return false;
+                }
+            } catch (e) {
+                // Stop in this case, to let the user see the problem.
+                this.sendEvent("output", `Error while evaluating break point condition "${breakPoint.condition}": ` +
+                    String(e), source, line, 0, true);
+
+                return true;
+            }
+        }
+
+        const hits = (this.hitCounts.get(breakPoint.id) ?? 0) + 1;
+        this.hitCounts.set(breakPoint.id, hits);
+        if (step !== undefined && !this.hitLog.some(([hitStep, id]) => hitStep === step && id === breakPoint.id)) {
+            this.hitLog.push([step, breakPoint.id]);
+        }
+        if (breakPoint.hitCondition && !GrammarDebugger.hitConditionMatches(breakPoint.hitCondition, hits)) {
+            return false;
+        }
+
+        if (breakPoint.logMessage !== undefined) {
+            const message = breakPoint.logMessage.replace(/{([^}]+)}/g, (_, expression: string) => {
+                try {
+                    return String(vm.runInNewContext(expression, scope, { timeout: 1000 }));
+                } catch (e) {
+                    return `<${String(e)}>`;
+                }
+            });
+            this.sendEvent("output", message, source, line, 0, false);
+
+            return false;
+        }
+
+        return true;
+    }
+
     private sendEvent(event: string, ...args: any[]) {
         setImmediate((_) => {
             this.emit(event, ...args);
@@ -453,38 +1118,212 @@ export class GrammarDebugger extends EventEmitter {
 
     /**
      * Validates a breakpoint's position.
-     * Breakpoints are aligned either to the first or the last rule line, hence the debugger
-     * can only break on enter or on exit of the rule.
+     * Breakpoints in parser rules are aligned either to the first or the last rule line, hence the debugger
+     * can only break on enter or on exit of the rule, or to the elements on a line. Breakpoints in lexer rules
+     * stop after the rule produced a token.
      *
      * @param breakPoint The breakpoint to validate.
      */
     private validateBreakPoint(breakPoint: GrammarBreakPoint) {
         const context = this.contexts.find((entry) => entry.fileName === breakPoint.source);
-        if (!context || !this.parserData) {
+        if (!context) {
             return;
         }
 
-        // Assuming here a rule always starts in column 0.
-        const rule = context.enclosingSymbolAtPosition(0, breakPoint.line, true);
-        if (rule) {
+        breakPoint.message = GrammarDebugger.checkConditions(breakPoint);
+        if (breakPoint.message) {
+            this.sendEvent("breakpointValidated", breakPoint);
+
+            return;
+        }
+
+        const rule = context.enclosingSymbolAtPosition(breakPoint.column ?? 0, breakPoint.line, true);
+        if (rule?.kind === SymbolKind.LexerRule || rule?.kind === SymbolKind.FragmentLexerToken) {
+            this.validateLexerBreakPoint(breakPoint, rule.name, rule.kind === SymbolKind.FragmentLexerToken);
+            this.sendEvent("breakpointValidated", breakPoint);
+        } else if (rule && this.parserData) {
             breakPoint.validated = true;
 
             // Main and sub grammars are combined in the ATN (and interpreter data), which means
             // the rule index must be looked up in the main context, regardless of the source file.
             const index = this.ruleIndexFromName(rule.name);
-            if (breakPoint.line === rule.definition!.range.end.row) {
+
+            // A break point on the first or last line of a rule stands for the rule enter or exit, unless a specific
+            // element was selected. Other lines are mapped to the elements on them.
+            let states: ATNState[] = [];
+            const { start, end } = rule.definition!.range;
+            if (breakPoint.column !== undefined || (breakPoint.line !== start.row && breakPoint.line !== end.row)) {
+                const ruleContext = context.resolveSymbol(rule.name)?.context;
+                if (ruleContext instanceof ParserRuleSpecContext) {
+                    states = this.elementStatesAtPosition(ruleContext, index, breakPoint);
+                }
+            }
+
+            if (states.length > 0) {
+                states.forEach((state) => { this.parser!.breakPoints.add(state); });
+                this.breakPointStates.set(breakPoint, states);
+            } else if (breakPoint.line === end.row) {
                 // If the breakpoint's line is on the rule's end (the semicolon) then
                 // use the rule's end state for break.
                 const stop = this.parserData.atn.ruleToStopState[index];
                 this.parser!.breakPoints.add(stop);
+                this.breakPointStates.set(breakPoint, [stop]);
+                breakPoint.column = undefined;
             } else {
-                const start = this.parserData.atn.ruleToStartState[index];
-                this.parser!.breakPoints.add(start);
-                breakPoint.line = rule.definition!.range.start.row;
+                const ruleStart = this.parserData.atn.ruleToStartState[index];
+                this.parser!.breakPoints.add(ruleStart);
+                this.breakPointStates.set(breakPoint, [ruleStart]);
+                breakPoint.line = start.row;
+                breakPoint.column = undefined;
             }
             this.sendEvent("breakpointValidated", breakPoint);
         }
     }
-}
 
+    private validateLexerBreakPoint(breakPoint: GrammarBreakPoint, ruleName: string, isFragment: boolean) {
+        breakPoint.column = undefined;
+        if (isFragment) {
+            breakPoint.message = "Fragment rules do not produce tokens. Set the break point in a rule using " +
+                "this fragment instead.";
+
+            return;
+        }
+
+        const index = this.lexer?.ruleNames.indexOf(ruleName) ?? -1;
+        if (index < 0) {
+            breakPoint.message = `The lexer rule "${ruleName}" is not part of the debugged lexer.`;
 
+            return;
+        }
+
+        breakPoint.validated = true;
+        this.lexerBreakPoints.set(breakPoint, index);
+    }
+
+    /**
+     * Determines the ATN states for the grammar elements a break point refers to. With a column given that is
+     * the element at this position. Otherwise it is the first element on the break point's line and the first
+     * element of each alternative starting on that line (e.g. for lines like "| a b | c").
+     *
+     * @param ruleContext The parse tree of the rule containing the break point.
+     * @param ruleIndex The index of that rule in the ATN.
+     * @param breakPoint The break point to resolve. Its column is updated to the position of the element found.
+     *
+     * @returns The list of states at which the interpreter has to stop. Empty if there's no element.
+     */
+    private elementStatesAtPosition(ruleContext: ParserRuleSpecContext, ruleIndex: number,
+        breakPoint: GrammarBreakPoint): ATNState[] {
+        const atoms = Trees.findAllRuleNodes(ruleContext, ANTLRv4Parser.RULE_atom) as AtomContext[];
+        let candidates = atoms.filter((atom) => atom.start.line === breakPoint.line);
+        if (breakPoint.column !== undefined) {
+            const column = breakPoint.column;
+            const atom = candidates.find((candidate) => column < candidate.start.charPositionInLine +
+                candidate.text.length);
+            candidates = atom ? [atom] : [];
+        } else {
+            candidates = candidates.filter((atom, index) => index === 0 ||
+                GrammarDebugger.startsAlternative(atom, atoms));
+        }
+
+        if (candidates.length === 0) {
+            return [];
+        }
+
+        const states = this.mapElementStates(ruleIndex, atoms);
+        const result: ATNState[] = [];
+        for (const candidate of candidates) {
+            const state = states.get(candidate);
+            if (state && !result.includes(state)) {
+                result.push(state);
+            }
+        }
+
+        if (result.length > 0 && breakPoint.column !== undefined) {
+            breakPoint.column = candidates[0].start.charPositionInLine;
+        }
+
+        return result;
+    }
+
+    /**
+     * Assigns the ATN states of a rule to the atoms (token and rule references) in the rule's parse tree.
+     * ATN states are numbered in the order their elements appear in the grammar, which we use to align both lists.
+     * However, ANTLR4 rewrites left recursive rules and merges alternatives consisting of single tokens into sets,
+     * so the alignment also considers atoms not in order and lets a set state stand for all atoms it contains.
+     *
+     * @param ruleIndex The index of the rule in the ATN.
+     * @param atoms The atoms of the rule, in grammar order.
+     *
+     * @returns A mapping from each atom to the state with the transition that matches it.
+     */
+    private mapElementStates(ruleIndex: number, atoms: AtomContext[]): Map<AtomContext, ATNState> {
+        const result = new Map<AtomContext, ATNState>();
+
+        let next = 0;
+        for (const state of this.parserData!.atn.states) {
+            if (state.ruleIndex !== ruleIndex || state.numberOfTransitions !== 1) {
+                continue;
+            }
+
+            const transition = state.transition(0);
+            const matches = (atom: AtomContext): boolean => !result.has(atom) &&
+                this.atomMatchesTransition(atom, transition);
+
+            const first = next;
+            let index = atoms.findIndex((atom, i) => i >= first && matches(atom));
+            if (index < 0) {
+                index = atoms.findIndex(matches);
+                if (index < 0) {
+                    continue;
+                }
+            }
+
+            const block = GrammarDebugger.enclosingBlock(atoms[index]);
+            do {
+                result.set(atoms[index++], state);
+            } while (transition.serializationType === TransitionType.SET && index < atoms.length
+                && matches(atoms[index]) && GrammarDebugger.enclosingBlock(atoms[index]) === block);
+            next = index;
+        }
+
+        return result;
+    }
+
+    private atomMatchesTransition(atom: AtomContext, transition: Transition): boolean {
+        switch (transition.serializationType) {
+            case TransitionType.RULE: {
+                const ruleref = atom.ruleref();
+
+                return ruleref !== undefined
+                    && this.ruleIndexFromName(ruleref.RULE_REF().text) === transition.target.ruleIndex;
+            }
+
+            case TransitionType.ATOM:
+            case TransitionType.RANGE:
+            case TransitionType.SET: {
+                const terminal = atom.terminalRule();
+                if (!terminal) {
+                    return false;
+                }
+
+                const name = (terminal.TOKEN_REF() ?? terminal.STRING_LITERAL())!.text;
+                const type = name === "EOF" ? Token.EOF : this.parser!.tokenIndexFromName(name);
+
+                return type !== -1 && transition.matches(type, Token.MIN_USER_TOKEN_TYPE,
+                    this.parser!.vocabulary.maxTokenType);
+            }
+
+            case TransitionType.NOT_SET: {
+                return atom.notSet() !== undefined;
+            }
+
+            case TransitionType.WILDCARD: {
+                return atom.DOT() !== undefined;
+            }
+
+            default: {
+                return false;
+            }
+        }
+    }
+}
@@ -15,7 +15,12 @@ import {
     ANTLRErrorListener, Recognizer, Token, Lexer, RuleContext, CharStream,
 } from "antlr4ts";
 
-import { RuleStartState, ATNState, ATNStateType, TransitionType, Transition } from "antlr4ts/atn";
+import {
+    RuleStartState, ATNState, ATNStateType, TransitionType, Transition, ATN, DecisionState, LexerATNSimulator,
+    RuleStopState, ParserATNSimulator, SimulatorState, PredictionContextCache, ATNConfigSet,
+} from "antlr4ts/atn";
+import { DFA, DFAState } from "antlr4ts/dfa";
+import { BitSet } from "antlr4ts/misc";
 import { TerminalNode } from "antlr4ts/tree";
 import { Symbol, VariableSymbol, ScopedSymbol, BlockSymbol } from "antlr4-c3";
 
@@ -26,6 +31,7 @@ import {
 import { SourceContext } from "./SourceContext";
 import { LexerElementContext, ElementContext } from "../parser/ANTLRv4Parser";
 import { PredicateFunction } from "./facade";
+import { GrammarCoverage } from "./GrammarCoverage";
 
 export enum RunMode {
     Normal,
@@ -41,7 +47,227 @@ export interface InternalStackFrame {
     next: Symbol[];
 }
 
+export enum ParseEventType {
+    EnterRule,
+    ExitRule,
+    Consume,
+    Decision,
+    Error,
+}
+
+/**
+ * An event recorded by the parser interpreter while debugging.
+ */
+export interface ParseEvent {
+    type: ParseEventType;
+    step: number;         // The number of step positions passed before the event occurred.
+    ruleName: string;     // The rule which was active when the event occurred.
+    depth: number;        // The size of the rule invocation stack at that time.
+    text?: string;        // The text of a consumed token or an error message.
+    decision?: number;    // For decisions: the decision number and the predicted alternative.
+    alternative?: number;
+}
+
+/**
+ * One lookahead token examined during a prediction.
+ */
+export interface PredictionStep {
+    tokenIndex: number;
+    text: string;
+    alternatives: number[]; // The alternatives still viable after this token.
+    fullContext: boolean;   // True if this token was examined by the full context (LL) prediction.
+}
+
+/**
+ * Describes how the parser interpreter predicted the alternative to take at a decision state.
+ */
+export interface DecisionPrediction {
+    decision: number;
+    ruleName: string;
+    alternativeCount: number;          // The number of alternatives in the decision.
+    steps: PredictionStep[];           // The lookahead tokens in the order they were examined.
+    conflictingAlternatives?: number[]; // Set if SLL prediction ran into a conflict between these alternatives.
+    fullContext: boolean;              // True if prediction had to fall back to full context (LL) prediction.
+    ambiguousAlternatives?: number[];  // Set if full context prediction found an ambiguity.
+    prediction: number;
+}
+
+/**
+ * Describes where a token came from.
+ */
+export interface TokenOrigin {
+    ruleIndex: number; // The lexer rule which matched the token.
+    mode: number;      // The mode the lexer was in when the rule matched.
+}
+
+/**
+ * A lexer simulator which reports each matched token type (before lexer commands are applied) for coverage
+ * and to find the lexer rule which produced a token.
+ */
+class RecordingLexerATNSimulator extends LexerATNSimulator {
+    public constructor(atn: ATN, private lexer: GrammarLexerInterpreter) {
+        super(atn, lexer);
+    }
+
+    public match(input: CharStream, mode: number): number {
+        const type = super.match(input, mode);
+        this.lexer.coverage?.recordToken(type);
+
+        // Lexer commands can change the token type, so the rule is taken from the accepting configuration.
+        const configs = this.prevAccept.dfaState?.configs;
+        if (configs) {
+            for (const config of configs) {
+                if (config.state instanceof RuleStopState) {
+                    this.lexer.lastMatch = { ruleIndex: config.state.ruleIndex, mode };
+                    break;
+                }
+            }
+        }
+
+        return type;
+    }
+}
+
+const bitSetToArray = (set: BitSet | undefined): number[] => (set ? [...set] : []);
+
+/**
+ * A parser simulator which records the details of each prediction, to explain why the parser took an alternative.
+ */
+class PredictionRecordingATNSimulator extends ParserATNSimulator {
+    public prediction?: DecisionPrediction;
+
+    private input?: TokenStream;
+    private fullContext = false;
+
+    public adaptivePredict(input: TokenStream, decision: number, outerContext: ParserRuleContext | undefined,
+        useContext?: boolean): number {
+        if (useContext !== undefined) {
+            return super.adaptivePredict(input, decision, outerContext, useContext);
+        }
+
+        this.prediction = {
+            decision,
+            ruleName: "",
+            alternativeCount: this.atn.decisionToState[decision].numberOfTransitions,
+            steps: [],
+            fullContext: false,
+            prediction: 0,
+        };
+
+        this.input = input;
+        try {
+            this.prediction.prediction = super.adaptivePredict(input, decision, outerContext);
+        } finally {
+            this.input = undefined;
+        }
+
+        // Decisions resolved by the LL(1) table don't go through the DFA.
+        if (this.prediction.steps.length === 0) {
+            this.prediction.steps.push({
+                tokenIndex: input.index,
+                text: input.LT(1).text ?? "",
+                alternatives: [this.prediction.prediction],
+                fullContext: false,
+            });
+        }
+
+        return this.prediction.prediction;
+    }
+
+    protected getStartState(dfa: DFA, input: TokenStream, outerContext: ParserRuleContext,
+        useContext: boolean): SimulatorState | undefined {
+        this.fullContext = useContext;
+
+        return super.getStartState(dfa, input, outerContext, useContext);
+    }
+
+    protected computeStartState(dfa: DFA, globalContext: ParserRuleContext, useContext: boolean): SimulatorState {
+        this.fullContext = useContext;
+
+        return super.computeStartState(dfa, globalContext, useContext);
+    }
+
+    protected computeReachSet(dfa: DFA, previous: SimulatorState, t: number,
+        contextCache: PredictionContextCache): SimulatorState | undefined {
+        const reach = super.computeReachSet(dfa, previous, t, contextCache);
+        this.recordStep(reach ? reach.s0 : undefined, previous.useContext);
+
+        return reach;
+    }
+
+    protected getExistingTargetState(previousD: DFAState, t: number): DFAState | undefined {
+        const target = super.getExistingTargetState(previousD, t);
+        if (target) {
+            this.recordStep(target, this.fullContext);
+        }
+
+        return target;
+    }
+
+    protected computeTargetState(dfa: DFA, s: DFAState, remainingGlobalContext: ParserRuleContext, t: number,
+        useContext: boolean, contextCache: PredictionContextCache): [DFAState, ParserRuleContext | undefined] {
+        const result = super.computeTargetState(dfa, s, remainingGlobalContext, t, useContext, contextCache);
+        this.recordStep(result[0], useContext);
+
+        return result;
+    }
+
+    protected reportAttemptingFullContext(dfa: DFA, conflictingAlts: BitSet | undefined,
+        conflictState: SimulatorState, startIndex: number, stopIndex: number): void {
+        super.reportAttemptingFullContext(dfa, conflictingAlts, conflictState, startIndex, stopIndex);
+        if (this.prediction) {
+            this.prediction.fullContext = true;
+            this.prediction.conflictingAlternatives = conflictingAlts
+                ? bitSetToArray(conflictingAlts)
+                : bitSetToArray(conflictState.s0.configs.getRepresentedAlternatives());
+        }
+    }
+
+    protected reportAmbiguity(dfa: DFA, D: DFAState, startIndex: number, stopIndex: number, exact: boolean,
+        ambigAlts: BitSet, configs: ATNConfigSet): void {
+        super.reportAmbiguity(dfa, D, startIndex, stopIndex, exact, ambigAlts, configs);
+        if (this.prediction) {
+            this.prediction.ambiguousAlternatives = bitSetToArray(ambigAlts);
+        }
+    }
+
+    /**
+     * Adds the alternatives viable after the current lookahead token to the prediction. The same token can be
+     * reported more than once (e.g. when a DFA edge is computed), in which case the last report wins.
+     *
+     * @param state The state reached by the current token. Undefined or without configurations if no alternative
+     *              can match the token.
+     * @param fullContext Set when this is part of the full context prediction.
+     */
+    private recordStep(state: DFAState | undefined, fullContext: boolean): void {
+        if (!this.prediction || !this.input) {
+            return;
+        }
+
+        const step: PredictionStep = {
+            tokenIndex: this.input.index,
+            text: this.input.get(this.input.index).text ?? "",
+            alternatives: state ? bitSetToArray(state.configs.getRepresentedAlternatives()) : [],
+            fullContext,
+        };
+
+        const steps = this.prediction.steps;
+        const last = steps[steps.length - 1];
+        if (last && last.tokenIndex === step.tokenIndex && last.fullContext === fullContext) {
+            steps[steps.length - 1] = step;
+        } else {
+            steps.push(step);
+        }
+    }
+}
+
 export class GrammarLexerInterpreter extends LexerInterpreter {
+    public coverage?: GrammarCoverage;
+
+    // If set, receives the origin of each emitted token.
+    public tokenOrigins?: Map<Token, TokenOrigin>;
+    public lastMatch?: TokenOrigin;
+
     private predicates: ActionSymbol[];
 
     public constructor(
@@ -56,6 +282,7 @@ export class GrammarLexerInterpreter extends LexerInterpreter {
 
         this.predicates = this.mainContext.symbolTable.getNestedSymbolsOfType(ActionSymbol)
             .filter(((action) => action.isPredicate && action.context!.parent instanceof LexerElementContext));
+        this.interpreter = new RecordingLexerATNSimulator(lexerData.atn, this);
     }
 
     public sempred(_localctx: RuleContext | undefined, ruleIndex: number, predIndex: number): boolean {
@@ -76,12 +303,45 @@ export class GrammarLexerInterpreter extends LexerInterpreter {
 
         return true;
     }
+
+    public emit(token?: Token): Token {
+        const result = token ? super.emit(token) : super.emit();
+        if (this.lastMatch && result.type !== Token.EOF) {
+            this.tokenOrigins?.set(result, this.lastMatch);
+        }
+
+        return result;
+    }
 }
 
 export class GrammarParserInterpreter extends ParserInterpreter {
     public breakPoints = new Set<ATNState>();
+
+    // If set, decides if the interpreter actually stops at a break point state (e.g. for conditional break points).
+    public breakPointFilter?: (state: ATNState) => boolean;
     public callStack: InternalStackFrame[];
     public pauseRequested = false;
+    public coverage?: GrammarCoverage;
+
+    // Step positions are all places where the interpreter can stop (what a single step in advances).
+    // They are counted to allow going back to an earlier position, by parsing again from the start.
+    public history: ParseEvent[] = [];
+    public currentStep = 0;
+    public furthestStep = 0;
+
+    // The step numbers at which the interpreter stopped because of a break point.
+    public breakPointSteps = new Set<number>();
+
+    // If set, the interpreter ignores all break points and stops when it reaches this step.
+    public replayTarget?: number;
+
+    // The predictions made between the previous and the current step position, and a listener which is called
+    // for each new prediction.
+    public predictions: DecisionPrediction[] = [];
+    public predictionListener?: (prediction: DecisionPrediction) => void;
+
+    private recording = false;
+    private pendingPredictions: DecisionPrediction[] = [];
 
     private startIsPrecedenceRule: boolean;
     private predicates: ActionSymbol[];
@@ -99,9 +359,28 @@ export class GrammarParserInterpreter extends ParserInterpreter {
             .filter(((action) => action.isPredicate && action.context!.parent instanceof ElementContext));
     }
 
-    public start(startRuleIndex: number): void {
+    /**
+     * Prepares parsing with the given start rule.
+     *
+     * @param startRuleIndex The rule to start with.
+     * @param replay If true, the recorded history of a previous run is kept, because the same input is parsed again.
+     */
+    public start(startRuleIndex: number, replay = false): void {
         this.pauseRequested = false;
         this.callStack = [];
+        this.currentStep = 0;
+        this.recording = true;
+        this.predictions = [];
+        this.pendingPredictions = [];
+        if (!(this.interpreter instanceof PredictionRecordingATNSimulator)) {
+            this.interpreter = new PredictionRecordingATNSimulator(this.atn, this);
+        }
+        if (!replay) {
+            this.history = [];
+            this.furthestStep = 0;
+            this.breakPointSteps.clear();
+        }
+
         const startRuleStartState: RuleStartState = this.atn.ruleToStartState[startRuleIndex];
         this._rootContext = this.createInterpreterRuleContext(undefined, ATNState.INVALID_STATE_NUMBER, startRuleIndex);
         if (startRuleStartState.isPrecedenceRule) {
@@ -130,7 +409,8 @@ export class GrammarParserInterpreter extends ParserInterpreter {
             runMode = RunMode.StepIn;
         }
 
-        // We don't stop directly on the break point state but on the next rule/non-epsilon transition.
+        // We don't stop directly on a rule start break point state but on the next rule/non-epsilon transition.
+        // Break points on elements (states with a non-epsilon transition) stop right before the element is matched.
         let breakPointPending = false;
         while (true) {
             if (this.pauseRequested) {
@@ -138,7 +418,7 @@ export class GrammarParserInterpreter extends ParserInterpreter {
                 runMode = RunMode.StepIn; // Stop at next possible position.
             }
 
-            if (this.breakPoints.has(p) && p.stateType !== ATNStateType.RULE_STOP) {
+            if (p.stateType === ATNStateType.RULE_START && this.isBreakPoint(p)) {
                 // Don't mark a pending rule end break point here. That has already been handled.
                 breakPointPending = true;
                 runMode = RunMode.StepIn;
@@ -146,8 +426,10 @@ export class GrammarParserInterpreter extends ParserInterpreter {
 
             switch (p.stateType) {
                 case ATNStateType.RULE_STOP: {
+                    this.recordEvent(ParseEventType.ExitRule);
                     if (this._ctx.isEmpty) {
                         // End of start rule.
+                        this.replayTarget = undefined;
                         if (this.startIsPrecedenceRule) {
                             const result: ParserRuleContext = this._ctx;
                             const parentContext = this._parentContextStack.pop()!;
@@ -188,6 +470,7 @@ export class GrammarParserInterpreter extends ParserInterpreter {
                                 next: [ruleSymbol],
                                 source: st.owner ? st.owner.fileName : undefined,
                             });
+                            this.recordEvent(ParseEventType.EnterRule);
                         } else {
                             throw new Error("Cannot find rule \"" + ruleName + "\" - debugging aborted.");
                         }
@@ -225,12 +508,10 @@ export class GrammarParserInterpreter extends ParserInterpreter {
                         const lastStackFrame = this.callStack[this.callStack.length - 1];
                         lastStackFrame.current = lastStackFrame.next;
                         this.computeNextSymbols(lastStackFrame, transition);
-                        if (runMode === RunMode.StepIn) {
-                            if (breakPointPending) {
-                                this.eventSink("stopOnBreakpoint");
-                            } else {
-                                this.eventSink("stopOnStep");
-                            }
+                        this.nextStep();
+                        const isBreakPoint = this.isBreakPoint(p);
+                        if (runMode === RunMode.StepIn || isBreakPoint || this.replayTargetReached()) {
+                            this.stop(breakPointPending || isBreakPoint);
 
                             return this.rootContext;
                         }
@@ -239,16 +520,13 @@ export class GrammarParserInterpreter extends ParserInterpreter {
 
                     case TransitionType.EPSILON: { // Stop on the rule's semicolon.
                         if (transition.target.stateType === ATNStateType.RULE_STOP) {
-                            const isBreakPoint = this.breakPoints.has(transition.target);
-                            if (runMode === RunMode.StepIn || isBreakPoint) {
+                            this.nextStep();
+                            const isBreakPoint = this.isBreakPoint(transition.target);
+                            if (runMode === RunMode.StepIn || isBreakPoint || this.replayTargetReached()) {
                                 const lastStackFrame = this.callStack[this.callStack.length - 1];
                                 lastStackFrame.current = lastStackFrame.next;
                                 this.computeNextSymbols(lastStackFrame, transition);
-                                if (isBreakPoint) {
-                                    this.eventSink("stopOnBreakpoint");
-                                } else {
-                                    this.eventSink("stopOnStep");
-                                }
+                                this.stop(isBreakPoint);
 
                                 return this.rootContext;
                             }
@@ -263,6 +541,35 @@ export class GrammarParserInterpreter extends ParserInterpreter {
         }
     }
 
+    public enterRule(localctx: ParserRuleContext, state: number, ruleIndex: number): void {
+        super.enterRule(localctx, state, ruleIndex);
+        this.coverage?.recordRule(ruleIndex);
+    }
+
+    public enterRecursionRule(localctx: ParserRuleContext, state: number, ruleIndex: number,
+        precedence: number): void {
+        super.enterRecursionRule(localctx, state, ruleIndex, precedence);
+        this.coverage?.recordRule(ruleIndex);
+    }
+
+    public parse(startRuleIndex: number): ParserRuleContext {
+        this.recording = false; // Only debug runs record events.
+
+        return super.parse(startRuleIndex);
+    }
+
+    public consume(): Token {
+        const token = super.consume();
+        this.recordEvent(ParseEventType.Consume, { text: token.text });
+
+        return token;
+    }
+
+    public notifyErrorListeners(msg: string, offendingToken?: Token | null, e?: RecognitionException): void {
+        super.notifyErrorListeners(msg, offendingToken ?? null, e);
+        this.recordEvent(ParseEventType.Error, { text: msg });
+    }
+
     public sempred(_localctx: RuleContext | undefined, ruleIndex: number, predIndex: number): boolean {
         if (this.runPredicate) {
             if (predIndex < this.predicates.length) {
@@ -286,6 +593,109 @@ export class GrammarParserInterpreter extends ParserInterpreter {
         // not used yet
     }
 
+    public tokenIndexFromName(tokenName: string): number {
+        const vocab = this.vocabulary;
+        for (let i = 0; i <= vocab.maxTokenType; ++i) {
+            if (vocab.getSymbolicName(i) === tokenName) {
+                return i;
+            }
+        }
+
+        // Implicit literals don't have a symbolic name.
+        // Therefor we do another search run here for the literal "name".
+        for (let i = 0; i <= vocab.maxTokenType; ++i) {
+            if (vocab.getLiteralName(i) === tokenName) {
+                return i;
+            }
+        }
+
+        return -1;
+    }
+
+    protected visitDecisionState(p: DecisionState): number {
+        const simulator = this.interpreter instanceof PredictionRecordingATNSimulator ? this.interpreter : undefined;
+        if (simulator) {
+            simulator.prediction = undefined;
+        }
+
+        const alternative = super.visitDecisionState(p);
+        this.coverage?.recordDecision(p.decision, alternative);
+        this.recordEvent(ParseEventType.Decision, { decision: p.decision, alternative });
+
+        // Only decisions with more than one alternative need a prediction.
+        const prediction = simulator?.prediction;
+        if (prediction && this.recording) {
+            prediction.ruleName = this.ruleNames[p.ruleIndex];
+            this.pendingPredictions.push(prediction);
+            this.predictionListener?.(prediction);
+        }
+
+        return alternative;
+    }
+
+    /**
+     * Determines if the interpreter must stop at the given state.
+     *
+     * @param state The state to check.
+     *
+     * @returns True if there's a break point at this state, which is not suppressed by the break point filter.
+     */
+    private isBreakPoint(state: ATNState): boolean {
+        if (this.replayTarget !== undefined || !this.breakPoints.has(state)) {
+            return false;
+        }
+
+        return this.breakPointFilter ? this.breakPointFilter(state) : true;
+    }
+
+    private nextStep(): void {
+        this.predictions = this.pendingPredictions;
+        this.pendingPredictions = [];
+        ++this.currentStep;
+        this.furthestStep = Math.max(this.furthestStep, this.currentStep);
+    }
+
+    private replayTargetReached(): boolean {
+        if (this.replayTarget === undefined || this.currentStep < this.replayTarget) {
+            return false;
+        }
+        this.replayTarget = undefined;
+
+        return true;
+    }
+
+    private stop(atBreakPoint: boolean): void {
+        // When returning to a step where the debugger stopped before because of a break point, report it as such.
+        if (atBreakPoint || this.breakPointSteps.has(this.currentStep)) {
+            this.breakPointSteps.add(this.currentStep);
+            this.eventSink("stopOnBreakpoint");
+        } else {
+            this.eventSink("stopOnStep");
+        }
+    }
+
+    /**
+     * Adds an event to the history, unless this part of the parse run was already recorded before (when
+     * parsing again after going back to an earlier step).
+     *
+     * @param type The type of the event.
+     * @param details Additional values for the event.
+     */
+    private recordEvent(type: ParseEventType, details?: Partial<ParseEvent>): void {
+        if (!this.recording || this.currentStep < this.furthestStep) {
+            return;
+        }
+
+        const frame = this.callStack[this.callStack.length - 1];
+        this.history.push({
+            type,
+            step: this.currentStep,
+            ruleName: frame?.name ?? "",
+            depth: this.callStack.length,
+            ...details,
+        });
+    }
+
     private ruleNameFromIndex(ruleIndex: number): string | undefined {
         if (ruleIndex < 0 || ruleIndex >= this.ruleNames.length) {
             return;
@@ -482,25 +892,6 @@ export class GrammarParserInterpreter extends ParserInterpreter {
         return result;
     }
 
-    private tokenIndexFromName(tokenName: string): number {
-        const vocab = this.vocabulary;
-        for (let i = 0; i <= vocab.maxTokenType; ++i) {
-            if (vocab.getSymbolicName(i) === tokenName) {
-                return i;
-            }
-        }
-
-        // Implicit literals don't have a symbolic name.
-        // Therefor we do another search run here for the literal "name".
-        for (let i = 0; i <= vocab.maxTokenType; ++i) {
-            if (vocab.getLiteralName(i) === tokenName) {
-                return i;
-            }
-        }
-
-        return -1;
-    }
-
 }
 
 export class InterpreterLexerErrorListener implements ANTLRErrorListener<number> {
@@ -510,7 +901,7 @@ export class InterpreterLexerErrorListener implements ANTLRErrorListener<number>
     public syntaxError<T extends number>(recognizer: Recognizer<T, any>, offendingSymbol: T | undefined, line: number,
         charPositionInLine: number, msg: string, e: RecognitionException | undefined): void {
         this.eventSink("output", `Lexer error (${line}, ${charPositionInLine + 1}): ${msg}`,
-            recognizer.inputStream!.sourceName, line, charPositionInLine, true);
+            recognizer.inputStream!.sourceName, line, charPositionInLine, true, msg);
     }
 }
 
@@ -521,6 +912,6 @@ export class InterpreterParserErrorListener implements ANTLRErrorListener<Common
     public syntaxError<T extends Token>(recognizer: Recognizer<T, any>, offendingSymbol: T | undefined, line: number,
         charPositionInLine: number, msg: string, e: RecognitionException | undefined): void {
         this.eventSink("output", `Parser error (${line}, ${charPositionInLine + 1}): ${msg}`,
-            recognizer.inputStream!.sourceName, line, charPositionInLine, true);
+            recognizer.inputStream!.sourceName, line, charPositionInLine, true, msg);
     }
 }
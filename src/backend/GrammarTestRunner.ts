@@ -0,0 +1,279 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { Token } from "antlr4ts";
+
+import { SourceContext } from "./SourceContext";
+import {
+    DiagnosticEntry, DiagnosticType, GrammarTestExpectation, GrammarTestOptions, GrammarTestResult, ParseTestError,
+    ParseTestOutput,
+} from "./facade";
+
+/**
+ * Runs test input files through the grammar interpreters and compares the produced tokens and parse tree with
+ * golden files, which live next to each input file (with the extensions ".tokens" and ".tree").
+ * Additionally, an expectation file (extension ".expect") can declare the syntax errors an input must produce
+ * and the token sequence it must be lexed into.
+ */
+export class GrammarTestRunner {
+    public static readonly treeExtension = ".tree";
+    public static readonly tokensExtension = ".tokens";
+    public static readonly expectationExtension = ".expect";
+
+    /**
+     * Collects all test input files in the given folder (not recursively). Golden files, expectation files and
+     * hidden files are skipped.
+     *
+     * @param folder The folder to search.
+     *
+     * @returns A sorted list of full paths.
+     */
+    public static findInputs(folder: string): string[] {
+        if (!fs.existsSync(folder)) {
+            return [];
+        }
+
+        return fs.readdirSync(folder, { withFileTypes: true })
+            .filter((entry) => {
+                if (!entry.isFile() || entry.name.startsWith(".")) {
+                    return false;
+                }
+
+                const extension = path.extname(entry.name);
+
+                return extension !== GrammarTestRunner.treeExtension && extension !== GrammarTestRunner.tokensExtension
+                    && extension !== GrammarTestRunner.expectationExtension;
+            })
+            .map((entry) => path.join(folder, entry.name))
+            .sort();
+    }
+
+    /**
+     * Determines the name of a golden file for a test input.
+     *
+     * @param inputFile The test input file.
+     * @param extension The extension of the golden file.
+     *
+     * @returns The full path of the golden file.
+     */
+    public static goldenFileName(inputFile: string, extension: string): string {
+        const parsed = path.parse(inputFile);
+
+        return path.join(parsed.dir, parsed.name + extension);
+    }
+
+    /**
+     * Runs all inputs in the given folder.
+     *
+     * @param context The grammar to use. Its interpreter data must be loaded.
+     * @param dependencies The contexts the grammar depends on (e.g. the lexer grammar).
+     * @param folder The folder with the test input files.
+     * @param options Details for the test run.
+     *
+     * @returns A result for each input.
+     */
+    public static runTests(context: SourceContext, dependencies: Set<SourceContext>, folder: string,
+        options: GrammarTestOptions): GrammarTestResult[] {
+        return GrammarTestRunner.findInputs(folder).map((input) => GrammarTestRunner.runTest(context, dependencies,
+            input, options));
+    }
+
+    /**
+     * Runs a single input file and either compares the output with the golden files or writes new golden files.
+     *
+     * @param context The grammar to use. Its interpreter data must be loaded.
+     * @param dependencies The contexts the grammar depends on (e.g. the lexer grammar).
+     * @param inputFile The test input file.
+     * @param options Details for the test run.
+     *
+     * @returns The test result.
+     */
+    public static runTest(context: SourceContext, dependencies: Set<SourceContext>, inputFile: string,
+        options: GrammarTestOptions): GrammarTestResult {
+        const input = fs.readFileSync(inputFile, { encoding: "utf8" });
+        const output = context.runTestInput(input, options.startRule, options.actionFile, dependencies,
+            options.coverage);
+
+        const result: GrammarTestResult = {
+            inputFile,
+            passed: true,
+            output,
+            messages: [],
+            diagnostics: [],
+            updated: false,
+        };
+
+        let expectation: GrammarTestExpectation | undefined;
+        const expectationFile = GrammarTestRunner.goldenFileName(inputFile, GrammarTestRunner.expectationExtension);
+        if (fs.existsSync(expectationFile)) {
+            try {
+                expectation = JSON.parse(fs.readFileSync(expectationFile, { encoding: "utf8" })) as
+                    GrammarTestExpectation;
+            } catch (reason) {
+                result.messages.push(`Cannot parse ${path.basename(expectationFile)}: ${(reason as Error).message}`);
+            }
+        }
+
+        const tokensFile = GrammarTestRunner.goldenFileName(inputFile, GrammarTestRunner.tokensExtension);
+        const treeFile = GrammarTestRunner.goldenFileName(inputFile, GrammarTestRunner.treeExtension);
+        const actualTokens = output.tokens.join("\n") + "\n";
+        const actualTree = output.tree + "\n";
+
+        if (options.updateGoldens) {
+            fs.writeFileSync(tokensFile, actualTokens, { encoding: "utf8" });
+            fs.writeFileSync(treeFile, actualTree, { encoding: "utf8" });
+            result.expectedTokens = actualTokens;
+            result.expectedTree = actualTree;
+            result.updated = true;
+        } else {
+            if (fs.existsSync(tokensFile)) {
+                result.expectedTokens = fs.readFileSync(tokensFile, { encoding: "utf8" });
+                if (GrammarTestRunner.normalize(result.expectedTokens) !== GrammarTestRunner.normalize(actualTokens)) {
+                    result.messages.push(`The token list differs from ${path.basename(tokensFile)}`);
+                }
+            }
+
+            if (fs.existsSync(treeFile)) {
+                result.expectedTree = fs.readFileSync(treeFile, { encoding: "utf8" });
+                if (GrammarTestRunner.normalize(result.expectedTree) !== GrammarTestRunner.normalize(actualTree)) {
+                    result.messages.push(`The parse tree differs from ${path.basename(treeFile)}`);
+                }
+            }
+
+            if (result.expectedTokens === undefined && result.expectedTree === undefined
+                && !fs.existsSync(expectationFile)) {
+                result.messages.push(`No golden file found for ${path.basename(inputFile)}`);
+            }
+        }
+
+        // Problems not related to the input (like a missing start rule) come after the syntax errors.
+        output.errors.slice(output.syntaxErrors.length).forEach((error) => result.messages.push(error));
+
+        GrammarTestRunner.checkErrors(output, expectation, result);
+        if (expectation?.tokens) {
+            GrammarTestRunner.checkTokens(output, expectation.tokens, result);
+        }
+        result.passed = result.messages.length === 0;
+
+        return result;
+    }
+
+    /**
+     * Removes differences which should not fail a test (line terminators and trailing whitespace).
+     *
+     * @param text The text to normalize.
+     *
+     * @returns The normalized text.
+     */
+    public static normalize(text: string): string {
+        return text.replace(/\r\n/g, "\n").replace(/[ \t]+$/gm, "").replace(/\n+$/, "");
+    }
+
+    /**
+     * Matches the syntax errors of a test run against the expected errors. Without expectations every error
+     * is a problem.
+     *
+     * @param output The output of the test run.
+     * @param expectation The content of the expectation file, if there's one.
+     * @param result The result to add problems to.
+     */
+    private static checkErrors(output: ParseTestOutput, expectation: GrammarTestExpectation | undefined,
+        result: GrammarTestResult): void {
+        const unmatched = output.syntaxErrors.map((error, index) => ({ error, text: output.errors[index] }));
+
+        for (const expected of expectation?.errors ?? []) {
+            let pattern: RegExp | undefined;
+            try {
+                pattern = expected.message ? new RegExp(expected.message) : undefined;
+            } catch (reason) {
+                result.messages.push(`Invalid error pattern "${expected.message!}": ${(reason as Error).message}`);
+
+                continue;
+            }
+
+            const matches = (error: ParseTestError): boolean => (expected.line === undefined
+                || expected.line === error.line)
+                && (expected.column === undefined || expected.column === error.column + 1)
+                && (!pattern || pattern.test(error.message));
+
+            const index = unmatched.findIndex((entry) => matches(entry.error));
+
+            if (index >= 0) {
+                unmatched.splice(index, 1);
+            } else {
+                let position = "";
+                if (expected.line !== undefined) {
+                    position = expected.column === undefined
+                        ? ` in line ${expected.line}`
+                        : ` at ${expected.line}:${expected.column}`;
+                }
+                const message = `Expected error${position}${expected.message ? ` matching "${expected.message}"` : ""}`
+                    + " was not reported";
+                result.messages.push(message);
+                result.diagnostics.push(GrammarTestRunner.createDiagnostic(message, expected.line ?? 1,
+                    (expected.column ?? 1) - 1));
+            }
+        }
+
+        for (const { error, text } of unmatched) {
+            result.messages.push(text);
+            result.diagnostics.push(GrammarTestRunner.createDiagnostic(text, error.line, error.column));
+        }
+    }
+
+    /**
+     * Compares the names of the produced tokens on the default channel (except EOF) with the expected token sequence.
+     *
+     * @param output The output of the test run.
+     * @param expected The expected token names.
+     * @param result The result to add a problem to.
+     */
+    private static checkTokens(output: ParseTestOutput, expected: string[], result: GrammarTestResult): void {
+        const tokens = output.tokenDetails.filter((token) => token.channel === Token.DEFAULT_CHANNEL
+            && token.type !== Token.EOF);
+        const end = output.tokenDetails[output.tokenDetails.length - 1];
+
+        for (let i = 0; i < Math.max(tokens.length, expected.length); ++i) {
+            const token = i < tokens.length ? tokens[i] : undefined;
+            if (token?.name === expected[i]) {
+                continue;
+            }
+
+            let message;
+            if (!token) {
+                message = `Expected token ${expected[i]} at index ${i}, but the input ends here`;
+            } else if (i >= expected.length) {
+                message = `Unexpected token ${token.name} at index ${i}, no more tokens are expected`;
+            } else {
+                message = `Expected token ${expected[i]} at index ${i}, but found ${token.name}`;
+            }
+
+            result.messages.push(message);
+
+            const position = token ?? end;
+            result.diagnostics.push(GrammarTestRunner.createDiagnostic(message, position?.line ?? 1,
+                position?.offset ?? 0, token ? Math.max(token.text.length, 1) : 1));
+
+            // Only the first difference is reported. Everything after it is usually a consequence.
+            break;
+        }
+    }
+
+    private static createDiagnostic(message: string, line: number, column: number, length = 1): DiagnosticEntry {
+        return {
+            type: DiagnosticType.Error,
+            message,
+            range: {
+                start: { row: line, column },
+                end: { row: line, column: column + length },
+            },
+        };
+    }
+}
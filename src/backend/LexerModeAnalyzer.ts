@@ -0,0 +1,152 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import { GrammarSpecContext, LexerRuleSpecContext } from "../parser/ANTLRv4Parser";
+import { GrammarAnalyzer } from "./GrammarAnalyzer";
+import { LexerModeGraph, LexerModeInfo, ModeTransition, ModeTransitionKind } from "./facade";
+
+/**
+ * Determines how the lexer switches between its modes, using the lexer commands (pushMode, popMode and mode)
+ * of all lexer rules in a grammar.
+ */
+export class LexerModeAnalyzer {
+    public static readonly defaultMode = "DEFAULT_MODE";
+
+    public constructor(private tree: GrammarSpecContext) { }
+
+    /**
+     * Collects all modes and mode transitions and marks problematic modes.
+     *
+     * @returns The mode graph of the grammar.
+     */
+    public createGraph(): LexerModeGraph {
+        const graph: LexerModeGraph = { modes: [], transitions: [] };
+
+        const modes = new Map<string, LexerModeInfo>();
+        modes.set(LexerModeAnalyzer.defaultMode, {
+            name: LexerModeAnalyzer.defaultMode,
+            reachable: true,
+            pushedWithoutPop: false,
+        });
+
+        // Rules before the first mode declaration belong to the default mode.
+        const rulesPerMode: Array<[string, LexerRuleSpecContext[]]> = [];
+        const defaultRules = this.tree.rules().ruleSpec().map((spec) => spec.lexerRuleSpec())
+            .filter((rule): rule is LexerRuleSpecContext => rule !== undefined);
+        rulesPerMode.push([LexerModeAnalyzer.defaultMode, defaultRules]);
+
+        for (const modeSpec of this.tree.modeSpec()) {
+            const name = modeSpec.identifier().text;
+            if (!modes.has(name)) {
+                modes.set(name, {
+                    name,
+                    range: GrammarAnalyzer.rangeFromContext(modeSpec.identifier()),
+                    reachable: false,
+                    pushedWithoutPop: false,
+                });
+            }
+            rulesPerMode.push([name, modeSpec.lexerRuleSpec()]);
+        }
+
+        for (const [mode, rules] of rulesPerMode) {
+            for (const rule of rules) {
+                if (rule.FRAGMENT()) {
+                    continue;
+                }
+
+                for (const alternative of rule.lexerRuleBlock().lexerAltList().lexerAlt()) {
+                    for (const command of alternative.lexerCommands()?.lexerCommand() ?? []) {
+                        const transition: ModeTransition = {
+                            kind: ModeTransitionKind.Pop,
+                            source: mode,
+                            rule: rule.TOKEN_REF().text,
+                            range: GrammarAnalyzer.rangeFromContext(command),
+                        };
+
+                        const target = command.lexerCommandExpr()?.text;
+                        switch (command.lexerCommandName().text) {
+                            case "pushMode": {
+                                transition.kind = ModeTransitionKind.Push;
+                                transition.target = target;
+                                break;
+                            }
+
+                            case "mode": {
+                                transition.kind = ModeTransitionKind.Switch;
+                                transition.target = target;
+                                break;
+                            }
+
+                            case "popMode": {
+                                break;
+                            }
+
+                            default: {
+                                continue;
+                            }
+                        }
+
+                        // Unknown modes are already reported by the semantic checks.
+                        if (transition.kind === ModeTransitionKind.Pop || modes.has(transition.target ?? "")) {
+                            graph.transitions.push(transition);
+                        }
+                    }
+                }
+            }
+        }
+
+        // All modes which can be entered, starting in the default mode. A pop always returns to a mode
+        // which was entered before.
+        const pipeline = [LexerModeAnalyzer.defaultMode];
+        while (pipeline.length > 0) {
+            const current = pipeline.shift()!;
+            for (const transition of graph.transitions) {
+                if (transition.source === current && transition.target) {
+                    const target = modes.get(transition.target)!;
+                    if (!target.reachable) {
+                        target.reachable = true;
+                        pipeline.push(target.name);
+                    }
+                }
+            }
+        }
+
+        // A pushed mode must eventually pop, either directly or in one of the modes it switches to
+        // (which keeps the mode stack unchanged).
+        const pushed = new Set(graph.transitions.filter((transition) => transition.kind === ModeTransitionKind.Push)
+            .map((transition) => transition.target!));
+        for (const name of pushed) {
+            const visited = new Set<string>([name]);
+            const candidates = [name];
+            let pops = false;
+            while (candidates.length > 0 && !pops) {
+                const current = candidates.shift()!;
+                for (const transition of graph.transitions) {
+                    if (transition.source !== current) {
+                        continue;
+                    }
+
+                    if (transition.kind === ModeTransitionKind.Pop) {
+                        pops = true;
+                        break;
+                    }
+
+                    if (transition.kind === ModeTransitionKind.Switch && !visited.has(transition.target!)) {
+                        visited.add(transition.target!);
+                        candidates.push(transition.target!);
+                    }
+                }
+            }
+
+            modes.get(name)!.pushedWithoutPop = !pops;
+        }
+
+        graph.modes.push(...modes.values());
+
+        return graph;
+    }
+}
@@ -0,0 +1,546 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { ParserRuleContext, Token } from "antlr4ts";
+import { Interval } from "antlr4ts/misc";
+import { TerminalNode } from "antlr4ts/tree";
+
+import {
+    GrammarSpecContext, LexerRuleSpecContext, ParserRuleSpecContext, TerminalRuleContext,
+} from "../parser/ANTLRv4Parser";
+import { FragmentTokenSymbol, RuleSymbol, TokenSymbol } from "./ContextSymbolTable";
+import { GrammarEdit, LexicalRange, QuickFix } from "./facade";
+import { GrammarType, SourceContext } from "./SourceContext";
+
+/**
+ * Determines fixes for problems found in a grammar (e.g. unknown rule references), as well as small, local
+ * improvements (like removing a rule which is not used anywhere).
+ */
+export class QuickFixProvider {
+    /**
+     * @param context The context of the grammar to fix.
+     * @param dependencies All source contexts the grammar depends on.
+     * @param searchPaths The folders in which to look for grammars to import.
+     */
+    public constructor(private context: SourceContext, private dependencies: Set<SourceContext>,
+        private searchPaths: string[]) { }
+
+    /**
+     * Determines if two ranges overlap or touch each other.
+     *
+     * @param lhs The first range.
+     * @param rhs The second range.
+     *
+     * @returns True if there's at least one position, which is in both ranges.
+     */
+    public static intersects(lhs: LexicalRange, rhs: LexicalRange): boolean {
+        const before = (first: { column: number; row: number }, second: { column: number; row: number }) =>
+            first.row < second.row || (first.row === second.row && first.column <= second.column);
+
+        return before(lhs.start, rhs.end) && before(rhs.start, lhs.end);
+    }
+
+    /**
+     * Creates an empty range directly after the given token, for insertions.
+     *
+     * @param token The token after which to insert text.
+     *
+     * @returns The insertion range.
+     */
+    public static positionAfter(token: Token): LexicalRange {
+        const column = token.charPositionInLine + token.stopIndex - token.startIndex + 1;
+
+        return {
+            start: { column, row: token.line },
+            end: { column, row: token.line },
+        };
+    }
+
+    /**
+     * @param token The token to get the range for.
+     *
+     * @returns The range covered by the token.
+     */
+    public static rangeOf(token: Token): LexicalRange {
+        return {
+            start: { column: token.charPositionInLine, row: token.line },
+            end: { column: token.charPositionInLine + token.stopIndex - token.startIndex + 1, row: token.line },
+        };
+    }
+
+    /**
+     * Determines the top level rule which contains the given position.
+     *
+     * @param tree The grammar to search.
+     * @param range The range whose start position is used.
+     *
+     * @returns The rule context, if found.
+     */
+    public static ruleAt(tree: GrammarSpecContext, range: LexicalRange): ParserRuleContext | undefined {
+        const rules: ParserRuleContext[] = QuickFixProvider.allRules(tree);
+
+        return rules.find((rule) => {
+            const start = rule.start;
+            const stop = rule.stop ?? start;
+
+            return QuickFixProvider.intersects({
+                start: { column: start.charPositionInLine, row: start.line },
+                end: QuickFixProvider.positionAfter(stop).end,
+            }, { start: range.start, end: range.start });
+        });
+    }
+
+    /**
+     * @param tree The grammar to search.
+     *
+     * @returns All rules of the grammar, including those in lexer modes.
+     */
+    public static allRules(tree: GrammarSpecContext): Array<ParserRuleSpecContext | LexerRuleSpecContext> {
+        const result: Array<ParserRuleSpecContext | LexerRuleSpecContext> = [];
+        for (const spec of tree.rules().ruleSpec()) {
+            result.push(spec.parserRuleSpec() ?? spec.lexerRuleSpec()!);
+        }
+
+        for (const mode of tree.modeSpec()) {
+            result.push(...mode.lexerRuleSpec());
+        }
+
+        return result;
+    }
+
+    /**
+     * Determines the position after which new lexer rules are added to a grammar: after the last lexer rule in the
+     * default mode or after the last rule, if there's no lexer rule yet.
+     *
+     * @param tree The grammar to add a lexer rule to.
+     *
+     * @returns The token after which to add new text.
+     */
+    public static lexerRuleInsertionPoint(tree: GrammarSpecContext): Token {
+        const rules = tree.rules().ruleSpec();
+        const lexerRules = rules.filter((rule) => rule.lexerRuleSpec() !== undefined);
+        if (lexerRules.length > 0) {
+            return lexerRules[lexerRules.length - 1].stop!;
+        }
+
+        if (rules.length > 0) {
+            return rules[rules.length - 1].stop!;
+        }
+
+        return tree.SEMI().symbol;
+    }
+
+    /**
+     * Extends the range of the given rule to full lines, if there's nothing else on them (except a trailing comment).
+     * Also one of the empty lines around the rule is included.
+     *
+     * @param rule The rule to get the range for.
+     *
+     * @returns The range to remove.
+     */
+    public static wholeLinesRange(rule: ParserRuleContext): LexicalRange {
+        const start = rule.start;
+        const stop = rule.stop ?? start;
+        const lines = start.inputStream!.getText(Interval.of(0, start.inputStream!.size - 1)).split(/\r?\n/);
+
+        const result = {
+            start: { column: start.charPositionInLine, row: start.line },
+            end: QuickFixProvider.positionAfter(stop).end,
+        };
+
+        if (lines[start.line - 1].substring(0, start.charPositionInLine).trim().length > 0) {
+            return result;
+        }
+
+        const rest = lines[stop.line - 1].substring(result.end.column).trim();
+        if (rest.length > 0 && !rest.startsWith("//")) {
+            return result;
+        }
+
+        result.start.column = 0;
+        if (stop.line === lines.length) {
+            result.end.column = lines[stop.line - 1].length;
+        } else {
+            result.end = { column: 0, row: stop.line + 1 };
+
+            const previousEmpty = start.line > 1 && lines[start.line - 2].trim().length === 0;
+            const nextEmpty = stop.line < lines.length && lines[stop.line].trim().length === 0;
+            if (previousEmpty && nextEmpty && stop.line + 1 < lines.length) {
+                result.end.row = stop.line + 2;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Collects all lexer rules in the given grammars, which match exactly one string literal.
+     *
+     * @param contexts The grammars to search.
+     *
+     * @returns A mapping from the literal (including quotes) to the token name.
+     */
+    public static literalTokens(contexts: SourceContext[]): Map<string, string> {
+        const result = new Map<string, string>();
+
+        for (const context of contexts) {
+            const tree = context.grammarTree;
+            if (!tree) {
+                continue;
+            }
+
+            for (const rule of QuickFixProvider.allRules(tree)) {
+                if (!(rule instanceof LexerRuleSpecContext) || rule.FRAGMENT()) {
+                    continue;
+                }
+
+                const alternatives = rule.lexerRuleBlock().lexerAltList().lexerAlt();
+                const elements = alternatives.length === 1 && !alternatives[0].lexerCommands()
+                    ? alternatives[0].lexerElements()?.lexerElement() ?? []
+                    : [];
+                if (elements.length === 1 && !elements[0].ebnfSuffix()) {
+                    const literal = elements[0].lexerAtom()?.terminalRule()?.STRING_LITERAL();
+                    if (literal && !result.has(literal.text)) {
+                        result.set(literal.text, rule.TOKEN_REF().text);
+                    }
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Computes all fixes which apply to the given range in the grammar.
+     *
+     * @param range The range for which to find fixes (usually the caret position or the selection).
+     *
+     * @returns A list of fixes, which can be empty.
+     */
+    public getQuickFixes(range: LexicalRange): QuickFix[] {
+        const result: QuickFix[] = [];
+        const tree = this.context.grammarTree;
+        if (!tree) {
+            return result;
+        }
+
+        for (const diagnostic of this.context.getDiagnostics(this.dependencies)) {
+            if (!QuickFixProvider.intersects(diagnostic.range, range)) {
+                continue;
+            }
+
+            const matches = /^Unknown (parser rule|token reference) '(.+)'$/.exec(diagnostic.message);
+            if (matches) {
+                const fixes: QuickFix[] = [];
+                if (matches[1] === "parser rule") {
+                    this.addCreateParserRuleFix(tree, matches[2], diagnostic.range, fixes);
+                } else {
+                    this.addCreateLexerRuleFix(tree, matches[2], diagnostic.range, fixes);
+                }
+                this.addDependencyFixes(tree, matches[2], matches[1] === "parser rule", fixes);
+
+                fixes.forEach((fix) => { fix.diagnostic = diagnostic; });
+                result.push(...fixes);
+            }
+        }
+
+        this.addReplaceLiteralFixes(tree, range, result);
+        this.addRemoveRuleFixes(tree, range, result);
+
+        return result;
+    }
+
+    private addCreateParserRuleFix(tree: GrammarSpecContext, name: string, range: LexicalRange,
+        fixes: QuickFix[]): void {
+        const rule = QuickFixProvider.ruleAt(tree, range);
+        const anchor = rule?.stop ?? tree.stop!;
+
+        fixes.push({
+            title: `Create parser rule '${name}'`,
+            isPreferred: true,
+            edits: [{
+                fileName: this.context.fileName,
+                range: QuickFixProvider.positionAfter(anchor),
+                text: `\n\n${name}: ;`,
+            }],
+        });
+    }
+
+    private addCreateLexerRuleFix(tree: GrammarSpecContext, name: string, range: LexicalRange,
+        fixes: QuickFix[]): void {
+        let fileName = this.context.fileName;
+        let anchor: Token | undefined;
+
+        switch (this.context.info.type) {
+            case GrammarType.Parser: {
+                // New tokens go to the lexer grammar, from which we get our token vocabulary.
+                for (const dependency of this.dependencies) {
+                    const dependencyTree = dependency.grammarTree;
+                    if (dependency.info.type === GrammarType.Lexer && dependencyTree) {
+                        fileName = dependency.fileName;
+                        anchor = QuickFixProvider.lexerRuleInsertionPoint(dependencyTree);
+                        break;
+                    }
+                }
+                break;
+            }
+
+            case GrammarType.Lexer: {
+                // Keep the new rule in the same mode as the reference.
+                anchor = QuickFixProvider.ruleAt(tree, range)?.stop;
+                break;
+            }
+
+            default: {
+                anchor = QuickFixProvider.lexerRuleInsertionPoint(tree);
+                break;
+            }
+        }
+
+        if (!anchor) {
+            return;
+        }
+
+        const title = fileName === this.context.fileName
+            ? `Create lexer rule '${name}'`
+            : `Create lexer rule '${name}' in ${path.basename(fileName)}`;
+        fixes.push({
+            title,
+            isPreferred: true,
+            edits: [{
+                fileName,
+                range: QuickFixProvider.positionAfter(anchor),
+                text: `\n\n${name}: '${name.toLowerCase()}';`,
+            }],
+        });
+    }
+
+    /**
+     * Looks for grammars, which define the given symbol and which could be used by the grammar to fix
+     * (either as import or as token vocabulary).
+     *
+     * @param tree The grammar to fix.
+     * @param name The name of the missing symbol.
+     * @param isParserRule True if the symbol is a parser rule, otherwise a lexer token.
+     * @param fixes Receives the found fixes.
+     */
+    private addDependencyFixes(tree: GrammarSpecContext, name: string, isParserRule: boolean,
+        fixes: QuickFix[]): void {
+        const ownType = this.context.info.type;
+        const usesTokenVocab = !isParserRule && ownType === GrammarType.Parser;
+        if (usesTokenVocab && this.hasTokenVocab(tree)) {
+            return;
+        }
+
+        // The kind of grammar we can take the symbol from.
+        const sourceType = isParserRule ? GrammarType.Parser : GrammarType.Lexer;
+        if ((isParserRule && ownType === GrammarType.Lexer) || ownType === GrammarType.Unknown) {
+            return;
+        }
+
+        for (const [grammarName, fileName] of this.findGrammarsDefining(name, sourceType)) {
+            if (usesTokenVocab) {
+                fixes.push({
+                    title: `Use the token vocabulary from '${grammarName}'`,
+                    edits: [this.createTokenVocabEdit(tree, grammarName)],
+                });
+            } else {
+                fixes.push({
+                    title: `Import grammar '${grammarName}' (${path.basename(fileName)})`,
+                    edits: [this.createImportEdit(tree, grammarName)],
+                });
+            }
+        }
+    }
+
+    private hasTokenVocab(tree: GrammarSpecContext): boolean {
+        return tree.prequelConstruct().some((prequel) => prequel.optionsSpec()?.option()
+            .some((option) => option.identifier().text === "tokenVocab"));
+    }
+
+    /**
+     * Parses all grammars in the search paths, which are not used yet by the grammar to fix, to find those which
+     * define the given symbol.
+     *
+     * @param name The symbol to search.
+     * @param type The grammar type which must define the symbol.
+     *
+     * @returns Pairs of grammar name and file name.
+     */
+    private findGrammarsDefining(name: string, type: GrammarType): Array<[string, string]> {
+        const result: Array<[string, string]> = [];
+
+        const excluded = new Set([path.resolve(this.context.fileName)]);
+        this.dependencies.forEach((dependency) => excluded.add(path.resolve(dependency.fileName)));
+
+        const seen = new Set<string>();
+        for (const searchPath of this.searchPaths) {
+            let entries: string[] = [];
+            try {
+                entries = fs.readdirSync(searchPath);
+            } catch (e) {
+                continue; // Ignore non-existing folders.
+            }
+
+            for (const entry of entries) {
+                const fileName = path.resolve(searchPath, entry);
+                if (!entry.endsWith(".g4") || excluded.has(fileName) || seen.has(fileName)) {
+                    continue;
+                }
+                seen.add(fileName);
+
+                const candidate = new SourceContext(fileName);
+                candidate.setText(fs.readFileSync(fileName, "utf8"));
+                candidate.parse();
+                if (candidate.info.type !== type) {
+                    continue;
+                }
+
+                const symbol = candidate.resolveSymbol(name);
+                if (symbol instanceof RuleSymbol || symbol instanceof TokenSymbol) {
+                    result.push([path.basename(entry, ".g4"), fileName]);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    private createImportEdit(tree: GrammarSpecContext, grammarName: string): GrammarEdit {
+        for (const prequel of tree.prequelConstruct()) {
+            const delegates = prequel.delegateGrammars();
+            if (delegates) {
+                const semicolon = delegates.SEMI().symbol;
+
+                return {
+                    fileName: this.context.fileName,
+                    range: {
+                        start: { column: semicolon.charPositionInLine, row: semicolon.line },
+                        end: { column: semicolon.charPositionInLine, row: semicolon.line },
+                    },
+                    text: `, ${grammarName}`,
+                };
+            }
+        }
+
+        return {
+            fileName: this.context.fileName,
+            range: QuickFixProvider.positionAfter(tree.SEMI().symbol),
+            text: `\nimport ${grammarName};`,
+        };
+    }
+
+    private createTokenVocabEdit(tree: GrammarSpecContext, grammarName: string): GrammarEdit {
+        for (const prequel of tree.prequelConstruct()) {
+            const options = prequel.optionsSpec();
+            if (options) {
+                const semicolons = options.SEMI();
+                const anchor = semicolons.length > 0 ? semicolons[semicolons.length - 1] : options.LBRACE();
+
+                return {
+                    fileName: this.context.fileName,
+                    range: QuickFixProvider.positionAfter(anchor.symbol),
+                    text: ` tokenVocab = ${grammarName};`,
+                };
+            }
+        }
+
+        return {
+            fileName: this.context.fileName,
+            range: QuickFixProvider.positionAfter(tree.SEMI().symbol),
+            text: `\noptions { tokenVocab = ${grammarName}; }`,
+        };
+    }
+
+    /**
+     * Offers to replace a string literal in a parser rule by the name of a lexer token, which consists only of that
+     * literal.
+     *
+     * @param tree The grammar to fix.
+     * @param range The range in which to look for literals.
+     * @param fixes Receives the found fixes.
+     */
+    private addReplaceLiteralFixes(tree: GrammarSpecContext, range: LexicalRange, fixes: QuickFix[]): void {
+        const rule = QuickFixProvider.ruleAt(tree, range);
+        if (!(rule instanceof ParserRuleSpecContext)) {
+            return;
+        }
+
+        const literals: TerminalNode[] = [];
+        const collect = (context: ParserRuleContext) => {
+            for (let i = 0; i < context.childCount; ++i) {
+                const child = context.getChild(i);
+                if (child instanceof TerminalRuleContext) {
+                    const literal = child.STRING_LITERAL();
+                    if (literal && QuickFixProvider.intersects(QuickFixProvider.rangeOf(literal.symbol), range)) {
+                        literals.push(literal);
+                    }
+                } else if (child instanceof ParserRuleContext) {
+                    collect(child);
+                }
+            }
+        };
+        collect(rule);
+
+        if (literals.length === 0) {
+            return;
+        }
+
+        const tokens = QuickFixProvider.literalTokens([this.context, ...this.dependencies]);
+        for (const literal of literals) {
+            const token = tokens.get(literal.text);
+            if (token) {
+                fixes.push({
+                    title: `Replace ${literal.text} with token ${token}`,
+                    edits: [{
+                        fileName: this.context.fileName,
+                        range: QuickFixProvider.rangeOf(literal.symbol),
+                        text: token,
+                    }],
+                });
+            }
+        }
+    }
+
+    /**
+     * Offers to remove a parser rule or lexer fragment, which is not used anywhere.
+     *
+     * @param tree The grammar to fix.
+     * @param range The range in which to look for a rule name.
+     * @param fixes Receives the found fixes.
+     */
+    private addRemoveRuleFixes(tree: GrammarSpecContext, range: LexicalRange, fixes: QuickFix[]): void {
+        const unreferenced = new Set(this.context.info.unreferencedRules);
+
+        for (const rule of QuickFixProvider.allRules(tree)) {
+            const name = rule instanceof ParserRuleSpecContext ? rule.RULE_REF() : rule.TOKEN_REF();
+            if (!unreferenced.has(name.text) || !QuickFixProvider.intersects(QuickFixProvider.rangeOf(name.symbol),
+                range)) {
+                continue;
+            }
+
+            // Lexer tokens are used by the generated code, even if no other rule refers to them.
+            const symbol = this.context.resolveSymbol(name.text);
+            if (!(symbol instanceof RuleSymbol || symbol instanceof FragmentTokenSymbol)
+                || this.context.getReferenceCount(name.text) > 0) {
+                continue;
+            }
+
+            fixes.push({
+                title: `Remove unreferenced rule '${name.text}'`,
+                edits: [{
+                    fileName: this.context.fileName,
+                    range: QuickFixProvider.wholeLinesRange(rule),
+                    text: "",
+                }],
+            });
+        }
+    }
+}
@@ -0,0 +1,884 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import { ParserRuleContext } from "antlr4ts";
+import { ParseTree, TerminalNode } from "antlr4ts/tree";
+
+import {
+    ActionBlockContext, AlternativeContext, AltListContext, ArgActionBlockContext,
+    ANTLRv4Parser, ElementContext, GrammarSpecContext, LabeledAltContext, LabeledElementContext,
+    LabeledLexerElementContext, LexerAltContext, LexerCommandExprContext, LexerElementContext, LexerRuleSpecContext,
+    ParserRuleSpecContext, RuleAltListContext, RulerefContext, SetElementContext, TerminalRuleContext,
+} from "../parser/ANTLRv4Parser";
+import { GrammarEdit, LexicalRange, Refactoring, RefactoringKind } from "./facade";
+import { QuickFixProvider } from "./QuickFixProvider";
+import { RuleReferenceSymbol, RuleSymbol } from "./ContextSymbolTable";
+import { GrammarType, SourceContext } from "./SourceContext";
+
+/**
+ * A top level alternative of a rule, while eliminating left recursion.
+ */
+interface LeftRecursionAlternative {
+    elements: string[];
+    head?: string; // The name of the rule referenced by the first element.
+    label?: string;
+}
+
+/**
+ * Names for characters, which are often used in string literals of a grammar. They are used to create token names.
+ */
+const characterNames = new Map<string, string>([
+    ["(", "LPAREN"], [")", "RPAREN"], ["{", "LBRACE"], ["}", "RBRACE"], ["[", "LBRACK"], ["]", "RBRACK"],
+    [";", "SEMI"], [",", "COMMA"], [".", "DOT"], [":", "COLON"], ["=", "EQUAL"], ["+", "PLUS"], ["-", "MINUS"],
+    ["*", "STAR"], ["/", "SLASH"], ["<", "LT"], [">", "GT"], ["!", "NOT"], ["?", "QUESTION"], ["|", "OR"],
+    ["&", "AND"], ["%", "PERCENT"], ["^", "CARET"], ["~", "TILDE"], ["@", "AT"], ["#", "POUND"], ["$", "DOLLAR"],
+]);
+
+/**
+ * Implements structural changes of a grammar, which keep the language it describes unchanged (extract and inline
+ * rules, introduce tokens for literals and convert lexer rules to fragments).
+ */
+export class RefactoringProvider {
+    /**
+     * @param context The context of the grammar to change.
+     * @param dependencies All source contexts the grammar depends on.
+     */
+    public constructor(private context: SourceContext, private dependencies: Set<SourceContext>) { }
+
+    private static comparePositions(lhs: { column: number; row: number },
+        rhs: { column: number; row: number }): number {
+        if (lhs.row !== rhs.row) {
+            return lhs.row - rhs.row;
+        }
+
+        return lhs.column - rhs.column;
+    }
+
+    /**
+     * @param outer The range which must contain the other range.
+     * @param inner The range to check.
+     *
+     * @returns True if inner is completely covered by outer.
+     */
+    private static contains(outer: LexicalRange, inner: LexicalRange): boolean {
+        return RefactoringProvider.comparePositions(outer.start, inner.start) <= 0
+            && RefactoringProvider.comparePositions(inner.end, outer.end) <= 0;
+    }
+
+    /**
+     * @param lhs The first range.
+     * @param rhs The second range.
+     *
+     * @returns True if both ranges share at least one character (touching ranges don't overlap).
+     */
+    private static overlaps(lhs: LexicalRange, rhs: LexicalRange): boolean {
+        return RefactoringProvider.comparePositions(lhs.start, rhs.end) < 0
+            && RefactoringProvider.comparePositions(rhs.start, lhs.end) < 0;
+    }
+
+    private static rangeOfContext(context: ParserRuleContext): LexicalRange {
+        return {
+            start: { column: context.start.charPositionInLine, row: context.start.line },
+            end: QuickFixProvider.positionAfter(context.stop ?? context.start).end,
+        };
+    }
+
+    /**
+     * Collects all nodes of the given type in a parse tree (including the root itself).
+     *
+     * @param tree The tree to search.
+     * @param type The class of the nodes to collect.
+     *
+     * @returns The found nodes in pre-order.
+     */
+    private static collect<T extends ParseTree>(tree: ParseTree, type: new (...args: any[]) => T): T[] {
+        const result: T[] = [];
+        const walk = (node: ParseTree) => {
+            if (node instanceof type) {
+                result.push(node);
+            }
+
+            for (let i = 0; i < node.childCount; ++i) {
+                walk(node.getChild(i));
+            }
+        };
+        walk(tree);
+
+        return result;
+    }
+
+    /**
+     * Constructs the text of the given tree from its tokens, without comments and with all whitespace (including
+     * line breaks) between tokens replaced by a single space.
+     *
+     * @param tree The tree to convert.
+     *
+     * @returns The text of the tree in one line.
+     */
+    private static flatText(tree: ParseTree): string {
+        let result = "";
+        let lastStop = -1;
+        for (const terminal of RefactoringProvider.collect(tree, TerminalNode)) {
+            const token = terminal.symbol;
+            if (token.startIndex < 0) {
+                continue; // EOF or a token inserted by the error recovery.
+            }
+
+            if (lastStop >= 0 && token.startIndex > lastStop + 1) {
+                result += " ";
+            }
+            result += token.text ?? "";
+            lastStop = token.stopIndex;
+        }
+
+        return result;
+    }
+
+    /**
+     * Checks if the given tree contains anything, which cannot be moved to another rule without changing its meaning
+     * (labels, actions, predicates and rule arguments).
+     *
+     * @param tree The tree to check.
+     *
+     * @returns True if the tree can be moved.
+     */
+    private static isMovable(tree: ParseTree): boolean {
+        return RefactoringProvider.collect(tree, LabeledElementContext).length === 0
+            && RefactoringProvider.collect(tree, LabeledLexerElementContext).length === 0
+            && RefactoringProvider.collect(tree, ActionBlockContext).length === 0
+            && RefactoringProvider.collect(tree, ArgActionBlockContext).length === 0;
+    }
+
+    /**
+     * Creates a token name from a string literal.
+     *
+     * @param literal The literal, including the quotes.
+     *
+     * @returns A name for a lexer rule matching the literal.
+     */
+    private static tokenNameFromLiteral(literal: string): string {
+        const content = literal.substring(1, literal.length - 1);
+        if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(content)) {
+            return content.toUpperCase();
+        }
+
+        const parts: string[] = [];
+        for (const char of content) {
+            const name = characterNames.get(char);
+            if (!name) {
+                return "TOKEN";
+            }
+            parts.push(name);
+        }
+
+        return parts.length > 0 ? parts.join("_") : "TOKEN";
+    }
+
+    /**
+     * Checks if the given rule reference is the first element of a top level alternative (without a suffix).
+     *
+     * @param reference The context of the rule reference.
+     *
+     * @returns The element, if the reference is the first element of the alternative.
+     */
+    private static leadingElement(reference: ParseTree | undefined): ElementContext | undefined {
+        // ruleref -> atom -> element or ruleref -> atom -> labeledElement -> element.
+        let element = reference?.parent?.parent;
+        if (element instanceof LabeledElementContext) {
+            element = element.parent;
+        }
+
+        if (!(element instanceof ElementContext) || element.ebnfSuffix()) {
+            return undefined;
+        }
+
+        const alternative = element.parent;
+        if (!(alternative instanceof AlternativeContext) || !(alternative.parent instanceof LabeledAltContext)
+            || alternative.element()[0] !== element) {
+            return undefined;
+        }
+
+        return element;
+    }
+
+    /**
+     * Determines all refactorings which can be applied to the given range in the grammar.
+     *
+     * @param range The range for which to find refactorings (usually the caret position or the selection).
+     *
+     * @returns A list of refactorings, which can be empty.
+     */
+    public getRefactorings(range: LexicalRange): Refactoring[] {
+        const result: Refactoring[] = [];
+        const tree = this.context.grammarTree;
+        if (!tree) {
+            return result;
+        }
+
+        this.addExtractRule(tree, range, result);
+        this.addInlineRule(tree, range, result);
+        this.addIntroduceToken(tree, range, result);
+        this.addConvertToFragment(tree, range, result);
+
+        const rule = this.ruleFromName(tree, range);
+        if (rule instanceof ParserRuleSpecContext) {
+            const refactoring = this.eliminateLeftRecursion(rule.RULE_REF().text);
+            if (refactoring) {
+                result.push(refactoring);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Rewrites a directly or indirectly left recursive parser rule into an iterative form, which matches the same
+     * input. For indirect recursion the alternatives of the other rules in the cycle are substituted first.
+     * Alternative labels are kept by moving the recursive alternatives to a new rule, if labels are used.
+     * Labels on the recursive reference itself and element options of alternatives are removed.
+     *
+     * @param ruleName The name of the rule to change.
+     *
+     * @returns The refactoring or undefined, if the rule is not left recursive or cannot be rewritten.
+     */
+    public eliminateLeftRecursion(ruleName: string): Refactoring | undefined {
+        const tree = this.context.grammarTree;
+        if (!tree) {
+            return undefined;
+        }
+
+        const rules = new Map<string, ParserRuleSpecContext>();
+        for (const spec of tree.rules().ruleSpec()) {
+            const parserRule = spec.parserRuleSpec();
+            if (parserRule) {
+                rules.set(parserRule.RULE_REF().text, parserRule);
+            }
+        }
+
+        const rule = rules.get(ruleName);
+        const leftReferences = this.leftReferences();
+        if (!rule) {
+            return undefined;
+        }
+
+        // Determine the rules, from which we can get back to the rule to change.
+        const reachesRule = (name: string): boolean => {
+            const visited = new Set<string>();
+            const pipeline = [name];
+            while (pipeline.length > 0) {
+                const current = pipeline.shift()!;
+                if (current === ruleName) {
+                    return true;
+                }
+
+                if (!visited.has(current)) {
+                    visited.add(current);
+                    pipeline.push(...leftReferences.get(current) ?? []);
+                }
+            }
+
+            return false;
+        };
+
+        if (![...leftReferences.get(ruleName) ?? []].some(reachesRule)) {
+            return undefined;
+        }
+
+        // Substitute leading references to other rules in the cycle, until only direct recursion is left.
+        let alternatives = this.alternativesOf(rule);
+        for (let round = 0; round <= rules.size; ++round) {
+            const next: LeftRecursionAlternative[] = [];
+            let changed = false;
+            for (const alternative of alternatives) {
+                const head = alternative.head;
+                if (head && head !== ruleName && rules.has(head) && reachesRule(head)) {
+                    for (const substitute of this.alternativesOf(rules.get(head)!)) {
+                        next.push({
+                            elements: [...substitute.elements, ...alternative.elements.slice(1)],
+                            head: substitute.head,
+                            label: alternative.label,
+                        });
+                    }
+                    changed = true;
+                } else {
+                    next.push(alternative);
+                }
+            }
+
+            alternatives = next;
+            if (!changed) {
+                break;
+            }
+        }
+
+        if (alternatives.some((alternative) => alternative.head && alternative.head !== ruleName
+            && reachesRule(alternative.head))) {
+            return undefined;
+        }
+
+        const base = alternatives.filter((alternative) => alternative.head !== ruleName);
+        const tails = alternatives
+            .filter((alternative) => alternative.head === ruleName && alternative.elements.length > 1)
+            .map((alternative) => ({ elements: alternative.elements.slice(1), label: alternative.label }));
+        if (base.length === 0) {
+            return undefined; // Infinite recursion.
+        }
+
+        // Keep the layout of the alternatives (one line or one alternative per line).
+        const altList = rule.ruleBlock().ruleAltList();
+        const separator = altList.OR().length > 0 && altList.OR()[0].symbol.line !== altList.start.line
+            ? `\n${" ".repeat(altList.OR()[0].symbol.charPositionInLine)}| `
+            : " | ";
+
+        const edits: GrammarEdit[] = [];
+        let body: string;
+        if (alternatives.some((alternative) => alternative.label)) {
+            let suffix = "";
+            if (tails.length > 0) {
+                const tailName = this.uniqueName(`${ruleName}Tail`);
+                suffix = ` ${tailName}*`;
+
+                const tailBody = tails
+                    .map((tail) => tail.elements.join(" ") + (tail.label ? ` # ${tail.label}` : ""))
+                    .join(separator);
+                edits.push({
+                    fileName: this.context.fileName,
+                    range: QuickFixProvider.positionAfter(rule.stop!),
+                    text: `\n\n${tailName}: ${tailBody};`,
+                });
+            }
+
+            body = base.map((alternative) => (alternative.elements.join(" ") + suffix).trim()
+                    + (alternative.label ? ` # ${alternative.label}` : "")).join(separator);
+        } else {
+            const baseTexts = base.map((alternative) => alternative.elements.join(" "));
+            body = baseTexts.length > 1 ? `(${baseTexts.join(" | ")})` : baseTexts[0];
+            if (tails.length > 0) {
+                body += ` (${tails.map((tail) => tail.elements.join(" ")).join(" | ")})*`;
+            }
+            body = body.trim();
+        }
+
+        edits.unshift({
+            fileName: this.context.fileName,
+            range: RefactoringProvider.rangeOfContext(rule.ruleBlock()),
+            text: body,
+        });
+
+        return {
+            kind: RefactoringKind.Rewrite,
+            title: `Eliminate left recursion in '${ruleName}'`,
+            edits,
+        };
+    }
+
+    /**
+     * Moves the selected elements of an alternative (or a number of alternatives) in a parser rule to a new rule and
+     * replaces them by a reference to that rule.
+     *
+     * @param tree The grammar to change.
+     * @param range The selected text.
+     * @param refactorings Receives the refactoring, if possible.
+     */
+    private addExtractRule(tree: GrammarSpecContext, range: LexicalRange, refactorings: Refactoring[]): void {
+        if (RefactoringProvider.comparePositions(range.start, range.end) === 0) {
+            return;
+        }
+
+        const rule = QuickFixProvider.ruleAt(tree, range);
+        if (!(rule instanceof ParserRuleSpecContext)) {
+            return;
+        }
+
+        // Ignore whitespace around the selected tokens.
+        const tokens = RefactoringProvider.collect(rule.ruleBlock(), TerminalNode)
+            .filter((node) => RefactoringProvider.contains(range, QuickFixProvider.rangeOf(node.symbol)));
+        if (tokens.length === 0) {
+            return;
+        }
+        const selection = {
+            start: QuickFixProvider.rangeOf(tokens[0].symbol).start,
+            end: QuickFixProvider.rangeOf(tokens[tokens.length - 1].symbol).end,
+        };
+
+        // Find the innermost alternative or list of alternatives, which contains the selection.
+        let container: ParserRuleContext | undefined;
+        for (const candidate of RefactoringProvider.collect(rule.ruleBlock(), ParserRuleContext)) {
+            if ((candidate instanceof AlternativeContext || candidate instanceof AltListContext
+                || candidate instanceof RuleAltListContext)
+                && RefactoringProvider.contains(RefactoringProvider.rangeOfContext(candidate), selection)) {
+                container = candidate;
+            }
+        }
+
+        let parts: ParserRuleContext[] = [];
+        let separator = " ";
+        if (container instanceof AlternativeContext) {
+            parts = container.element();
+        } else if (container instanceof AltListContext) {
+            parts = container.alternative();
+            separator = " | ";
+        } else if (container instanceof RuleAltListContext) {
+            parts = container.labeledAlt();
+            separator = " | ";
+        }
+
+        const selected = parts.filter((part) => RefactoringProvider.contains(selection,
+            RefactoringProvider.rangeOfContext(part)));
+        const partial = parts.some((part) => {
+            const partRange = RefactoringProvider.rangeOfContext(part);
+
+            return !RefactoringProvider.contains(selection, partRange)
+                && RefactoringProvider.overlaps(selection, partRange);
+        });
+
+        // Alternative labels must be used either for all or for no alternative of a rule.
+        if (selected.length === 0 || partial || !selected.every((part) => RefactoringProvider.isMovable(part))
+            || parts.some((part) => part instanceof LabeledAltContext && part.POUND())) {
+            return;
+        }
+
+        // Moving a left recursive reference to another rule would make the rule indirectly left recursive.
+        const name = rule.RULE_REF().text;
+        const startsWithRule = (part: ParserRuleContext): boolean => {
+            let element: ElementContext | undefined;
+            if (part instanceof ElementContext) {
+                element = part === parts[0] ? part : undefined;
+            } else if (part instanceof AlternativeContext) {
+                element = part.element()[0];
+            } else if (part instanceof LabeledAltContext) {
+                element = part.alternative().element()[0];
+            }
+
+            return element?.atom()?.ruleref()?.RULE_REF().text === name;
+        };
+        if (selected.some(startsWithRule)) {
+            return;
+        }
+
+        let body = selected.map((part) => RefactoringProvider.flatText(part)).join(separator);
+
+        // A single block without suffix needs no parentheses as rule body.
+        const first = selected[0];
+        if (selected.length === 1 && first instanceof ElementContext) {
+            const ebnf = first.ebnf();
+            if (ebnf && !ebnf.blockSuffix() && !ebnf.block().COLON()) {
+                body = RefactoringProvider.flatText(ebnf.block().altList());
+            }
+        }
+
+        const newName = this.uniqueName(`${name}Part`);
+        refactorings.push({
+            kind: RefactoringKind.Extract,
+            title: `Extract rule '${newName}'`,
+            edits: [{
+                fileName: this.context.fileName,
+                range: {
+                    start: RefactoringProvider.rangeOfContext(selected[0]).start,
+                    end: RefactoringProvider.rangeOfContext(selected[selected.length - 1]).end,
+                },
+                text: newName,
+            }, {
+                fileName: this.context.fileName,
+                range: QuickFixProvider.positionAfter(rule.stop!),
+                text: `\n\n${newName}: ${body};`,
+            }],
+        });
+    }
+
+    /**
+     * Replaces all references to a parser rule or a lexer fragment by the content of that rule and removes the rule,
+     * if it isn't used by other grammars.
+     *
+     * @param tree The grammar to change.
+     * @param range The range with the rule name (definition or reference).
+     * @param refactorings Receives the refactoring, if possible.
+     */
+    private addInlineRule(tree: GrammarSpecContext, range: LexicalRange, refactorings: Refactoring[]): void {
+        const rule = this.ruleFromName(tree, range);
+        if (!rule || (rule instanceof LexerRuleSpecContext && !rule.FRAGMENT())) {
+            return;
+        }
+
+        let name: string;
+        let alternatives: Array<AlternativeContext | LexerAltContext>;
+        if (rule instanceof ParserRuleSpecContext) {
+            name = rule.RULE_REF().text;
+            const exceptions = rule.exceptionGroup();
+            if (rule.argActionBlock() || rule.ruleReturns() || rule.throwsSpec() || rule.localsSpec()
+                || rule.rulePrequel().length > 0 || exceptions.exceptionHandler().length > 0
+                || exceptions.finallyClause()) {
+                return;
+            }
+
+            const labeledAlts = rule.ruleBlock().ruleAltList().labeledAlt();
+            if (labeledAlts.some((alt) => alt.POUND())) {
+                return;
+            }
+            alternatives = labeledAlts.map((alt) => alt.alternative());
+        } else {
+            name = rule.TOKEN_REF().text;
+            const lexerAlts = rule.lexerRuleBlock().lexerAltList().lexerAlt();
+            if (lexerAlts.some((alt) => alt.lexerCommands())) {
+                return;
+            }
+            alternatives = lexerAlts;
+        }
+
+        const body = rule instanceof ParserRuleSpecContext ? rule.ruleBlock() : rule.lexerRuleBlock();
+        const texts = alternatives.map((alt) => RefactoringProvider.flatText(alt));
+        if (!RefactoringProvider.isMovable(body) || texts.some((text) => text.length === 0)
+            || this.findReferences(this.context, body, name).length > 0) {
+            return;
+        }
+
+        // A body, which is a single atom or block, can get the suffix of the call site. Everything else must be
+        // enclosed in parentheses then.
+        let singleAtom = false;
+        if (alternatives.length === 1) {
+            const alternative = alternatives[0];
+            if (alternative instanceof AlternativeContext) {
+                const elements = alternative.element();
+                const ebnf = elements[0]?.ebnf();
+                singleAtom = elements.length === 1 && !elements[0].ebnfSuffix()
+                    && (elements[0].atom() !== undefined || (ebnf !== undefined && !ebnf.blockSuffix()));
+            } else {
+                const elements = alternative.lexerElements()?.lexerElement() ?? [];
+                singleAtom = elements.length === 1 && !elements[0].ebnfSuffix()
+                    && (elements[0].lexerAtom() !== undefined || elements[0].lexerBlock() !== undefined);
+            }
+        }
+
+        const references = this.findReferences(this.context, tree, name);
+        if (references.length === 0) {
+            return;
+        }
+
+        const edits: GrammarEdit[] = [];
+        for (const reference of references) {
+            const parent = reference.parent;
+            if ((parent instanceof RulerefContext || parent instanceof TerminalRuleContext) && parent.childCount > 1) {
+                return; // Arguments or element options.
+            }
+
+            // ruleref/terminalRule -> atom/lexerAtom -> element/lexerElement or labeledElement.
+            const element = reference.parent?.parent?.parent;
+            if (!(element instanceof ElementContext || element instanceof LexerElementContext)) {
+                return;
+            }
+
+            const hasSuffix = element.ebnfSuffix() !== undefined;
+            const text = texts.length > 1 || (hasSuffix && !singleAtom) ? `(${texts.join(" | ")})` : texts[0];
+            edits.push({
+                fileName: this.context.fileName,
+                range: QuickFixProvider.rangeOf(reference.symbol),
+                text,
+            });
+        }
+
+        // Keep the rule if other grammars use it too.
+        if (this.context.getReferenceCount(name) <= references.length) {
+            edits.push({
+                fileName: this.context.fileName,
+                range: QuickFixProvider.wholeLinesRange(rule),
+                text: "",
+            });
+        }
+
+        refactorings.push({
+            kind: RefactoringKind.Inline,
+            title: `Inline rule '${name}'`,
+            edits,
+        });
+    }
+
+    /**
+     * Creates a lexer rule for a string literal used in parser rules and replaces all occurrences of the literal
+     * in parser rules by the name of the new token.
+     *
+     * @param tree The grammar to change.
+     * @param range The range with the literal.
+     * @param refactorings Receives the refactoring, if possible.
+     */
+    private addIntroduceToken(tree: GrammarSpecContext, range: LexicalRange, refactorings: Refactoring[]): void {
+        const literals = this.parserLiterals(tree);
+        const literal = literals.find((candidate) => QuickFixProvider.intersects(
+            QuickFixProvider.rangeOf(candidate.symbol), range));
+        if (!literal || QuickFixProvider.literalTokens([this.context, ...this.dependencies]).has(literal.text)) {
+            return;
+        }
+
+        // New lexer rules are placed before all other lexer rules, to give them the same priority as implicit
+        // tokens (which are defined before all lexer rules). Otherwise they might never be matched.
+        let lexerContext: SourceContext | undefined;
+        switch (this.context.info.type) {
+            case GrammarType.Combined: {
+                lexerContext = this.context;
+                break;
+            }
+
+            case GrammarType.Parser: {
+                for (const dependency of this.dependencies) {
+                    if (dependency.info.type === GrammarType.Lexer) {
+                        lexerContext = dependency;
+                        break;
+                    }
+                }
+                break;
+            }
+
+            default:
+        }
+
+        const lexerTree = lexerContext?.grammarTree;
+        if (!lexerContext || !lexerTree) {
+            return;
+        }
+
+        const name = this.uniqueName(RefactoringProvider.tokenNameFromLiteral(literal.text));
+        const firstLexerRule = lexerTree.rules().ruleSpec().find((rule) => rule.lexerRuleSpec() !== undefined);
+        let edit: GrammarEdit;
+        if (firstLexerRule) {
+            const position = { column: firstLexerRule.start.charPositionInLine, row: firstLexerRule.start.line };
+            edit = {
+                fileName: lexerContext.fileName,
+                range: { start: position, end: { ...position } },
+                text: `${name}: ${literal.text};\n\n`,
+            };
+        } else {
+            edit = {
+                fileName: lexerContext.fileName,
+                range: QuickFixProvider.positionAfter(QuickFixProvider.lexerRuleInsertionPoint(lexerTree)),
+                text: `\n\n${name}: ${literal.text};`,
+            };
+        }
+
+        const edits = [edit];
+        for (const occurrence of literals) {
+            if (occurrence.text === literal.text) {
+                edits.push({
+                    fileName: this.context.fileName,
+                    range: QuickFixProvider.rangeOf(occurrence.symbol),
+                    text: name,
+                });
+            }
+        }
+
+        refactorings.push({
+            kind: RefactoringKind.Extract,
+            title: `Introduce token '${name}' for ${literal.text}`,
+            edits,
+        });
+    }
+
+    /**
+     * Makes a lexer rule a fragment rule, if it's only used by other lexer rules.
+     *
+     * @param tree The grammar to change.
+     * @param range The range with the name of the lexer rule.
+     * @param refactorings Receives the refactoring, if possible.
+     */
+    private addConvertToFragment(tree: GrammarSpecContext, range: LexicalRange, refactorings: Refactoring[]): void {
+        const rule = this.ruleFromName(tree, range);
+        if (!(rule instanceof LexerRuleSpecContext) || rule.FRAGMENT()) {
+            return;
+        }
+
+        const name = rule.TOKEN_REF().text;
+        const alternatives = rule.lexerRuleBlock().lexerAltList().lexerAlt();
+        if (alternatives.some((alt) => alt.lexerCommands())) {
+            return;
+        }
+
+        // A rule, which consists only of a literal, is also used by parser rules via that literal.
+        const literalTokens = QuickFixProvider.literalTokens([this.context]);
+        const literal = [...literalTokens.keys()].find((key) => literalTokens.get(key) === name);
+
+        let usedInLexer = false;
+        for (const context of [this.context, ...this.context.dependents]) {
+            const grammar = context.grammarTree;
+            if (!grammar) {
+                continue;
+            }
+
+            for (const reference of this.findReferences(context, grammar, name)) {
+                let parent = reference.parent;
+                while (parent && !(parent instanceof ParserRuleSpecContext || parent instanceof LexerRuleSpecContext)) {
+                    parent = parent.parent;
+                }
+
+                if (!(parent instanceof LexerRuleSpecContext)) {
+                    return;
+                }
+                usedInLexer = true;
+            }
+
+            // Token types set by lexer commands.
+            if (RefactoringProvider.collect(grammar, LexerCommandExprContext).some((expr) => expr.text === name)) {
+                return;
+            }
+
+            if (literal && this.parserLiterals(grammar).some((node) => node.text === literal)) {
+                return;
+            }
+        }
+
+        if (!usedInLexer) {
+            return;
+        }
+
+        const position = { column: rule.TOKEN_REF().symbol.charPositionInLine, row: rule.TOKEN_REF().symbol.line };
+        refactorings.push({
+            kind: RefactoringKind.Rewrite,
+            title: `Convert '${name}' to a fragment rule`,
+            edits: [{
+                fileName: this.context.fileName,
+                range: { start: position, end: { ...position } },
+                text: "fragment ",
+            }],
+        });
+    }
+
+    /**
+     * Determines the rule, whose name is at the start of the given range (either in its definition or in
+     * a reference).
+     *
+     * @param tree The grammar to search.
+     * @param range The range to check.
+     *
+     * @returns The rule context if the rule is defined in the given grammar.
+     */
+    private ruleFromName(tree: GrammarSpecContext,
+        range: LexicalRange): ParserRuleSpecContext | LexerRuleSpecContext | undefined {
+        const position = { start: range.start, end: range.start };
+        const name = RefactoringProvider.collect(tree, TerminalNode).find((node) =>
+            (node.symbol.type === ANTLRv4Parser.RULE_REF || node.symbol.type === ANTLRv4Parser.TOKEN_REF)
+            && (node.parent instanceof ParserRuleSpecContext || node.parent instanceof LexerRuleSpecContext
+                || node.parent instanceof RulerefContext || node.parent instanceof TerminalRuleContext)
+            && QuickFixProvider.intersects(QuickFixProvider.rangeOf(node.symbol), position));
+
+        if (!name) {
+            return undefined;
+        }
+
+        return QuickFixProvider.allRules(tree).find((rule) => {
+            const ruleName = rule instanceof ParserRuleSpecContext ? rule.RULE_REF() : rule.TOKEN_REF();
+
+            return ruleName.text === name.text;
+        });
+    }
+
+    /**
+     * Uses the rule symbols to determine which rules are referenced at the start of a top level alternative of
+     * each parser rule.
+     *
+     * @returns A mapping from rule names to the names of the leftmost referenced rules.
+     */
+    private leftReferences(): Map<string, Set<string>> {
+        const result = new Map<string, Set<string>>();
+        for (const symbol of this.context.symbolTable.getAllSymbols(RuleSymbol, true)) {
+            const references = new Set<string>();
+            for (const reference of (symbol as RuleSymbol).getNestedSymbolsOfType(RuleReferenceSymbol)) {
+                if (RefactoringProvider.leadingElement(reference.context)) {
+                    references.add(reference.name);
+                }
+            }
+            result.set(symbol.name, references);
+        }
+
+        return result;
+    }
+
+    /**
+     * Splits the top level alternatives of a rule into their elements.
+     *
+     * @param rule The rule to split.
+     *
+     * @returns The alternatives, with the name of the leading rule reference, if there's one.
+     */
+    private alternativesOf(rule: ParserRuleSpecContext): LeftRecursionAlternative[] {
+        return rule.ruleBlock().ruleAltList().labeledAlt().map((labeledAlt) => {
+            const elements = labeledAlt.alternative().element();
+            const first = elements.length > 0 ? RefactoringProvider.collect(elements[0], RulerefContext)[0] : undefined;
+            const head = first && RefactoringProvider.leadingElement(first) === elements[0]
+                ? first.RULE_REF().text
+                : undefined;
+
+            return {
+                elements: elements.map((element) => RefactoringProvider.flatText(element)),
+                head,
+                label: labeledAlt.identifier()?.text,
+            };
+        });
+    }
+
+    /**
+     * Uses the symbol table of a context to find all references to a rule in the given tree.
+     *
+     * @param context The context to which the tree belongs.
+     * @param tree The tree to search (the entire grammar or a part of it).
+     * @param name The name of the rule.
+     *
+     * @returns The name nodes of the references.
+     */
+    private findReferences(context: SourceContext, tree: ParseTree, name: string): TerminalNode[] {
+        const positions = new Set<string>();
+        for (const occurrence of context.symbolTable.getSymbolOccurrences(name, true)) {
+            const start = occurrence.definition?.range.start;
+            if (start && occurrence.source === context.fileName) {
+                positions.add(`${start.row}:${start.column}`);
+            }
+        }
+
+        return RefactoringProvider.collect(tree, TerminalNode).filter((node) => {
+            const parent = node.parent;
+
+            return node.text === name
+                && (parent instanceof RulerefContext || parent instanceof TerminalRuleContext
+                    || parent instanceof SetElementContext)
+                && positions.has(`${node.symbol.line}:${node.symbol.charPositionInLine}`);
+        });
+    }
+
+    /**
+     * Collects all string literals in parser rules of the given grammar.
+     *
+     * @param tree The grammar to search.
+     *
+     * @returns The literal nodes.
+     */
+    private parserLiterals(tree: GrammarSpecContext): TerminalNode[] {
+        const result: TerminalNode[] = [];
+        for (const spec of tree.rules().ruleSpec()) {
+            const rule = spec.parserRuleSpec();
+            if (rule) {
+                result.push(...RefactoringProvider.collect(rule, TerminalNode).filter((node) =>
+                    node.symbol.type === ANTLRv4Parser.STRING_LITERAL
+                    && (node.parent instanceof TerminalRuleContext || node.parent instanceof SetElementContext)));
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Creates a name, which is not yet used for a symbol in the grammar or its dependencies.
+     *
+     * @param base The name to start with. A number is appended to it, if it is already used.
+     *
+     * @returns The new name.
+     */
+    private uniqueName(base: string): string {
+        let name = base;
+        let counter = 1;
+        while (this.context.resolveSymbol(name)) {
+            name = `${base}${counter++}`;
+        }
+
+        return name;
+    }
+}
@@ -32,12 +32,16 @@ import {
     ElementContext, LabeledElementContext, EbnfContext, EbnfSuffixContext, LexerAtomContext, AtomContext,
     NotSetContext, BlockSetContext, CharacterRangeContext, TerminalRuleContext, SetElementContext,
 
-    RuleBlockContext, LexerRuleBlockContext, ElementOptionsContext,
+    RuleBlockContext, LexerRuleBlockContext, ElementOptionsContext, LexerCommandsContext,
 } from "../parser/ANTLRv4Parser";
 
 export class RuleVisitor extends AbstractParseTreeVisitor<string> implements ANTLRv4ParserVisitor<string> {
 
-    public constructor(private scripts: Map<string, string>) {
+    /**
+     * @param scripts Receives the generated diagram script for each rule.
+     * @param annotate If true then alternative labels, element labels and lexer commands are added to the diagrams.
+     */
+    public constructor(private scripts: Map<string, string>, private annotate = false) {
         super();
     }
 
@@ -60,7 +64,13 @@ export class RuleVisitor extends AbstractParseTreeVisitor<string> implements ANT
         let script = "Choice(0";
         const alternatives = ctx.labeledAlt();
         for (const alternative of alternatives) {
-            script += ", " + this.visitAlternative(alternative.alternative());
+            const label = alternative.identifier();
+            if (this.annotate && label) {
+                script += ", Sequence(" + this.visitAlternative(alternative.alternative()) + ", Comment('# " +
+                    label.text + "'))";
+            } else {
+                script += ", " + this.visitAlternative(alternative.alternative());
+            }
         }
 
         return script + ")";
@@ -90,10 +100,17 @@ export class RuleVisitor extends AbstractParseTreeVisitor<string> implements ANT
 
     public visitLexerAlt = (ctx: LexerAltContext): string => {
         if (ctx.lexerElements()) {
+            const commands = ctx.lexerCommands();
+            if (this.annotate && commands) {
+                return "Sequence(" + this.visitLexerElements(ctx.lexerElements()!) + ", " +
+                    this.visitLexerCommands(commands) + ")";
+            }
+
             return this.visitLexerElements(ctx.lexerElements()!);
         }
 
-        return "";
+        // An empty alternative.
+        return "Skip()";
     };
 
     public visitLexerElements = (ctx: LexerElementsContext): string => {
@@ -106,7 +123,14 @@ export class RuleVisitor extends AbstractParseTreeVisitor<string> implements ANT
             script += this.visitLexerElement(element);
         }
 
-        return "Sequence(" + script + ")";
+        // The railroad diagram library cannot render empty sequences.
+        return script.length > 0 ? "Sequence(" + script + ")" : "Skip()";
+    };
+
+    public visitLexerCommands = (ctx: LexerCommandsContext): string => {
+        const commands = ctx.lexerCommand().map((command) => command.text);
+
+        return "Comment('-> " + this.escapeComment(commands.join(", ")) + "')";
     };
 
     public visitLexerElement = (ctx: LexerElementContext): string => {
@@ -133,20 +157,23 @@ export class RuleVisitor extends AbstractParseTreeVisitor<string> implements ANT
                 return this.visitLexerAltList(ctx.lexerBlock()!.lexerAltList());
             }
         } else if (ctx.QUESTION()) {
-            return "Comment('" + ctx.actionBlock()!.text + "?')";
+            return "Comment('" + this.escapeComment(ctx.actionBlock()!.text) + "?')";
         } else {
             return "Comment('{ action code }')";
         }
     };
 
     public visitLabeledLexerElement = (ctx: LabeledLexerElementContext): string => {
+        let script;
         if (ctx.lexerAtom()) {
-            return this.visitLexerAtom(ctx.lexerAtom()!);
+            script = this.visitLexerAtom(ctx.lexerAtom()!);
         } else if (ctx.block()) {
-            return this.visitAltList(ctx.block()!.altList());
+            script = this.visitAltList(ctx.block()!.altList());
+        } else {
+            return "";
         }
 
-        return "";
+        return this.addElementLabel(ctx.identifier().text + (ctx.PLUS_ASSIGN() ? "+=" : "="), script);
     };
 
     public visitAltList = (ctx: AltListContext): string => {
@@ -173,7 +200,7 @@ export class RuleVisitor extends AbstractParseTreeVisitor<string> implements ANT
             script += this.visitElement(element);
         }
 
-        return "Sequence(" + script + ")";
+        return script.length > 0 ? "Sequence(" + script + ")" : "Skip()";
     };
 
     public visitElement = (ctx: ElementContext): string => {
@@ -195,20 +222,24 @@ export class RuleVisitor extends AbstractParseTreeVisitor<string> implements ANT
         } else if (ctx.ebnf()) {
             return this.visitEbnf(ctx.ebnf()!);
         } else if (ctx.QUESTION()) {
-            return "Comment('" + ctx.actionBlock()!.text + "?')";
+            return "Comment('" + this.escapeComment(ctx.actionBlock()!.text) + "?')";
         } else {
             return "Comment('{ action code }')";
         }
     };
 
-    public visitElementOptions = (ctx: ElementOptionsContext): string => "Comment('" + ctx.text + "')";
+    public visitElementOptions = (ctx: ElementOptionsContext): string =>
+        "Comment('" + this.escapeComment(ctx.text) + "')";
 
     public visitLabeledElement = (ctx: LabeledElementContext): string => {
+        let script;
         if (ctx.atom()) {
-            return this.visitAtom(ctx.atom()!);
+            script = this.visitAtom(ctx.atom()!);
         } else {
-            return this.visitAltList(ctx.block()!.altList());
+            script = this.visitAltList(ctx.block()!.altList());
         }
+
+        return this.addElementLabel(ctx.identifier().text + (ctx.PLUS_ASSIGN() ? "+=" : "="), script);
     };
 
     public visitEbnf = (ctx: EbnfContext): string => {
@@ -251,7 +282,7 @@ export class RuleVisitor extends AbstractParseTreeVisitor<string> implements ANT
         if (options) {
             const text = this.visitElementOptions(options);
             if (text !== "") {
-                return "Sequence(Terminal('any char'), Comment(" + text + ")";
+                return "Sequence(Terminal('any char'), " + text + ")";
             }
         }
 
@@ -273,7 +304,7 @@ export class RuleVisitor extends AbstractParseTreeVisitor<string> implements ANT
         if (options) {
             const text = this.visitElementOptions(options);
             if (text !== "") {
-                return "Sequence(NonTerminal('any token'), Comment(" + text + ")";
+                return "Sequence(NonTerminal('any token'), " + text + ")";
             }
         }
 
@@ -312,10 +343,11 @@ export class RuleVisitor extends AbstractParseTreeVisitor<string> implements ANT
     public visitCharacterRange = (ctx: CharacterRangeContext): string => {
         // The second literal can be non-existing (e.g. if not properly quoted).
         if (ctx.STRING_LITERAL().length > 1) {
-            return this.escapeTerminal(ctx.STRING_LITERAL(0)) + " .. " + this.escapeTerminal(ctx.STRING_LITERAL(1));
+            return "Terminal('" + this.escapeTerminal(ctx.STRING_LITERAL(0)) + " .. " +
+                this.escapeTerminal(ctx.STRING_LITERAL(1)) + "')";
         }
 
-        return this.escapeTerminal(ctx.STRING_LITERAL(0)) + " .. ?";
+        return "Terminal('" + this.escapeTerminal(ctx.STRING_LITERAL(0)) + " .. ?')";
     };
 
     public visitTerminalRule = (ctx: TerminalRuleContext): string => {
@@ -340,6 +372,33 @@ export class RuleVisitor extends AbstractParseTreeVisitor<string> implements ANT
         }
     };
 
+    /**
+     * Prefixes the given element script with its label, if annotations are enabled.
+     *
+     * @param label The label including the assignment operator (e.g. "x=" or "list+=").
+     * @param script The script of the labeled element.
+     *
+     * @returns The new script.
+     */
+    private addElementLabel(label: string, script: string): string {
+        if (!this.annotate) {
+            return script;
+        }
+
+        return "Sequence(Comment('" + label + "'), " + script + ")";
+    }
+
+    /**
+     * Makes the given text usable in a single quoted string in a diagram script.
+     *
+     * @param text The text to escape.
+     *
+     * @returns The escaped text.
+     */
+    private escapeComment(text: string): string {
+        return text.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\s*[\r\n]+\s*/g, " ");
+    }
+
     private escapeTerminal(node: TerminalNode): string {
         const text = node.text;
         const escaped = text.replace(/\\/g, "\\\\");
@@ -7,6 +7,7 @@
 
 import { SymbolGroupKind, DiagnosticEntry, DiagnosticType } from "./facade";
 import { ContextSymbolTable, TokenSymbol, RuleSymbol } from "./ContextSymbolTable";
+import { SourceContext } from "./SourceContext";
 import { ANTLRv4ParserListener } from "../parser/ANTLRv4ParserListener";
 import {
     TerminalRuleContext, RulerefContext, SetElementContext, LexerCommandContext, LexerRuleSpecContext,
@@ -29,6 +30,7 @@ export class SemanticListener implements ANTLRv4ParserListener {
             const symbol = tokenRef.text;
             this.checkSymbolExistence(true, SymbolGroupKind.TokenRef, symbol, "Unknown token reference",
                 tokenRef.symbol);
+            this.checkDeprecation(symbol, tokenRef.symbol);
             this.symbolTable.incrementSymbolRefCount(symbol);
         }
     };
@@ -39,6 +41,7 @@ export class SemanticListener implements ANTLRv4ParserListener {
         if (ruleRef) {
             const symbol = ruleRef.text;
             this.checkSymbolExistence(true, SymbolGroupKind.RuleRef, symbol, "Unknown parser rule", ruleRef.symbol);
+            this.checkDeprecation(symbol, ruleRef.symbol);
             this.symbolTable.incrementSymbolRefCount(symbol);
         }
     };
@@ -50,6 +53,7 @@ export class SemanticListener implements ANTLRv4ParserListener {
             const symbol = tokenRef.text;
             this.checkSymbolExistence(true, SymbolGroupKind.TokenRef, symbol, "Unknown token reference",
                 tokenRef.symbol);
+            this.checkDeprecation(symbol, tokenRef.symbol);
             this.symbolTable.incrementSymbolRefCount(symbol);
         }
     };
@@ -146,6 +150,35 @@ export class SemanticListener implements ANTLRv4ParserListener {
         }
     }
 
+    // Warns about references to rules marked with @deprecated in their doc comment.
+    protected checkDeprecation(symbol: string, offendingToken: Token): void {
+        const resolved = this.symbolTable.resolve(symbol);
+        const documentation = SourceContext.documentationForContext(resolved?.context);
+        if (documentation?.deprecated !== undefined) {
+            let message = "'" + symbol + "' is deprecated";
+            if (documentation.deprecated.length > 0) {
+                message += ": " + documentation.deprecated;
+            }
+
+            this.diagnostics.push({
+                type: DiagnosticType.Warning,
+                message,
+                range: {
+                    start: {
+                        column: offendingToken.charPositionInLine,
+                        row: offendingToken.line,
+                    },
+                    end: {
+                        column: offendingToken.charPositionInLine + offendingToken.stopIndex -
+                            offendingToken.startIndex + 1,
+                        row: offendingToken.line,
+                    },
+                },
+                deprecated: true,
+            });
+        }
+    }
+
     protected reportDuplicateSymbol(symbol: string, offendingToken: Token, previousToken: Token | undefined): void {
         const entry: DiagnosticEntry = {
             type: DiagnosticType.Error,
@@ -14,8 +14,8 @@ import * as fs from "fs";
 import * as vm from "vm";
 
 import {
-    CharStreams, CommonTokenStream, BailErrorStrategy, DefaultErrorStrategy, Token, RuleContext, ParserRuleContext,
-    Vocabulary,
+    CharStreams, CommonToken, CommonTokenStream, BailErrorStrategy, DefaultErrorStrategy, Token, RuleContext,
+    ParserRuleContext, Vocabulary,
 } from "antlr4ts";
 import {
     PredictionMode, ATNState, RuleTransition, TransitionType, ATNStateType, RuleStartState, ActionTransition,
@@ -34,7 +34,8 @@ import { ANTLRv4Lexer } from "../parser/ANTLRv4Lexer";
 import {
     SymbolKind, SymbolInfo, DiagnosticEntry, DiagnosticType, ReferenceNode, ATNGraphData, GenerationOptions,
     SentenceGenerationOptions, FormattingOptions, Definition, ContextDetails, PredicateFunction, ATNLink,
-    CodeActionType,
+    CodeActionType, LexicalRange, QuickFix, Refactoring, ParseTestOutput, TokenStreamResult, LexerModeGraph,
+    GrammarDependency, GrammarDependencyKind, SymbolDocumentation,
 } from "./facade";
 
 import { ContextErrorListener } from "./ContextErrorListener";
@@ -45,18 +46,24 @@ import { SemanticListener } from "./SemanticListener";
 import { RuleVisitor } from "./RuleVisitor";
 import { InterpreterDataReader, InterpreterData } from "./InterpreterDataReader";
 import { ErrorParser } from "./ErrorParser";
+import { GrammarAnalyzer } from "./GrammarAnalyzer";
+import { QuickFixProvider } from "./QuickFixProvider";
+import { RefactoringProvider } from "./RefactoringProvider";
+import { GrammarCoverage } from "./GrammarCoverage";
+import { LexerModeAnalyzer } from "./LexerModeAnalyzer";
 
 import {
     ContextSymbolTable, BuiltInChannelSymbol, BuiltInTokenSymbol, BuiltInModeSymbol, RuleSymbol,
     VirtualTokenSymbol, FragmentTokenSymbol, TokenSymbol, RuleReferenceSymbol, TokenReferenceSymbol, ImportSymbol,
     LexerModeSymbol, TokenChannelSymbol, ActionSymbol, OperatorSymbol, LexerActionSymbol, PredicateSymbol,
-    NamedActionSymbol,
+    NamedActionSymbol, OptionSymbol,
 } from "./ContextSymbolTable";
 
 import { SentenceGenerator } from "./SentenceGenerator";
 import { GrammarFormatter } from "./Formatter";
 import {
     GrammarLexerInterpreter, InterpreterLexerErrorListener, GrammarParserInterpreter, InterpreterParserErrorListener,
+    TokenOrigin,
 } from "./GrammarInterpreters";
 
 export enum GrammarType { Unknown, Parser, Lexer, Combined }
@@ -96,6 +103,9 @@ export class SourceContext {
         "Type action",
     ];
 
+    // The sandbox in which railroad diagram scripts are evaluated, to create SVG code without a browser.
+    private static railroadContext: vm.Context | undefined;
+
     public symbolTable: ContextSymbolTable;
     public sourceId: string;
     public info: ContextDetails = {
@@ -112,7 +122,11 @@ export class SourceContext {
     // Result related fields.
     //private diagnostics: DiagnosticEntry[] = [];
     private rrdScripts: Map<string, string>;
+    private annotatedRRDScripts: Map<string, string>; // Scripts which include labels and lexer commands.
     private semanticAnalysisDone = false; // Includes determining reference counts.
+    private atnAnalysisDone = false;
+    private atnAnalysisLexerData: InterpreterData | undefined; // The lexer data used in the last ATN analysis.
+    private atnDiagnostics: DiagnosticEntry[] = []; // The entries in the diagnostics list from the ATN analysis.
 
     // Grammar parsing infrastructure.
     private tokenStream: CommonTokenStream;
@@ -225,6 +239,94 @@ export class SourceContext {
         return result;
     }
 
+    /**
+     * Extracts the documentation comment of a lexer or parser rule (or the grammar itself). If there's more than
+     * one such comment in front of the rule then only the last one is used.
+     *
+     * @param ctx The rule or grammar context to get the documentation for.
+     *
+     * @returns The content of the comment, split into text and tags, or undefined if there's no doc comment.
+     */
+    public static documentationForContext(ctx: ParseTree | undefined): SymbolDocumentation | undefined {
+        let comments: TerminalNode[] = [];
+        if (ctx instanceof ParserRuleSpecContext || ctx instanceof LexerRuleSpecContext
+            || ctx instanceof GrammarSpecContext) {
+            comments = ctx.DOC_COMMENT();
+        }
+
+        if (comments.length === 0) {
+            return undefined;
+        }
+
+        // Remove the comment markers and the leading star (plus one space) from each line.
+        const comment = comments[comments.length - 1].text;
+        const lines = comment.substring(3, comment.length - 2).split(/\r?\n/)
+            .map((line) => line.replace(/^\s*\*? ?/, ""));
+
+        const result: SymbolDocumentation = { text: "", examples: [] };
+        const text: string[] = [];
+        let example: string[] | undefined;
+        let deprecated: string[] | undefined;
+        let current = text;
+        for (const line of lines) {
+            const match = /^\s*@(\w+)\s?(.*)$/.exec(line);
+            if (match) {
+                switch (match[1]) {
+                    case "example": {
+                        if (example) {
+                            result.examples.push(SourceContext.trimCode(example));
+                        }
+                        example = [];
+                        current = example;
+                        break;
+                    }
+
+                    case "deprecated": {
+                        deprecated = [];
+                        current = deprecated;
+                        break;
+                    }
+
+                    default: {
+                        // Other tags (e.g. @see) are shown as they are.
+                        current = text;
+                        current.push(`*@${match[1]}* ${match[2]}`);
+
+                        continue;
+                    }
+                }
+
+                if (match[2].length > 0) {
+                    current.push(match[2]);
+                }
+            } else {
+                current.push(line);
+            }
+        }
+
+        result.text = text.join("\n").trim();
+        if (example) {
+            result.examples.push(SourceContext.trimCode(example));
+        }
+
+        if (deprecated) {
+            result.deprecated = deprecated.join("\n").trim();
+        }
+
+        return result;
+    }
+
+    /**
+     * Joins the given lines and removes empty lines at both ends, but keeps the indentation of the code.
+     *
+     * @param lines The lines to join.
+     *
+     * @returns The resulting text.
+     */
+    private static trimCode(lines: string[]): string {
+        return lines.join("\n").replace(/^(\s*\n)+/, "").replace(/\s+$/, "");
+    }
+
     public symbolAtPosition(column: number, row: number, limitToChildren: boolean): SymbolInfo | undefined {
         const terminal = parseTreeFromPosition(this.tree!, column, row);
         if (!terminal || !(terminal instanceof TerminalNode)) {
@@ -629,6 +731,7 @@ export class SourceContext {
                                 source: this.fileName,
                                 definition: undefined,
                                 description: undefined,
+                                documentation: SourceContext.documentationForContext(symbol.context),
                             });
                         });
                     }
@@ -640,6 +743,7 @@ export class SourceContext {
                             source: this.fileName,
                             definition: undefined,
                             description: undefined,
+                            documentation: SourceContext.documentationForContext(symbol.context),
                         });
                     });
 
@@ -667,6 +771,7 @@ export class SourceContext {
                             source: this.fileName,
                             definition: undefined,
                             description: undefined,
+                            documentation: SourceContext.documentationForContext(symbol.context),
                         });
                     });
                     break;
@@ -770,6 +875,7 @@ export class SourceContext {
         this.grammarLexerRuleMap.clear();
 
         this.semanticAnalysisDone = false;
+        this.atnAnalysisDone = false;
         this.diagnostics.length = 0;
 
         this.symbolTable.clear();
@@ -807,17 +913,87 @@ export class SourceContext {
         const listener: DetailsListener = new DetailsListener(this.symbolTable, this.info.imports);
         ParseTreeWalker.DEFAULT.walk(listener as ParseTreeListener, this.tree);
 
-        this.info.unreferencedRules = this.symbolTable.getUnreferencedSymbols();
-
         return this.info.imports;
     }
 
-    public getDiagnostics(): DiagnosticEntry[] {
+    /**
+     * Returns all problems found in the grammar, including those from the analysis of the interpreter data.
+     *
+     * @param dependencies All source contexts on which this one depends (needed to find the lexer of a parser grammar).
+     *
+     * @returns The list of diagnostics.
+     */
+    public getDiagnostics(dependencies?: Set<SourceContext>): DiagnosticEntry[] {
         this.runSemanticAnalysisIfNeeded();
+        this.runAtnAnalysisIfNeeded(dependencies);
 
         return this.diagnostics;
     }
 
+    /**
+     * @returns Details about the grammar. Requires a semantic analysis run to determine unreferenced rules.
+     */
+    public getDetails(): ContextDetails {
+        this.runSemanticAnalysisIfNeeded();
+
+        return this.info;
+    }
+
+    /**
+     * Determines fixes for problems in the given range.
+     *
+     * @param range The range to find fixes for.
+     * @param dependencies All source contexts on which this one depends.
+     * @param searchPaths Folders in which to look for grammars which could be imported.
+     *
+     * @returns The list of fixes.
+     */
+    public getQuickFixes(range: LexicalRange, dependencies: Set<SourceContext>, searchPaths: string[]): QuickFix[] {
+        this.runSemanticAnalysisIfNeeded();
+        const provider = new QuickFixProvider(this, dependencies, searchPaths);
+
+        return provider.getQuickFixes(range);
+    }
+
+    /**
+     * Determines refactorings, which can be applied to the given range.
+     *
+     * @param range The caret position or the selection.
+     * @param dependencies All source contexts on which this one depends.
+     *
+     * @returns The list of refactorings.
+     */
+    public getRefactorings(range: LexicalRange, dependencies: Set<SourceContext>): Refactoring[] {
+        // Refactorings need a complete parse tree.
+        if (!this.parser || this.parser.numberOfSyntaxErrors > 0) {
+            return [];
+        }
+
+        this.runSemanticAnalysisIfNeeded();
+        const provider = new RefactoringProvider(this, dependencies);
+
+        return provider.getRefactorings(range);
+    }
+
+    /**
+     * Rewrites a left recursive parser rule into an iterative form.
+     *
+     * @param ruleName The rule to rewrite.
+     * @param dependencies All source contexts on which this one depends.
+     *
+     * @returns The changes to apply or undefined, if that's not possible.
+     */
+    public eliminateLeftRecursion(ruleName: string, dependencies: Set<SourceContext>): Refactoring | undefined {
+        if (!this.parser || this.parser.numberOfSyntaxErrors > 0) {
+            return undefined;
+        }
+
+        this.runSemanticAnalysisIfNeeded();
+        const provider = new RefactoringProvider(this, dependencies);
+
+        return provider.eliminateLeftRecursion(ruleName);
+    }
+
     public getReferenceGraph(): Map<string, ReferenceNode> {
         this.runSemanticAnalysisIfNeeded();
 
@@ -881,10 +1057,73 @@ export class SourceContext {
         return result;
     }
 
-    public getRRDScript(ruleName: string): string | undefined {
+    /**
+     * @returns The grammars this one depends on (imports and the token vocabulary), without resolving them.
+     */
+    public getDependencyReferences(): Array<Omit<GrammarDependency, "source" | "target">> {
+        const result: Array<Omit<GrammarDependency, "source" | "target">> = [];
+
+        const tokenVocab = this.symbolTable.getNestedSymbolsOfType(OptionSymbol)
+            .find((symbol) => symbol.name === "tokenVocab");
+        if (tokenVocab) {
+            result.push({
+                kind: GrammarDependencyKind.TokenVocab,
+                name: tokenVocab.value,
+                range: SourceContext.definitionForContext(tokenVocab.context, true)?.range,
+            });
+        }
+
+        for (const symbol of this.symbolTable.getAllSymbols(ImportSymbol, true)) {
+            result.push({
+                kind: GrammarDependencyKind.Import,
+                name: symbol.name,
+                range: SourceContext.definitionForContext(symbol.context, true)?.range,
+            });
+        }
+
+        return result;
+    }
+
+    public getModeGraph(): LexerModeGraph {
+        if (!this.tree) {
+            return { modes: [], transitions: [] };
+        }
+
+        return new LexerModeAnalyzer(this.tree).createGraph();
+    }
+
+    public getRRDScript(ruleName: string, annotated = false): string | undefined {
         this.runSemanticAnalysisIfNeeded();
 
-        return this.rrdScripts.get(ruleName);
+        return annotated ? this.annotatedRRDScripts.get(ruleName) : this.rrdScripts.get(ruleName);
+    }
+
+    /**
+     * Renders the railroad diagram of the given rule as SVG code. This does not need a browser environment, as
+     * the railroad diagrams library can produce the SVG text directly.
+     *
+     * @param ruleName The rule for which to create the diagram.
+     * @param annotated If true then the diagram also shows labels, predicates and lexer commands.
+     *
+     * @returns The SVG code or undefined if there's no such rule.
+     */
+    public getRRDSvg(ruleName: string, annotated = false): string | undefined {
+        const script = this.getRRDScript(ruleName, annotated);
+        if (!script) {
+            return undefined;
+        }
+
+        if (!SourceContext.railroadContext) {
+            const library = fs.readFileSync(path.join(__dirname, "..", "..", "..", "misc", "railroad-diagrams.js"),
+                "utf8");
+            SourceContext.railroadContext = vm.createContext({});
+            vm.runInContext(library, SourceContext.railroadContext);
+        }
+
+        // The script adds the diagram to the current HTML document, which we don't have here.
+        const code = script.replace(/\.addTo\(\)$/, ".toString()");
+
+        return vm.runInContext(code, SourceContext.railroadContext) as string;
     }
 
     /**
@@ -894,12 +1133,15 @@ export class SourceContext {
      */
     public addAsReferenceTo(context: SourceContext): void {
         // Check for mutual inclusion. References are organized like a mesh.
+        // Circular dependencies between grammars are possible, so keep track of visited contexts.
+        const visited = new Set<SourceContext>();
         const pipeline: SourceContext[] = [context];
         while (pipeline.length > 0) {
             const current = pipeline.shift();
-            if (!current) {
+            if (!current || visited.has(current)) {
                 continue;
             }
+            visited.add(current);
 
             if (current.references.indexOf(this) > -1) {
                 return; // Already in the list.
@@ -1081,6 +1323,11 @@ export class SourceContext {
                 }
             });
 
+            java.on("error", (error) => {
+                // Spawning failed (usually because Java is not installed).
+                reject(`Could not run Java: ${error.message}`);
+            });
+
             java.on("close", (code) => {
                 const parser = new ErrorParser(dependencies);
                 if (parser.convertErrorsToDiagnostics(buffer)) {
@@ -1408,6 +1655,87 @@ export class SourceContext {
         return [result, error];
     }
 
+    /**
+     * Runs the input through the lexer interpreter and collects the produced tokens together with their origin
+     * (the lexer rule which matched a token and the mode it was matched in).
+     *
+     * @param input The text to tokenize.
+     * @param actionFile The name of a file that allows executing predicates.
+     * @param dependencies The contexts this grammar depends on. For a parser grammar the lexer data is taken from
+     *                     the first of them, which has lexer interpreter data.
+     *
+     * @returns The tokens and the errors found while lexing.
+     */
+    public getTokenStream(input: string, actionFile?: string, dependencies?: Set<SourceContext>): TokenStreamResult {
+        const result: TokenStreamResult = { tokens: [], errors: [] };
+
+        // The lexer grammar is needed to look up rule definitions, not only its interpreter data.
+        let lexerContext: SourceContext | undefined = this.grammarLexerData ? this : undefined;
+        for (const dependency of dependencies ?? []) {
+            if (lexerContext) {
+                break;
+            }
+            lexerContext = dependency.grammarLexerData ? dependency : undefined;
+        }
+
+        if (!lexerContext) {
+            result.errors.push("No interpreter data available");
+
+            return result;
+        }
+
+        let predicateFunction;
+        if (actionFile) {
+            const code = fs.readFileSync(actionFile, { encoding: "utf-8" }) + `
+            const runPredicate = (predicate) => eval(predicate);
+            runPredicate;
+            `;
+
+            predicateFunction = vm.runInThisContext(code) as PredicateFunction;
+        }
+
+        const lexerData = lexerContext.grammarLexerData!;
+        const stream = CharStreams.fromString(input);
+        const lexer = new GrammarLexerInterpreter(predicateFunction, lexerContext, "<unnamed>", lexerData, stream);
+        lexer.tokenOrigins = new Map<Token, TokenOrigin>();
+        lexer.removeErrorListeners();
+        lexer.addErrorListener(new InterpreterLexerErrorListener((event: string | symbol, ...args: any[]): boolean => {
+            result.errors.push(args[0] as string);
+
+            return true;
+        }));
+
+        const tokenStream = new CommonTokenStream(lexer);
+        tokenStream.fill();
+
+        for (const token of tokenStream.getTokens()) {
+            const origin = lexer.tokenOrigins.get(token);
+            const ruleName = origin ? lexerData.ruleNames[origin.ruleIndex] : undefined;
+
+            // The channel list in interpreter data can have gaps (written as "null").
+            const channelName = lexerData.channels[token.channel];
+            result.tokens.push({
+                token: {
+                    text: token.text ?? "",
+                    type: token.type,
+                    name: lexer.vocabulary.getSymbolicName(token.type) ?? lexer.vocabulary.getDisplayName(token.type),
+                    line: token.line,
+                    offset: token.charPositionInLine,
+                    channel: token.channel,
+                    tokenIndex: token.tokenIndex,
+                    startIndex: token.startIndex,
+                    stopIndex: token.stopIndex,
+                },
+                channelName: channelName && channelName !== "null" ? channelName : String(token.channel),
+                modeName: origin ? lexerData.modes[origin.mode] : "",
+                ruleName,
+                ruleDefinition: ruleName ? lexerContext.getSymbolInfo(ruleName) : undefined,
+            });
+        }
+
+        return result;
+    }
+
     /**
      * Testing support: take the input and run it through the parser interpreter to see if it is syntactically correct.
      *
@@ -1418,10 +1746,37 @@ export class SourceContext {
      * @returns A list of errors if one occurred.
      */
     public parseTestInput(input: string, startRule: string, actionFile?: string): string[] {
-        const errors: string[] = [];
+        return this.runTestInput(input, startRule, actionFile).errors;
+    }
 
-        if (!this.grammarLexerData || !this.grammarParserData) {
-            return ["No interpreter data available"];
+    /**
+     * Testing support: runs the input through the lexer and parser interpreters and returns all produced output.
+     *
+     * @param input The text to parse.
+     * @param startRule The rule to use for the parse run.
+     * @param actionFile The name of a file that allows executing predicates/actions.
+     * @param dependencies The contexts this grammar depends on. For a parser grammar the lexer data is taken from
+     *                     the first of them, which has lexer interpreter data.
+     * @param coverage If given, receives the decisions and rules used for the input.
+     *
+     * @returns The tokens, the parse tree and the errors found while parsing.
+     */
+    public runTestInput(input: string, startRule: string, actionFile?: string, dependencies?: Set<SourceContext>,
+        coverage?: GrammarCoverage): ParseTestOutput {
+        const result: ParseTestOutput = { tokens: [], tokenDetails: [], tree: "", errors: [], syntaxErrors: [] };
+
+        let lexerData = this.grammarLexerData;
+        for (const dependency of dependencies ?? []) {
+            if (lexerData) {
+                break;
+            }
+            lexerData = dependency.grammarLexerData;
+        }
+
+        if (!lexerData || !this.grammarParserData) {
+            result.errors.push("No interpreter data available");
+
+            return result;
         }
 
         let predicateFunction;
@@ -1435,11 +1790,19 @@ export class SourceContext {
         }
 
         const eventSink = (event: string | symbol, ...args: any[]): void => {
-            errors.push(args[0]);
+            if (event === "output") {
+                result.errors.push(args[0]);
+                result.syntaxErrors.push({
+                    message: args[5] as string,
+                    line: args[2] as number,
+                    column: args[3] as number,
+                });
+            }
         };
 
         const stream = CharStreams.fromString(input);
-        const lexer = new GrammarLexerInterpreter(predicateFunction, this, "<unnamed>", this.grammarLexerData, stream);
+        const lexer = new GrammarLexerInterpreter(predicateFunction, this, "<unnamed>", lexerData, stream);
+        lexer.coverage = coverage;
         lexer.removeErrorListeners();
 
         lexer.addErrorListener(new InterpreterLexerErrorListener(eventSink));
@@ -1449,13 +1812,39 @@ export class SourceContext {
         const parser = new GrammarParserInterpreter(eventSink, predicateFunction, this, this.grammarParserData,
             tokenStream);
         parser.buildParseTree = true;
+        parser.coverage = coverage;
         parser.removeErrorListeners();
         parser.addErrorListener(new InterpreterParserErrorListener(eventSink));
 
         const startRuleIndex = parser.getRuleIndex(startRule);
-        parser.parse(startRuleIndex);
+        if (startRuleIndex < 0) {
+            result.errors.push(`Unknown start rule '${startRule}'`);
+
+            return result;
+        }
+
+        if (coverage) {
+            ++coverage.inputCount;
+        }
 
-        return errors;
+        const tree = parser.parse(startRuleIndex);
+        for (const token of tokenStream.getTokens()) {
+            result.tokens.push((token as CommonToken).toString(lexer));
+            result.tokenDetails.push({
+                text: token.text ?? "",
+                type: token.type,
+                name: lexer.vocabulary.getSymbolicName(token.type) ?? lexer.vocabulary.getDisplayName(token.type),
+                line: token.line,
+                offset: token.charPositionInLine,
+                channel: token.channel,
+                tokenIndex: token.tokenIndex,
+                startIndex: token.startIndex,
+                stopIndex: token.stopIndex,
+            });
+        }
+        result.tree = tree.toStringTree(parser);
+
+        return result;
     }
 
     public getSymbolInfo(symbol: string | Symbol): SymbolInfo | undefined {
@@ -1474,6 +1863,32 @@ export class SourceContext {
         return formatter.formatGrammar(options, start, stop);
     }
 
+    /**
+     * Internal function to provide the parse tree of the last parse run to other backend classes.
+     *
+     * @returns The root context of the grammar, if it has been parsed already.
+     */
+    public get grammarTree(): GrammarSpecContext | undefined {
+        return this.tree;
+    }
+
+    /**
+     * @returns All contexts which use this one (as import or token vocabulary), directly or indirectly.
+     */
+    public get dependents(): SourceContext[] {
+        const result: SourceContext[] = [];
+        const pipeline = [...this.references];
+        while (pipeline.length > 0) {
+            const current = pipeline.shift()!;
+            if (!result.includes(current)) {
+                result.push(current);
+                pipeline.push(...current.references);
+            }
+        }
+
+        return result;
+    }
+
     public get isInterpreterDataLoaded(): boolean {
         return this.grammarLexerData !== undefined || this.grammarParserData !== undefined;
     }
@@ -1563,6 +1978,8 @@ export class SourceContext {
             this.grammarParserData = undefined;
             this.grammarParserRuleMap.clear();
         }
+
+        this.atnAnalysisDone = false;
     }
 
     private runSemanticAnalysisIfNeeded() {
@@ -1570,11 +1987,70 @@ export class SourceContext {
             this.semanticAnalysisDone = true;
             //this.diagnostics.length = 0; Don't, we would lose our syntax errors from last parse run.
             this.rrdScripts = new Map<string, string>();
+            this.annotatedRRDScripts = new Map<string, string>();
             const semanticListener = new SemanticListener(this.diagnostics, this.symbolTable);
             ParseTreeWalker.DEFAULT.walk(semanticListener as ParseTreeListener, this.tree!);
+            this.info.unreferencedRules = this.symbolTable.getUnreferencedSymbols();
 
-            const visitor = new RuleVisitor(this.rrdScripts);
-            visitor.visit(this.tree!);
+            new RuleVisitor(this.rrdScripts).visit(this.tree!);
+            new RuleVisitor(this.annotatedRRDScripts, true).visit(this.tree!);
+
+            // The analysis needs a complete parse tree.
+            if (this.parser?.numberOfSyntaxErrors === 0) {
+                const analyzer = new GrammarAnalyzer(this.tree!, this.diagnostics);
+                analyzer.checkIndirectLeftRecursion();
+            }
+        }
+    }
+
+    /**
+     * Examines the decisions in the parser ATN and the rules in the lexer ATN, once interpreter data has been loaded.
+     * Results from a previous run are replaced, as they depend on the interpreter data, not only on the last parse run.
+     *
+     * @param dependencies The source contexts on which this one depends.
+     */
+    private runAtnAnalysisIfNeeded(dependencies?: Set<SourceContext>) {
+        // A parser grammar takes its tokens from a separate lexer, which can be regenerated independently.
+        let lexerData = this.grammarLexerData;
+        if (this.info.type === GrammarType.Parser && dependencies) {
+            for (const dependency of dependencies) {
+                if (dependency.info.type === GrammarType.Lexer) {
+                    lexerData = dependency.grammarLexerData;
+                    break;
+                }
+            }
+        }
+
+        if (!this.atnAnalysisDone || lexerData !== this.atnAnalysisLexerData) {
+            this.atnAnalysisDone = true;
+            this.atnAnalysisLexerData = lexerData;
+
+            // Modify the diagnostics list in place. Callers may hold a reference to it.
+            for (const entry of this.atnDiagnostics) {
+                const index = this.diagnostics.indexOf(entry);
+                if (index > -1) {
+                    this.diagnostics.splice(index, 1);
+                }
+            }
+
+            this.atnDiagnostics = [];
+            if (this.tree && this.parser?.numberOfSyntaxErrors === 0) {
+                const analyzer = new GrammarAnalyzer(this.tree, this.atnDiagnostics);
+                if (this.grammarParserData) {
+                    analyzer.checkDecisions(this.grammarParserData.atn, this.grammarParserData.ruleNames,
+                        this.grammarParserData.vocabulary);
+
+                    if (lexerData) {
+                        analyzer.checkParserLiterals(lexerData.atn, this.grammarParserData.vocabulary);
+                    }
+                }
+
+                if (this.grammarLexerData) {
+                    analyzer.checkLexerRules(this.grammarLexerData.atn, this.grammarLexerData.ruleNames);
+                }
+
+                this.diagnostics.push(...this.atnDiagnostics);
+            }
         }
     }
 
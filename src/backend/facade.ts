@@ -43,6 +43,9 @@ export enum SymbolKind {
 // Import modules that depend on these enums after their definition, to allow for static initializations.
 import { SourceContext, GrammarType } from "./SourceContext";
 import { GrammarDebugger } from "./GrammarDebugger";
+import { GrammarTestRunner } from "./GrammarTestRunner";
+import { GrammarCoverage } from "./GrammarCoverage";
+import { DocumentationGenerator } from "./DocumentationGenerator";
 
 /**
  * A range within a text. Just like the range object in vscode the end position is not included in the range.
@@ -59,12 +62,23 @@ export interface Definition {
     range: LexicalRange;
 }
 
+/**
+ * The content of a documentation comment (`/** ... *\/`) in front of a rule. Tags which are not handled explicitly
+ * are kept in the text.
+ */
+export interface SymbolDocumentation {
+    text: string;        // Markdown.
+    examples: string[];  // The content of all @example tags.
+    deprecated?: string; // Set (possibly to an empty string) if the rule is marked with @deprecated.
+}
+
 export interface SymbolInfo {
     kind: SymbolKind;
     name: string;
     source: string;
     definition?: Definition;
     description?: string;  // Used for code completion. Provides a small description for certain symbols.
+    documentation?: SymbolDocumentation;
 }
 
 export enum DiagnosticType {
@@ -78,6 +92,50 @@ export interface DiagnosticEntry {
     type: DiagnosticType;
     message: string;
     range: LexicalRange;
+    deprecated?: boolean; // Set for references to deprecated rules.
+}
+
+/**
+ * A text change in a grammar file. An empty range means insertion, an empty text means deletion.
+ */
+export interface GrammarEdit {
+    fileName: string;
+    range: LexicalRange;
+    text: string;
+}
+
+/**
+ * A fix for a problem in a grammar, made of edits in one or more files.
+ */
+export interface QuickFix {
+    title: string;
+    edits: GrammarEdit[];
+
+    diagnostic?: DiagnosticEntry; // The problem fixed by this entry, if any.
+    isPreferred?: boolean;        // True for the most likely fix, if there are several for a problem.
+}
+
+export enum RefactoringKind {
+    Extract,
+    Inline,
+    Rewrite,
+}
+
+/**
+ * A structural change of a grammar, which does not change the language it describes.
+ */
+export interface Refactoring {
+    kind: RefactoringKind;
+    title: string;
+    edits: GrammarEdit[];
+}
+
+/**
+ * The edits for renaming a symbol or, if the rename is not possible, the reason for that.
+ */
+export interface RenameResult {
+    edits: GrammarEdit[];
+    error?: string;
 }
 
 /**
@@ -193,6 +251,15 @@ export interface GenerationOptions {
     additionalParameters?: string;  // Any additional parameter you want to send to ANTLR4 for generation (e.g. "-XdbgST").
 }
 
+/**
+ * Options used by the grammar documentation generation.
+ */
+export interface DocumentationOptions {
+    outputDir: string;   // The folder to write the documentation files to (absolute path).
+    html?: boolean;      // Generate a static HTML page. (default: true)
+    markdown?: boolean;  // Generate a Markdown file, with the railroad diagrams as separate SVG files. (default: true)
+}
+
 /**
  * Options used by the sentence generation.
  */
@@ -322,6 +389,158 @@ export interface FormattingOptions {
 
 export type PredicateFunction = (predicate: string) => boolean;
 
+/**
+ * Options for running parse tree tests with golden files.
+ */
+export interface GrammarTestOptions {
+    startRule: string;
+    actionFile?: string;    // A file with predicate/action code, like for debugging.
+    updateGoldens?: boolean; // Write the current output as new golden files instead of comparing.
+    coverage?: GrammarCoverage; // If set, receives the decisions and rules used for the inputs.
+}
+
+/**
+ * A lexer or parser error found while running a test input.
+ */
+export interface ParseTestError {
+    message: string; // The error message, without position.
+    line: number;    // 1-based.
+    column: number;  // 0-based.
+}
+
+/**
+ * The output produced by the interpreters for a single test input.
+ */
+export interface ParseTestOutput {
+    tokens: string[];          // The token list, in the format used by the ANTLR4 TestRig.
+    tokenDetails: LexerToken[]; // The same tokens, with their names and positions.
+    tree: string;              // The parse tree in LISP format.
+    errors: string[];
+    syntaxErrors: ParseTestError[];
+}
+
+/**
+ * The content of an expectation file for a test input. Positions are 1-based (as shown in error messages)
+ * and the message is a regular expression. Tokens are given by their names, only for the default channel and
+ * without EOF.
+ */
+export interface GrammarTestExpectation {
+    errors?: Array<{ line?: number; column?: number; message?: string }>;
+    tokens?: string[];
+}
+
+/**
+ * The outcome of a single parse tree test.
+ */
+export interface GrammarTestResult {
+    inputFile: string;
+    passed: boolean;
+    output: ParseTestOutput;
+    expectedTokens?: string; // The content of the token golden file, if there is one.
+    expectedTree?: string;   // The content of the tree golden file, if there is one.
+    messages: string[];      // A description of each found difference or problem.
+    diagnostics: DiagnosticEntry[]; // Problems located in the input file.
+    updated: boolean;        // True if the golden files were (re)written.
+}
+
+/**
+ * Coverage details for an alternative in a rule (or an optional/repeated element).
+ */
+export interface AlternativeCoverage {
+    range: LexicalRange;
+    hits: number;
+}
+
+/**
+ * Coverage details for a single rule.
+ */
+export interface RuleCoverage {
+    name: string;
+    fileName: string; // The grammar which contains the rule.
+    isLexerRule: boolean;
+    range: LexicalRange;
+    hits: number;     // How often a parser rule was entered or a lexer rule matched a token.
+    alternatives: AlternativeCoverage[]; // Only for parser rules and only for alternatives which form a decision.
+}
+
+export interface GrammarCoverageReport {
+    inputCount: number;
+    rules: RuleCoverage[];
+}
+
+/**
+ * A single token in a token stream view, with all the details needed to find its source.
+ */
+export interface TokenStreamEntry {
+    token: LexerToken;
+    channelName: string;
+    modeName: string;
+    ruleName?: string;      // The lexer rule which matched the token (not set for EOF).
+    ruleDefinition?: SymbolInfo;
+}
+
+export interface TokenStreamResult {
+    tokens: TokenStreamEntry[];
+    errors: string[];
+}
+
+export enum ModeTransitionKind {
+    Push,
+    Pop,
+    Switch, // The mode command, which replaces the current mode.
+}
+
+/**
+ * A lexer command in a lexer rule, which changes the lexer mode.
+ */
+export interface ModeTransition {
+    kind: ModeTransitionKind;
+    source: string;      // The mode containing the rule.
+    target?: string;     // Not set for popMode.
+    rule: string;
+    range: LexicalRange; // The range of the command.
+}
+
+export interface LexerModeInfo {
+    name: string;
+    range?: LexicalRange;      // The mode name in the mode declaration (not set for the default mode).
+    reachable: boolean;        // Can be entered, starting in the default mode.
+    pushedWithoutPop: boolean; // Entered by pushMode, but never popped.
+}
+
+export interface LexerModeGraph {
+    modes: LexerModeInfo[];
+    transitions: ModeTransition[];
+}
+
+export enum GrammarDependencyKind {
+    Import,
+    TokenVocab,
+}
+
+/**
+ * An import statement or a tokenVocab option in a grammar.
+ */
+export interface GrammarDependency {
+    kind: GrammarDependencyKind;
+    name: string;          // The grammar name as used in the source grammar.
+    source: string;        // The file name of the grammar which contains the dependency.
+    target?: string;       // The file name of the referenced grammar. Not set if no such file could be found.
+    range?: LexicalRange;  // The grammar name in the import statement or option.
+}
+
+export interface GrammarDependencyNode {
+    fileName: string;
+    name: string;
+    type: GrammarType;
+}
+
+export interface GrammarDependencyGraph {
+    grammars: GrammarDependencyNode[];
+    dependencies: GrammarDependency[];
+    cycles: string[][]; // Groups of grammars (file names) which depend on each other.
+}
+
 export interface ContextDetails {
     type: GrammarType;
     unreferencedRules: string[];
@@ -332,6 +551,12 @@ export interface SelfDiagnostics {
     contextCount: number;
 }
 
+// Words which cannot be used as names for rules, tokens, modes or channels.
+const reservedWords = new Set([
+    "catch", "channels", "finally", "fragment", "grammar", "import", "lexer", "locals", "mode", "options", "parser",
+    "returns", "throws", "tokens",
+]);
+
 interface ContextEntry {
     context: SourceContext;
     refCount: number;
@@ -532,7 +757,68 @@ export class AntlrFacade {
     public getDiagnostics(fileName: string): DiagnosticEntry[] {
         const context = this.getContext(fileName);
 
-        return context.getDiagnostics();
+        const dependencies = new Set<SourceContext>();
+        this.pushDependencyFiles(this.sourceContexts.get(fileName)!, dependencies);
+
+        return context.getDiagnostics(dependencies);
+    }
+
+    /**
+     * Determines fixes for problems in the given range of a grammar, like creating a missing rule, as well as
+     * other small improvements (e.g. removing an unused rule).
+     *
+     * @param fileName The grammar file.
+     * @param range The range for which to find fixes (usually the caret position or the selection).
+     *
+     * @returns The list of fixes.
+     */
+    public getQuickFixes(fileName: string, range: LexicalRange): QuickFix[] {
+        const context = this.getContext(fileName);
+
+        const dependencies = new Set<SourceContext>();
+        this.pushDependencyFiles(this.sourceContexts.get(fileName)!, dependencies);
+
+        // Grammars to import are searched in the same places as dependencies.
+        const basePath = path.dirname(fileName);
+        const searchPaths = [path.isAbsolute(this.importDir) ? this.importDir : path.join(basePath, this.importDir)];
+        searchPaths.push(basePath);
+
+        return context.getQuickFixes(range, dependencies, searchPaths);
+    }
+
+    /**
+     * Determines refactorings (extract or inline rules, introduce tokens etc.), which can be applied at the given
+     * range.
+     *
+     * @param fileName The grammar file name.
+     * @param range The caret position or the selection.
+     *
+     * @returns The list of refactorings.
+     */
+    public getRefactorings(fileName: string, range: LexicalRange): Refactoring[] {
+        const context = this.getContext(fileName);
+
+        const dependencies = new Set<SourceContext>();
+        this.pushDependencyFiles(this.sourceContexts.get(fileName)!, dependencies);
+
+        return context.getRefactorings(range, dependencies);
+    }
+
+    /**
+     * Rewrites a left recursive parser rule into an iterative form.
+     *
+     * @param fileName The grammar file name.
+     * @param ruleName The rule to rewrite.
+     *
+     * @returns The changes to apply or undefined, if the rule is not left recursive or cannot be rewritten.
+     */
+    public eliminateLeftRecursion(fileName: string, ruleName: string): Refactoring | undefined {
+        const context = this.getContext(fileName);
+
+        const dependencies = new Set<SourceContext>();
+        this.pushDependencyFiles(this.sourceContexts.get(fileName)!, dependencies);
+
+        return context.eliminateLeftRecursion(ruleName, dependencies);
     }
 
     public ruleFromPosition(fileName: string, column: number, row: number): [string | undefined, number | undefined] {
@@ -572,6 +858,158 @@ export class AntlrFacade {
         return result.sort((lhs: SymbolInfo, rhs: SymbolInfo) => lhs.kind - rhs.kind);
     }
 
+    /**
+     * Determines source file and position of all occurrences of the given symbol in the grammar which defines it
+     * and in all loaded grammars which use that grammar (directly or indirectly, via imports or the tokenVocab
+     * option). Unlike `getSymbolOccurrences` this also finds occurrences in grammars which depend on the given one.
+     *
+     * @param fileName The grammar file name.
+     * @param symbolName The name of the symbol to check.
+     *
+     * @returns A list of symbol info entries, each describing one occurrence.
+     */
+    public getWorkspaceSymbolOccurrences(fileName: string, symbolName: string): SymbolInfo[] {
+        const info = this.infoForSymbol(fileName, symbolName);
+        if (!info || !info.definition) {
+            // Unknown or built-in symbol.
+            return this.getSymbolOccurrences(fileName, symbolName);
+        }
+
+        const result: SymbolInfo[] = [];
+        for (const entry of this.sourceContexts.values()) {
+            let usesDefinition = entry.grammar === info.source;
+            if (!usesDefinition) {
+                const dependencies = new Set<SourceContext>();
+                this.pushDependencyFiles(entry, dependencies);
+                usesDefinition = [...dependencies].some((dependency) => dependency.fileName === info.source);
+            }
+
+            if (usesDefinition) {
+                result.push(...entry.context.symbolTable.getSymbolOccurrences(symbolName, true));
+            }
+        }
+
+        // Sort result by kind. This way rule definitions appear before rule references and are re-parsed first.
+        return result.sort((lhs: SymbolInfo, rhs: SymbolInfo) => lhs.kind - rhs.kind);
+    }
+
+    /**
+     * Renames a rule, token, mode or channel in the grammar which defines it and in all loaded grammars which use
+     * that grammar. The new name must follow the naming rules of ANTLR4 (e.g. tokens start with an uppercase letter)
+     * and must not be used already in any of the affected grammars.
+     *
+     * @param fileName The grammar file name.
+     * @param symbolName The name of the symbol to rename.
+     * @param newName The new name for the symbol.
+     *
+     * @returns The edits for all affected grammars or the reason why the rename would break a grammar.
+     */
+    public renameSymbol(fileName: string, symbolName: string, newName: string): RenameResult {
+        const info = this.infoForSymbol(fileName, symbolName);
+        if (!info || !info.definition) {
+            return { edits: [], error: `'${symbolName}' is not defined in a grammar and cannot be renamed` };
+        }
+
+        let pattern: RegExp;
+        let rule: string;
+        switch (info.kind) {
+            case SymbolKind.LexerRule:
+            case SymbolKind.FragmentLexerToken:
+            case SymbolKind.VirtualLexerToken: {
+                pattern = /^[A-Z][a-zA-Z0-9_]*$/;
+                rule = "token names must start with an uppercase letter";
+                break;
+            }
+
+            case SymbolKind.ParserRule: {
+                pattern = /^[a-z][a-zA-Z0-9_]*$/;
+                rule = "parser rule names must start with a lowercase letter";
+                break;
+            }
+
+            case SymbolKind.LexerMode:
+            case SymbolKind.TokenChannel: {
+                pattern = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+                rule = "names must start with a letter";
+                break;
+            }
+
+            default: {
+                return { edits: [], error: "Only rules, tokens, modes and channels can be renamed" };
+            }
+        }
+
+        if (!pattern.test(newName)) {
+            return {
+                edits: [],
+                error: `'${newName}' is not a valid name: ${rule} and consist of letters, digits and underscores`,
+            };
+        }
+
+        if (reservedWords.has(newName)) {
+            return { edits: [], error: `'${newName}' is a reserved word` };
+        }
+
+        if (newName === symbolName) {
+            return { edits: [] };
+        }
+
+        const occurrences = this.getWorkspaceSymbolOccurrences(fileName, symbolName);
+        const grammars = new Set(occurrences.map((occurrence) => occurrence.source));
+        grammars.add(info.source);
+        for (const grammar of grammars) {
+            const existing = this.infoForSymbol(grammar, newName);
+            if (existing) {
+                return {
+                    edits: [],
+                    error: existing.definition
+                        ? `'${newName}' is already defined in ${path.basename(existing.source)}`
+                        : `'${newName}' is a built-in symbol`,
+                };
+            }
+        }
+
+        const edits: GrammarEdit[] = [];
+        for (const occurrence of occurrences) {
+            if (occurrence.definition) {
+                const start = occurrence.definition.range.start;
+                edits.push({
+                    fileName: occurrence.source,
+                    range: { start, end: { column: start.column + symbolName.length, row: start.row } },
+                    text: newName,
+                });
+            }
+        }
+
+        return { edits };
+    }
+
+    /**
+     * Searches the symbols defined in all loaded grammars.
+     *
+     * @param query The text to search for. Symbols match if their name contains this text (ignoring case).
+     *
+     * @returns All matching rules, tokens, modes and channels.
+     */
+    public findWorkspaceSymbols(query: string): SymbolInfo[] {
+        const result: SymbolInfo[] = [];
+        const text = query.toLowerCase();
+        for (const entry of this.sourceContexts.values()) {
+            for (const symbol of entry.context.listTopLevelSymbols(true)) {
+                if (!symbol.definition || symbol.source !== entry.grammar || symbol.kind === SymbolKind.Import
+                    || symbol.kind === SymbolKind.TokenVocab) {
+                    continue;
+                }
+
+                if (symbol.name.toLowerCase().includes(text)) {
+                    result.push(symbol);
+                }
+            }
+        }
+
+        return result;
+    }
+
     public getDependencies(fileName: string): string[] {
         const entry = this.sourceContexts.get(fileName);
         if (!entry) {
@@ -594,10 +1032,110 @@ export class AntlrFacade {
         return context.getReferenceGraph();
     }
 
-    public getRRDScript(fileName: string, rule: string): string {
+    public getRRDScript(fileName: string, rule: string, annotated = false): string {
+        const context = this.getContext(fileName);
+
+        return context.getRRDScript(rule, annotated) || "";
+    }
+
+    /**
+     * Renders the railroad diagram of a rule as SVG code, without the need for a webview.
+     *
+     * @param fileName The grammar file name.
+     * @param rule The rule to render.
+     * @param annotated If true then the diagram also shows labels, predicates and lexer commands.
+     *
+     * @returns The SVG code or undefined if the rule doesn't exist.
+     */
+    public getRRDSvg(fileName: string, rule: string, annotated = false): string | undefined {
+        const context = this.getContext(fileName);
+
+        return context.getRRDSvg(rule, annotated);
+    }
+
+    /**
+     * Writes the railroad diagrams of all rules in a grammar as stand-alone SVG files, plus an HTML index page.
+     *
+     * @param fileName The grammar file name.
+     * @param outputDir The folder to write the files to.
+     *
+     * @returns The names of the written files, with the index page as last entry.
+     */
+    public exportRRDDiagrams(fileName: string, outputDir: string): string[] {
+        const context = this.getContext(fileName);
+
+        return new DocumentationGenerator(context).exportDiagrams(outputDir);
+    }
+
+    /**
+     * Writes a reference documentation for a grammar, with a section for each rule (containing its doc comment,
+     * railroad diagram and the rules it uses or is used by) and the token definitions.
+     *
+     * @param fileName The grammar file name.
+     * @param options The output folder and formats.
+     *
+     * @returns The names of the generated documentation files (not including the diagram images).
+     */
+    public generateDocumentation(fileName: string, options: DocumentationOptions): string[] {
+        const context = this.getContext(fileName);
+
+        return new DocumentationGenerator(context).generate(options);
+    }
+
+    /**
+     * Determines the lexer modes of a grammar and how the lexer rules switch between them.
+     *
+     * @param fileName The grammar file name.
+     *
+     * @returns The modes and the transitions between them.
+     */
+    public getModeGraph(fileName: string): LexerModeGraph {
         const context = this.getContext(fileName);
 
-        return context.getRRDScript(rule) || "";
+        return context.getModeGraph();
+    }
+
+    /**
+     * Determines how the given grammars depend on each other, via imports and the tokenVocab option. Grammars which
+     * are referenced by the given grammars are included, even if they are not in the list.
+     *
+     * @param fileNames The grammars to start with (usually all grammars in a workspace).
+     *
+     * @returns All involved grammars, their dependencies and any circular dependencies between them.
+     */
+    public getDependencyGraph(fileNames: string[]): GrammarDependencyGraph {
+        const graph: GrammarDependencyGraph = { grammars: [], dependencies: [], cycles: [] };
+
+        const loaded: string[] = [];
+        const pipeline = [...fileNames];
+        try {
+            while (pipeline.length > 0) {
+                const fileName = pipeline.shift()!;
+                if (loaded.includes(fileName)) {
+                    continue;
+                }
+
+                const context = this.loadGrammar(fileName);
+                loaded.push(fileName);
+                graph.grammars.push({ fileName, name: context.sourceId, type: context.info.type });
+
+                for (const reference of context.getDependencyReferences()) {
+                    const target = this.resolveDependency(fileName, reference.name);
+                    graph.dependencies.push({ ...reference, source: fileName, target });
+                    if (target) {
+                        pipeline.push(target);
+                    }
+                }
+            }
+        } finally {
+            for (const fileName of loaded) {
+                this.releaseGrammar(fileName);
+            }
+        }
+
+        graph.cycles = this.findCycles(graph);
+
+        return graph;
     }
 
     public generate(fileName: string, options: GenerationOptions): Promise<string[]> {
@@ -644,12 +1182,86 @@ export class AntlrFacade {
         return context.lexTestInput(input, actionFile);
     }
 
+    /**
+     * Runs the input through the lexer interpreter of the given grammar (or the lexer grammar it depends on)
+     * and returns all tokens, including those on hidden channels.
+     *
+     * @param fileName The name of the grammar. Its interpreter data must already be loaded.
+     * @param input The text to tokenize.
+     * @param actionFile The name of a file that allows executing predicates.
+     *
+     * @returns The tokens with their origins and the errors reported by the lexer.
+     */
+    public getTokenStream(fileName: string, input: string, actionFile?: string): TokenStreamResult {
+        const context = this.getContext(fileName);
+
+        const dependencies = new Set<SourceContext>();
+        this.pushDependencyFiles(this.sourceContexts.get(fileName)!, dependencies);
+
+        return context.getTokenStream(input, actionFile, dependencies);
+    }
+
     public parseTestInput(fileName: string, input: string, startRule: string, actionFile?: string): string[] {
         const context = this.getContext(fileName);
 
         return context.parseTestInput(input, startRule, actionFile);
     }
 
+    /**
+     * Runs all input files in the given folder through the interpreters of the given grammar and compares the
+     * output with the golden files next to each input.
+     *
+     * @param fileName The name of the grammar to test. Its interpreter data (and that of its dependencies) must
+     *                 already be loaded.
+     * @param folder The folder containing the test input files.
+     * @param options Details for the test run.
+     *
+     * @returns A result for each input file.
+     */
+    public runGrammarTests(fileName: string, folder: string, options: GrammarTestOptions): GrammarTestResult[] {
+        const context = this.getContext(fileName);
+
+        const dependencies = new Set<SourceContext>();
+        this.pushDependencyFiles(this.sourceContexts.get(fileName)!, dependencies);
+
+        return GrammarTestRunner.runTests(context, dependencies, folder, options);
+    }
+
+    /**
+     * Same as `runGrammarTests`, but for a single input file.
+     *
+     * @param fileName The name of the grammar to test.
+     * @param inputFile The test input file.
+     * @param options Details for the test run.
+     *
+     * @returns The result for the input file.
+     */
+    public runGrammarTest(fileName: string, inputFile: string, options: GrammarTestOptions): GrammarTestResult {
+        const context = this.getContext(fileName);
+
+        const dependencies = new Set<SourceContext>();
+        this.pushDependencyFiles(this.sourceContexts.get(fileName)!, dependencies);
+
+        return GrammarTestRunner.runTest(context, dependencies, inputFile, options);
+    }
+
+    /**
+     * Maps coverage data, which was collected by running tests, to the rules and alternatives of a grammar.
+     *
+     * @param fileName The name of the tested grammar.
+     * @param coverage The collected data.
+     *
+     * @returns The coverage report.
+     */
+    public getCoverageReport(fileName: string, coverage: GrammarCoverage): GrammarCoverageReport {
+        const context = this.getContext(fileName);
+
+        const dependencies = new Set<SourceContext>();
+        this.pushDependencyFiles(this.sourceContexts.get(fileName)!, dependencies);
+
+        return coverage.createReport(context, dependencies);
+    }
+
     public formatGrammar(fileName: string, options: FormattingOptions, start: number,
         stop: number): [string, number, number] {
         const context = this.getContext(fileName);
@@ -689,61 +1301,51 @@ export class AntlrFacade {
     public getContextDetails(fileName: string): ContextDetails {
         const context = this.getContext(fileName);
 
-        return context.info;
+        return context.getDetails();
     }
 
     private loadDependency(contextEntry: ContextEntry, depName: string): SourceContext | undefined {
-        // The given import dir is used to locate the dependency (either relative to the base path or via an
-        // absolute path).
-        // If we cannot find the grammar file that way we try the base folder.
-        const basePath = path.dirname(contextEntry.grammar);
-        const fullPath = path.isAbsolute(this.importDir) ? this.importDir : path.join(basePath, this.importDir);
-        try {
-            const depPath = path.join(fullPath, depName + ".g4");
-            fs.accessSync(depPath, fs.constants.R_OK);
-            // Target path can be read. Now check the target file.
-            contextEntry.dependencies.push(depPath);
-
-            return this.loadGrammar(depPath);
-        } catch (e) {
-            // ignore
+        const depPath = this.resolveDependency(contextEntry.grammar, depName);
+        if (!depPath) {
+            // Ignore the dependency if we cannot find the source file for it.
+            return undefined;
         }
 
-        // File not found. Try other extension.
-        try {
-            const depPath = path.join(fullPath, depName + ".g");
-            fs.accessSync(depPath, fs.constants.R_OK);
-            // Target path can be read. Now check the target file.
-            contextEntry.dependencies.push(depPath);
-
-            return this.loadGrammar(depPath);
-        } catch (e) {
-            // ignore
-        }
+        contextEntry.dependencies.push(depPath);
 
-        // Couldn't find it in the import folder. Use the base then.
-        try {
-            const depPath = path.join(basePath, depName + ".g4");
-            fs.statSync(depPath);
-            contextEntry.dependencies.push(depPath);
-
-            return this.loadGrammar(depPath);
-        } catch (e) {
-            // ignore
-        }
-
-        try {
-            const depPath = path.join(basePath, depName + ".g");
-            fs.statSync(depPath);
-            contextEntry.dependencies.push(depPath);
-
-            return this.loadGrammar(depPath);
-        } catch (e) {
-            // ignore
-        }
+        return this.loadGrammar(depPath);
+    }
 
-        // Ignore the dependency if we cannot find the source file for it.
-        return undefined;
+    /**
+     * Determines the file name of a grammar used by another grammar.
+     *
+     * @param grammar The file name of the grammar with the dependency.
+     * @param depName The name of the used grammar.
+     *
+     * @returns The full path of the used grammar or undefined if no such file exists.
+     */
+    private resolveDependency(grammar: string, depName: string): string | undefined {
+        // The given import dir is used to locate the dependency (either relative to the base path or via an
+        // absolute path).
+        // If we cannot find the grammar file that way we try the base folder.
+        const basePath = path.dirname(grammar);
+        const fullPath = path.isAbsolute(this.importDir) ? this.importDir : path.join(basePath, this.importDir);
+        const candidates = [
+            path.join(fullPath, depName + ".g4"),
+            path.join(fullPath, depName + ".g"), // File not found. Try other extension.
+            path.join(basePath, depName + ".g4"), // Couldn't find it in the import folder. Use the base then.
+            path.join(basePath, depName + ".g"),
+        ];
+
+        return candidates.find((candidate) => {
+            try {
+                fs.accessSync(candidate, fs.constants.R_OK);
+
+                return true;
+            } catch (e) {
+                return false;
+            }
+        });
     }
 
     private parseGrammar(contextEntry: ContextEntry) {
@@ -783,16 +1385,69 @@ export class AntlrFacade {
         }
     }
 
-    private pushDependencyFiles(entry: ContextEntry, contexts: Set<SourceContext>) {
+    private pushDependencyFiles(entry: ContextEntry, contexts: Set<SourceContext>,
+        visited = new Set<ContextEntry>()) {
         // Using a set for the context list here, to automatically exclude duplicates.
+        // The visited set protects against circular dependencies.
+        visited.add(entry);
         for (const dep of entry.dependencies) {
             const depEntry = this.sourceContexts.get(dep);
-            if (depEntry) {
-                this.pushDependencyFiles(depEntry, contexts);
+            if (depEntry && !visited.has(depEntry)) {
+                this.pushDependencyFiles(depEntry, contexts, visited);
                 contexts.add(depEntry.context);
             }
         }
     }
 
+    /**
+     * Finds the strongly connected components in a dependency graph (using Tarjan's algorithm).
+     *
+     * @param graph The graph to examine.
+     *
+     * @returns All groups of grammars which directly or indirectly depend on each other.
+     */
+    private findCycles(graph: GrammarDependencyGraph): string[][] {
+        const cycles: string[][] = [];
+
+        const indexes = new Map<string, number>();
+        const lowLinks = new Map<string, number>();
+        const stack: string[] = [];
+        const visit = (fileName: string) => {
+            indexes.set(fileName, indexes.size);
+            lowLinks.set(fileName, indexes.get(fileName)!);
+            stack.push(fileName);
+
+            for (const dependency of graph.dependencies) {
+                if (dependency.source !== fileName || !dependency.target) {
+                    continue;
+                }
+
+                if (!indexes.has(dependency.target)) {
+                    visit(dependency.target);
+                    lowLinks.set(fileName, Math.min(lowLinks.get(fileName)!, lowLinks.get(dependency.target)!));
+                } else if (stack.includes(dependency.target)) {
+                    lowLinks.set(fileName, Math.min(lowLinks.get(fileName)!, indexes.get(dependency.target)!));
+                }
+            }
+
+            if (lowLinks.get(fileName) === indexes.get(fileName)) {
+                const component = stack.splice(stack.indexOf(fileName));
+                const selfReference = graph.dependencies.some((dependency) => dependency.source === fileName
+                    && dependency.target === fileName);
+                if (component.length > 1 || selfReference) {
+                    cycles.push(component);
+                }
+            }
+        };
+
+        for (const grammar of graph.grammars) {
+            if (!indexes.has(grammar.fileName)) {
+                visit(grammar.fileName);
+            }
+        }
+
+        return cycles;
+    }
+
 
 }
@@ -0,0 +1,185 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+
+import { AntlrFacade, DiagnosticEntry, DiagnosticType } from "../backend/facade";
+
+/**
+ * Settings that control a check run.
+ */
+export interface CheckOptions {
+    /** Run the ANTLR4 tool on each grammar too, to get its full set of diagnostics (requires Java). */
+    generate?: boolean;
+
+    /** The folder for the generated files. Uses a temporary folder, which is removed afterwards, if not given. */
+    outputDir?: string;
+
+    /** The folder to search for imported grammars and token vocabularies (passed on to ANTLR4). */
+    libDir?: string;
+
+    /** The target language used for generation. */
+    language?: string;
+
+    /** An alternative ANTLR4 jar to use for generation. */
+    alternativeJar?: string;
+
+    /** If set, the railroad diagrams of each checked grammar are written to a sub folder (named after the grammar). */
+    rrdDir?: string;
+}
+
+/**
+ * The diagnostics found for a single grammar file.
+ */
+export interface GrammarCheckResult {
+    fileName: string;
+    diagnostics: DiagnosticEntry[];
+}
+
+/**
+ * Runs the backend checks on a list of grammar files, without any UI involved.
+ */
+export class GrammarChecker {
+
+    public constructor(private backend: AntlrFacade, private options: CheckOptions = {}) { }
+
+    /**
+     * Searches the given paths for grammar files. Folders are scanned recursively.
+     *
+     * @param paths A list of files and folders.
+     *
+     * @returns The full paths of all found grammar files.
+     */
+    public static collectGrammarFiles(paths: string[]): string[] {
+        const result: string[] = [];
+
+        const scan = (entry: string) => {
+            const stats = fs.statSync(entry);
+            if (stats.isDirectory()) {
+                for (const child of fs.readdirSync(entry).sort()) {
+                    const childPath = path.join(entry, child);
+                    if (fs.statSync(childPath).isDirectory() || GrammarChecker.isGrammarFile(childPath)) {
+                        scan(childPath);
+                    }
+                }
+            } else {
+                result.push(path.resolve(entry));
+            }
+        };
+
+        for (const entry of paths) {
+            scan(entry);
+        }
+
+        return result;
+    }
+
+    private static isGrammarFile(fileName: string): boolean {
+        const extension = path.extname(fileName);
+
+        return extension === ".g4" || extension === ".g";
+    }
+
+    /**
+     * Checks all given grammars. Each grammar is loaded together with its dependencies (imports + token vocabulary).
+     * Dependencies which are not in the file list are checked too, as they influence the main grammar.
+     *
+     * @param fileNames The full paths of the grammars to check.
+     *
+     * @returns A list of results, one per checked file, in the order of first appearance.
+     */
+    public async check(fileNames: string[]): Promise<GrammarCheckResult[]> {
+        const results = new Map<string, GrammarCheckResult>();
+
+        for (const fileName of fileNames) {
+            if (!fs.existsSync(fileName)) {
+                throw new Error(`Cannot find grammar file ${fileName}`);
+            }
+            this.backend.loadGrammar(fileName);
+        }
+
+        let outputDir = this.options.outputDir;
+        if (this.options.generate && !outputDir) {
+            outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "antlr4-"));
+        }
+
+        try {
+            for (const fileName of fileNames) {
+                const participants = [fileName, ...this.backend.getDependencies(fileName)];
+                if (this.options.generate) {
+                    await this.backend.generate(fileName, {
+                        baseDir: path.dirname(fileName),
+                        libDir: this.options.libDir,
+                        outputDir: path.join(outputDir!, path.basename(fileName, path.extname(fileName))),
+                        language: this.options.language,
+                        alternativeJar: this.options.alternativeJar,
+                    });
+                }
+
+                if (this.options.rrdDir) {
+                    this.backend.exportRRDDiagrams(fileName,
+                        path.join(this.options.rrdDir, path.basename(fileName, path.extname(fileName))));
+                }
+
+                for (const participant of participants) {
+                    if (!results.has(participant)) {
+                        results.set(participant, {
+                            fileName: participant,
+                            diagnostics: [
+                                ...this.backend.getDiagnostics(participant),
+                                ...this.unresolvedDependencies(participant),
+                            ],
+                        });
+                    }
+                }
+            }
+        } finally {
+            if (outputDir && !this.options.outputDir) {
+                fs.removeSync(outputDir);
+            }
+
+            for (const fileName of fileNames) {
+                this.backend.releaseGrammar(fileName);
+            }
+        }
+
+        return Array.from(results.values());
+    }
+
+    /**
+     * Creates diagnostics for all imports and token vocabularies of the given grammar, which could not be loaded.
+     *
+     * @param fileName The grammar to check.
+     *
+     * @returns One warning per dependency that could not be resolved.
+     */
+    private unresolvedDependencies(fileName: string): DiagnosticEntry[] {
+        const result: DiagnosticEntry[] = [];
+
+        const loaded = this.backend.getDependencies(fileName).map(
+            (dependency) => path.basename(dependency, path.extname(dependency)),
+        );
+
+        for (const name of this.backend.getContextDetails(fileName).imports) {
+            if (!loaded.includes(name)) {
+                const info = this.backend.infoForSymbol(fileName, name);
+                result.push({
+                    type: DiagnosticType.Warning,
+                    message: `Cannot find the grammar file for dependency '${name}'`,
+                    range: info?.definition?.range ?? {
+                        start: { column: 0, row: 1 },
+                        end: { column: 0, row: 1 },
+                    },
+                });
+            }
+        }
+
+        return result;
+    }
+}
@@ -0,0 +1,161 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as path from "path";
+import { pathToFileURL } from "url";
+
+import { DiagnosticEntry, DiagnosticType } from "../backend/facade";
+import { GrammarCheckResult } from "./GrammarChecker";
+
+export type ReportFormat = "text" | "json" | "sarif";
+
+/**
+ * Converts check results to one of the supported output formats.
+ * Note: rows in the backend are one-based while columns are zero-based. All formats here use one-based columns too.
+ */
+export class ReportFormatter {
+
+    private static readonly severityNames = ["hint", "info", "warning", "error"];
+    private static readonly sarifLevels = ["note", "note", "warning", "error"];
+
+    /**
+     * Renders the given results in the requested format.
+     *
+     * @param results The results to render.
+     * @param format The output format.
+     * @param baseDir Used to make file names relative in the text output and in the SARIF artifact locations.
+     *
+     * @returns The rendered report.
+     */
+    public static format(results: GrammarCheckResult[], format: ReportFormat, baseDir = process.cwd()): string {
+        switch (format) {
+            case "json": {
+                return ReportFormatter.asJSON(results);
+            }
+
+            case "sarif": {
+                return ReportFormatter.asSARIF(results, baseDir);
+            }
+
+            default: {
+                return ReportFormatter.asText(results, baseDir);
+            }
+        }
+    }
+
+    /**
+     * Counts the diagnostics of the given severity in all results.
+     *
+     * @param results The results to examine.
+     * @param type The diagnostic type to count.
+     *
+     * @returns The number of matching diagnostics.
+     */
+    public static count(results: GrammarCheckResult[], type: DiagnosticType): number {
+        let count = 0;
+        for (const result of results) {
+            count += result.diagnostics.filter((entry) => entry.type === type).length;
+        }
+
+        return count;
+    }
+
+    private static asText(results: GrammarCheckResult[], baseDir: string): string {
+        const lines: string[] = [];
+        for (const result of results) {
+            const fileName = path.relative(baseDir, result.fileName);
+            for (const entry of ReportFormatter.sorted(result.diagnostics)) {
+                const start = entry.range.start;
+                lines.push(`${fileName}:${start.row}:${start.column + 1}: ` +
+                    `${ReportFormatter.severityNames[entry.type]}: ${entry.message}`);
+            }
+        }
+
+        const errors = ReportFormatter.count(results, DiagnosticType.Error);
+        const warnings = ReportFormatter.count(results, DiagnosticType.Warning);
+        lines.push(`${results.length} file(s) checked, ${errors} error(s), ${warnings} warning(s)`);
+
+        return lines.join("\n");
+    }
+
+    private static asJSON(results: GrammarCheckResult[]): string {
+        const files = results.map((result) => ({
+            fileName: result.fileName,
+            diagnostics: ReportFormatter.sorted(result.diagnostics).map((entry) => ({
+                severity: ReportFormatter.severityNames[entry.type],
+                message: entry.message,
+                range: {
+                    start: { line: entry.range.start.row, column: entry.range.start.column + 1 },
+                    end: { line: entry.range.end.row, column: entry.range.end.column + 1 },
+                },
+            })),
+        }));
+
+        return JSON.stringify(files, undefined, 4);
+    }
+
+    /**
+     * Creates a SARIF 2.1.0 log with a single run.
+     *
+     * @param results The results to render.
+     * @param baseDir The folder to which artifact locations are relative.
+     *
+     * @returns The SARIF log as JSON string.
+     */
+    private static asSARIF(results: GrammarCheckResult[], baseDir: string): string {
+        const sarifResults = [];
+        for (const result of results) {
+            const uri = path.relative(baseDir, result.fileName).split(path.sep).join("/");
+            for (const entry of ReportFormatter.sorted(result.diagnostics)) {
+                sarifResults.push({
+                    level: ReportFormatter.sarifLevels[entry.type],
+                    message: { text: entry.message },
+                    locations: [{
+                        physicalLocation: {
+                            artifactLocation: { uri, uriBaseId: "SRCROOT" },
+                            region: {
+                                startLine: Math.max(entry.range.start.row, 1),
+                                startColumn: entry.range.start.column + 1,
+                                endLine: Math.max(entry.range.end.row, entry.range.start.row, 1),
+                                endColumn: entry.range.end.column + 1,
+                            },
+                        },
+                    }],
+                });
+            }
+        }
+
+        const log = {
+            $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+            version: "2.1.0",
+            runs: [{
+                tool: {
+                    driver: {
+                        name: "antlr4-check",
+                        informationUri: "https://github.com/mike-lischke/vscode-antlr4",
+                    },
+                },
+                originalUriBaseIds: {
+                    SRCROOT: { uri: pathToFileURL(baseDir + path.sep).href },
+                },
+                results: sarifResults,
+            }],
+        };
+
+        return JSON.stringify(log, undefined, 4);
+    }
+
+    private static sorted(diagnostics: DiagnosticEntry[]): DiagnosticEntry[] {
+        return diagnostics.slice().sort((lhs, rhs) => {
+            if (lhs.range.start.row === rhs.range.start.row) {
+                return lhs.range.start.column - rhs.range.start.column;
+            }
+
+            return lhs.range.start.row - rhs.range.start.row;
+        });
+    }
+}
@@ -0,0 +1,198 @@
+#!/usr/bin/env node
+
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as path from "path";
+
+import { AntlrFacade, DiagnosticType } from "../backend/facade";
+import { CheckOptions, GrammarChecker } from "./GrammarChecker";
+import { ReportFormat, ReportFormatter } from "./ReportFormatter";
+
+const usage = `Usage: antlr4-check [options] <grammar file or folder>...
+
+Checks ANTLR4 grammars and prints all found problems.
+
+Options:
+  -f, --format <text|json|sarif>  The output format (default: text).
+  -l, --lib <folder>              The folder to search for imported grammars and token vocabularies.
+  -g, --generate                  Also run the ANTLR4 tool on each grammar, for a full error check (requires Java).
+  -o, --output-dir <folder>       Keep generated files in this folder (default: a temporary folder).
+      --language <name>           The target language for generation.
+      --jar <file>                Use this ANTLR4 jar for generation instead of the built-in one.
+      --rrd-dir <folder>          Also export the railroad diagrams of each grammar as SVG files into this folder.
+  -w, --warnings-as-errors        Exit with a failure code also when warnings were found.
+  -h, --help                      Show this help.
+
+Exit codes: 0 = no errors, 1 = errors found, 2 = invalid invocation or internal error.`;
+
+interface CommandLine {
+    files: string[];
+    format: ReportFormat;
+    importDir: string;
+    warningsAsErrors: boolean;
+    help: boolean;
+    options: CheckOptions;
+}
+
+/**
+ * Converts the command line arguments to a command line structure.
+ *
+ * @param args The arguments, without the node executable and script name.
+ *
+ * @returns The parsed command line.
+ */
+const parseArguments = (args: string[]): CommandLine => {
+    const result: CommandLine = {
+        files: [],
+        format: "text",
+        importDir: "",
+        warningsAsErrors: false,
+        help: false,
+        options: {},
+    };
+
+    const valueFor = (option: string): string => {
+        const value = args.shift();
+        if (value === undefined || value.startsWith("-")) {
+            throw new Error(`Missing value for option ${option}`);
+        }
+
+        return value;
+    };
+
+    while (args.length > 0) {
+        const arg = args.shift()!;
+        switch (arg) {
+            case "-f":
+            case "--format": {
+                const format = valueFor(arg);
+                if (format !== "text" && format !== "json" && format !== "sarif") {
+                    throw new Error(`Unsupported output format: ${format}`);
+                }
+                result.format = format;
+
+                break;
+            }
+
+            case "-l":
+            case "--lib": {
+                result.importDir = path.resolve(valueFor(arg));
+                result.options.libDir = result.importDir;
+
+                break;
+            }
+
+            case "-g":
+            case "--generate": {
+                result.options.generate = true;
+
+                break;
+            }
+
+            case "-o":
+            case "--output-dir": {
+                result.options.outputDir = path.resolve(valueFor(arg));
+
+                break;
+            }
+
+            case "--language": {
+                result.options.language = valueFor(arg);
+
+                break;
+            }
+
+            case "--jar": {
+                result.options.alternativeJar = path.resolve(valueFor(arg));
+
+                break;
+            }
+
+            case "--rrd-dir": {
+                result.options.rrdDir = path.resolve(valueFor(arg));
+
+                break;
+            }
+
+            case "-w":
+            case "--warnings-as-errors": {
+                result.warningsAsErrors = true;
+
+                break;
+            }
+
+            case "-h":
+            case "--help": {
+                result.help = true;
+
+                break;
+            }
+
+            default: {
+                if (arg.startsWith("-")) {
+                    throw new Error(`Unknown option: ${arg}`);
+                }
+                result.files.push(arg);
+
+                break;
+            }
+        }
+    }
+
+    return result;
+};
+
+const run = async (args: string[]): Promise<number> => {
+    let commandLine: CommandLine;
+    try {
+        commandLine = parseArguments(args);
+    } catch (e) {
+        console.error(`${(e as Error).message}\n\n${usage}`);
+
+        return 2;
+    }
+
+    if (commandLine.help) {
+        console.log(usage);
+
+        return 0;
+    }
+
+    if (commandLine.files.length === 0) {
+        console.error(usage);
+
+        return 2;
+    }
+
+    try {
+        const files = GrammarChecker.collectGrammarFiles(commandLine.files);
+        const checker = new GrammarChecker(new AntlrFacade(commandLine.importDir), commandLine.options);
+        const results = await checker.check(files);
+
+        console.log(ReportFormatter.format(results, commandLine.format));
+
+        if (ReportFormatter.count(results, DiagnosticType.Error) > 0) {
+            return 1;
+        }
+
+        if (commandLine.warningsAsErrors && ReportFormatter.count(results, DiagnosticType.Warning) > 0) {
+            return 1;
+        }
+
+        return 0;
+    } catch (e) {
+        // Generation failures are reported as plain text (e.g. Java exceptions).
+        console.error(e instanceof Error ? e.message : String(e));
+
+        return 2;
+    }
+};
+
+void run(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+});
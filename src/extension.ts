@@ -11,21 +11,20 @@ import * as fs from "fs-extra";
 import * as Net from "net";
 
 import {
-    workspace, languages, DiagnosticSeverity, ExtensionContext, Range, TextDocument, Diagnostic,
-    TextDocumentChangeEvent, commands, window, TextEditorSelectionChangeEvent, TextEditorEdit, TextEditor,
-    OutputChannel, Selection, debug, DebugConfigurationProvider, WorkspaceFolder, DebugConfiguration, CancellationToken,
-    ProviderResult, TextEditorRevealType,
+    workspace, languages, ExtensionContext, Range, TextDocument, TextDocumentChangeEvent, commands, window,
+    TextEditorSelectionChangeEvent, TextEditorEdit, TextEditor, OutputChannel, Selection, debug,
+    DebugConfigurationProvider, WorkspaceFolder, DebugConfiguration, CancellationToken, ProviderResult,
+    TextEditorRevealType, Uri,
 } from "vscode";
+import { LanguageClient, LanguageClientOptions, ServerOptions, TransportKind } from "vscode-languageclient";
 
-import { AntlrHoverProvider } from "./frontend/HoverProvider";
-import { AntlrDefinitionProvider } from "./frontend/DefinitionProvider";
-import { AntlrSymbolProvider } from "./frontend/SymbolProvider";
 import { AntlrCodeLensProvider } from "./frontend/CodeLensProvider";
-import { AntlrCompletionItemProvider } from "./frontend/CompletionItemProvider";
 import { AntlrRailroadDiagramProvider } from "./frontend/RailroadDiagramProvider";
 import { AntlrATNGraphProvider } from "./frontend/ATNGraphProvider";
-import { AntlrFormattingProvider } from "./frontend/FormattingProvider";
 import { AntlrCallGraphProvider } from "./frontend/CallGraphProvider";
+import { AntlrModeGraphProvider } from "./frontend/ModeGraphProvider";
+import { AntlrDependencyGraphProvider } from "./frontend/DependencyGraphProvider";
+import { AntlrTokenStreamProvider } from "./frontend/TokenStreamProvider";
 
 import { ImportsProvider } from "./frontend/ImportsProvider";
 import { LexerSymbolsProvider } from "./frontend/LexerSymbolsProvider";
@@ -35,23 +34,26 @@ import { ModesProvider } from "./frontend/ModesProvider";
 import { ActionsProvider } from "./frontend/ActionsProvider";
 
 import { AntlrParseTreeProvider } from "./frontend/ParseTreeProvider";
-import { AntlrRenameProvider } from "./frontend/RenameProvider";
+import { AntlrParseTreePreviewProvider } from "./frontend/ParseTreePreviewProvider";
 
 import { ProgressIndicator } from "./frontend/ProgressIndicator";
+import { RefactoringPreviewProvider } from "./frontend/RefactoringPreviewProvider";
+import { GrammarTestController } from "./frontend/GrammarTestController";
+import { CoverageProvider } from "./frontend/CoverageProvider";
 import { AntlrDebugSession } from "./frontend/AntlrDebugAdapter";
 
-import {
-    DiagnosticType, AntlrFacade, GenerationOptions, LexicalRange, SentenceGenerationOptions,
-} from "./backend/facade";
-import { AntlrReferenceProvider } from "./frontend/ReferenceProvider";
+import { AntlrFacade, LexicalRange, SentenceGenerationOptions } from "./backend/facade";
 import { Utils } from "./frontend/Utils";
 import { GrammarType } from "./backend/SourceContext";
+import { ParseEvent, ParseEventType } from "./backend/GrammarInterpreters";
+import {
+    generationFinishedNotification, generationStartedNotification, GenerationNotificationParams,
+    InitializationOptions,
+} from "./server/Protocol";
 
 const ANTLR = { language: "antlr", scheme: "file" };
 
-const diagnosticCollection = languages.createDiagnosticCollection("antlr");
-const DiagnosticTypeMap = new Map<DiagnosticType, DiagnosticSeverity>();
-
+let client: LanguageClient;
 let backend: AntlrFacade;
 let progress: ProgressIndicator;
 let outputChannel: OutputChannel;
@@ -72,12 +74,8 @@ let codeLensProvider: AntlrCodeLensProvider;
  * @param context The extension context from vscode.
  */
 export const activate = (context: ExtensionContext): void => {
-    DiagnosticTypeMap.set(DiagnosticType.Hint, DiagnosticSeverity.Hint);
-    DiagnosticTypeMap.set(DiagnosticType.Info, DiagnosticSeverity.Information);
-    DiagnosticTypeMap.set(DiagnosticType.Warning, DiagnosticSeverity.Warning);
-    DiagnosticTypeMap.set(DiagnosticType.Error, DiagnosticSeverity.Error);
-
-    backend = new AntlrFacade(workspace.getConfiguration("antlr4.generation").importDir || "");
+    const importDir = (workspace.getConfiguration("antlr4.generation").importDir as string) || "";
+    backend = new AntlrFacade(importDir);
     progress = new ProgressIndicator();
     outputChannel = window.createOutputChannel("ANTLR4 Errors");
 
@@ -90,17 +88,33 @@ export const activate = (context: ExtensionContext): void => {
         }
     }
 
-    context.subscriptions.push(languages.registerHoverProvider(ANTLR, new AntlrHoverProvider(backend)));
-    context.subscriptions.push(languages.registerDefinitionProvider(ANTLR, new AntlrDefinitionProvider(backend)));
-    context.subscriptions.push(languages.registerDocumentSymbolProvider(ANTLR, new AntlrSymbolProvider(backend)));
+    // Language features (hover, completion, diagnostics etc.) and background generation are provided by
+    // the language server. The local backend serves the views, graphs and the debugger.
+    const serverModule = context.asAbsolutePath(path.join("out", "src", "server", "main.js"));
+    const serverOptions: ServerOptions = {
+        run: { module: serverModule, transport: TransportKind.stdio },
+        debug: {
+            module: serverModule,
+            transport: TransportKind.stdio,
+            options: { execArgv: ["--nolazy", "--inspect=6009"] },
+        },
+    };
+
+    const initializationOptions: InitializationOptions = { importDir };
+    const clientOptions: LanguageClientOptions = {
+        documentSelector: [ANTLR],
+        initializationOptions,
+        synchronize: {
+            // Keeps the workspace index of the server up to date.
+            fileEvents: workspace.createFileSystemWatcher("**/*.{g4,g}"),
+        },
+    };
+
+    client = new LanguageClient("antlr4", "ANTLR4 Language Server", serverOptions, clientOptions);
+    client.start();
+
     codeLensProvider = new AntlrCodeLensProvider(backend);
     context.subscriptions.push(languages.registerCodeLensProvider(ANTLR, codeLensProvider));
-    context.subscriptions.push(languages.registerCompletionItemProvider(ANTLR, new AntlrCompletionItemProvider(backend),
-        " ", ":", "@", "<", "{", "["));
-    context.subscriptions.push(languages.registerDocumentRangeFormattingEditProvider(ANTLR,
-        new AntlrFormattingProvider(backend)));
-    context.subscriptions.push(languages.registerRenameProvider(ANTLR, new AntlrRenameProvider(backend)));
-    context.subscriptions.push(languages.registerReferenceProvider(ANTLR, new AntlrReferenceProvider(backend)));
 
     const diagramProvider = new AntlrRailroadDiagramProvider(backend, context);
 
@@ -124,6 +138,39 @@ export const activate = (context: ExtensionContext): void => {
         }),
     );
 
+    // Batch export of all railroad diagrams, without a webview.
+    const exportDiagrams = (grammarFileName: string, outputDir: string): void => {
+        try {
+            const files = backend.exportRRDDiagrams(grammarFileName, outputDir);
+            void window.showInformationMessage(`${files.length - 1} railroad diagrams written to ${outputDir}`);
+        } catch (error) {
+            void window.showErrorMessage("Couldn't export the railroad diagrams: " + String(error));
+        }
+    };
+
+    context.subscriptions.push(commands.registerTextEditorCommand("antlr.rrd.exportAll",
+        (textEditor: TextEditor, edit: TextEditorEdit) => {
+            const grammarFileName = textEditor.document.uri.fsPath;
+            const outputDir = workspace.getConfiguration("antlr4.rrd").saveDir as string;
+            if (outputDir) {
+                // Relative folders are resolved against the folder of the grammar.
+                exportDiagrams(grammarFileName, path.isAbsolute(outputDir) ? outputDir :
+                    path.join(path.dirname(grammarFileName), outputDir));
+            } else {
+                void window.showOpenDialog({
+                    canSelectFiles: false,
+                    canSelectFolders: true,
+                    defaultUri: Uri.file(path.dirname(grammarFileName)),
+                    openLabel: "Export",
+                }).then((folders) => {
+                    if (folders && folders.length > 0) {
+                        exportDiagrams(grammarFileName, folders[0].fsPath);
+                    }
+                });
+            }
+        }),
+    );
+
     // The ATN graph command.
     const atnGraphProvider = new AntlrATNGraphProvider(backend, context);
     context.subscriptions.push(commands.registerTextEditorCommand("antlr.atn.singleRule",
@@ -144,6 +191,78 @@ export const activate = (context: ExtensionContext): void => {
         }),
     );
 
+    // The lexer mode graph command.
+    const modeGraphProvider = new AntlrModeGraphProvider(backend, context);
+    context.subscriptions.push(commands.registerTextEditorCommand("antlr.mode-graph",
+        (textEditor: TextEditor, edit: TextEditorEdit) => {
+            modeGraphProvider.showWebview(textEditor, {
+                title: "Mode Graph: " + path.basename(textEditor.document.fileName),
+            });
+        }),
+    );
+
+    // The workspace wide grammar dependency graph.
+    const dependencyGraphProvider = new AntlrDependencyGraphProvider(backend, context);
+    context.subscriptions.push(commands.registerCommand("antlr.tools.dependencyGraph", () => {
+        void dependencyGraphProvider.showDependencyGraph();
+    }));
+
+    // The token stream command.
+    const tokenStreamProvider = new AntlrTokenStreamProvider(backend, context);
+    context.subscriptions.push(commands.registerTextEditorCommand("antlr.tools.showTokenStream",
+        (textEditor: TextEditor, edit: TextEditorEdit) => {
+            void window.showOpenDialog({
+                canSelectMany: false,
+                defaultUri: Uri.file(path.dirname(textEditor.document.fileName)),
+                openLabel: "Tokenize",
+            }).then((files) => {
+                if (files && files.length > 0) {
+                    tokenStreamProvider.showTokenStream(textEditor, files[0].fsPath);
+                }
+            });
+        }),
+    );
+
+    // The parse tree preview command.
+    const parseTreePreviewProvider = new AntlrParseTreePreviewProvider(backend, context);
+    context.subscriptions.push(commands.registerTextEditorCommand("antlr.tools.previewParseTree",
+        (textEditor: TextEditor, edit: TextEditorEdit) => {
+            const grammarFileName = textEditor.document.fileName;
+            const rules = backend.getRuleList(grammarFileName);
+            if (!rules || rules.length === 0) {
+                void window.showInformationMessage("No parser interpreter data available for this grammar. " +
+                    "Save it to generate the data (requires a parser or combined grammar).");
+
+                return;
+            }
+
+            void window.showOpenDialog({
+                canSelectMany: false,
+                defaultUri: Uri.file(path.dirname(grammarFileName)),
+                openLabel: "Parse",
+            }).then(async (files) => {
+                if (!files || files.length === 0) {
+                    return;
+                }
+
+                // Offer the rule at the caret first.
+                const caret = textEditor.selection.active;
+                const [ruleName] = backend.ruleFromPosition(grammarFileName, caret.character, caret.line + 1);
+                const candidates = ruleName && rules.includes(ruleName)
+                    ? [ruleName, ...rules.filter((rule) => rule !== ruleName)]
+                    : rules;
+                const startRule = await window.showQuickPick(candidates, { placeHolder: "Select the start rule" });
+                if (!startRule) {
+                    return;
+                }
+
+                if (!parseTreePreviewProvider.showPreview(textEditor, files[0].fsPath, startRule)) {
+                    void window.showErrorMessage("Cannot parse the input. Make sure the grammar has no errors.");
+                }
+            });
+        }),
+    );
+
     // Sentence generation.
     const sentenceOutputChannel = window.createOutputChannel("ANTLR4 Sentence Generation");
     context.subscriptions.push(commands.registerTextEditorCommand("antlr.tools.generateSentences",
@@ -205,10 +324,134 @@ export const activate = (context: ExtensionContext): void => {
         }),
     );
 
+    // Left recursion elimination, with a preview of the changes.
+    const previewProvider = new RefactoringPreviewProvider();
+    context.subscriptions.push(workspace.registerTextDocumentContentProvider(RefactoringPreviewProvider.scheme,
+        previewProvider));
+    context.subscriptions.push(commands.registerTextEditorCommand("antlr.tools.eliminateLeftRecursion",
+        (textEditor: TextEditor, edit: TextEditorEdit) => {
+            const grammarFileName = textEditor.document.uri.fsPath;
+            const caret = textEditor.selection.active;
+            const [ruleName] = backend.ruleFromPosition(grammarFileName, caret.character, caret.line + 1);
+            if (!ruleName) {
+                void window.showInformationMessage("Place the caret in the parser rule to rewrite.");
+
+                return;
+            }
+
+            const refactoring = backend.eliminateLeftRecursion(grammarFileName, ruleName);
+            if (!refactoring) {
+                void window.showInformationMessage(`The rule '${ruleName}' is not left recursive or cannot be ` +
+                    "rewritten automatically.");
+
+                return;
+            }
+
+            void previewProvider.preview(refactoring);
+        }),
+    );
+
+    // Grammar reference documentation.
+    context.subscriptions.push(commands.registerTextEditorCommand("antlr.tools.generateDocumentation",
+        (textEditor: TextEditor, edit: TextEditorEdit) => {
+            const grammarFileName = textEditor.document.uri.fsPath;
+            const config = workspace.getConfiguration("antlr4.documentation");
+
+            // Relative folders are resolved against the folder of the grammar.
+            let outputDir = config.outputDir as string || "docs";
+            if (!path.isAbsolute(outputDir)) {
+                outputDir = path.join(path.dirname(grammarFileName), outputDir);
+            }
+
+            try {
+                const files = backend.generateDocumentation(grammarFileName, {
+                    outputDir,
+                    html: config.html as boolean,
+                    markdown: config.markdown as boolean,
+                });
+
+                if (files.length > 0) {
+                    void window.showInformationMessage(`Documentation written to ${outputDir}`, "Open")
+                        .then((action) => {
+                            if (action === "Open") {
+                                void commands.executeCommand("vscode.open", Uri.file(files[0]));
+                            }
+                        });
+                }
+            } catch (error) {
+                void window.showErrorMessage("Couldn't write the grammar documentation: " + String(error));
+            }
+        }),
+    );
+
+    // Parse tree tests in the test explorer, optionally with grammar coverage.
+    const coverageProvider = new CoverageProvider(context);
+    context.subscriptions.push(coverageProvider);
+    context.subscriptions.push(new GrammarTestController(backend, coverageProvider));
+    context.subscriptions.push(commands.registerCommand("antlr.tools.clearCoverage", () => {
+        coverageProvider.clear();
+    }));
+
     // Debugging support.
     context.subscriptions.push(debug.registerDebugConfigurationProvider("antlr-debug",
         new AntlrDebugConfigurationProvider()));
 
+    // Lets the user pick one of the parse events recorded in the current debug session and jumps right after it.
+    context.subscriptions.push(commands.registerCommand("antlr.debug.jumpToEvent", async () => {
+        const session = debug.activeDebugSession;
+        if (!session || session.type !== "antlr-debug") {
+            return;
+        }
+
+        const { events, currentStep, recordedSteps } = await session.customRequest("parseHistory") as
+            { events: ParseEvent[]; currentStep: number; recordedSteps: number };
+        if (recordedSteps === 0) {
+            void window.showInformationMessage("No parse events have been recorded yet.");
+
+            return;
+        }
+
+        const describe = (event: ParseEvent): string => {
+            switch (event.type) {
+                case ParseEventType.EnterRule: {
+                    return `Enter ${event.ruleName}`;
+                }
+
+                case ParseEventType.ExitRule: {
+                    return `Exit ${event.ruleName}`;
+                }
+
+                case ParseEventType.Consume: {
+                    return `Consume "${event.text ?? ""}" in ${event.ruleName}`;
+                }
+
+                case ParseEventType.Decision: {
+                    return `Decision ${event.decision ?? 0} in ${event.ruleName}: ` +
+                        `alternative ${event.alternative ?? 0}`;
+                }
+
+                default: {
+                    return `Error in ${event.ruleName}: ${event.text ?? ""}`;
+                }
+            }
+        };
+
+        const items = events.map((event) => {
+            const step = Math.min(event.step + 1, recordedSteps);
+
+            return {
+                label: "  ".repeat(Math.max(event.depth - 1, 0)) + describe(event),
+                description: `step ${step}` + (step === currentStep ? " (current)" : ""),
+                step,
+            };
+        });
+
+        const item = await window.showQuickPick(items, { placeHolder: "Select the parse event to jump to" });
+        if (item) {
+            await session.customRequest("goToStep", { step: item.step });
+        }
+    }));
+
     importsProvider = new ImportsProvider(backend);
     context.subscriptions.push(window.registerTreeDataProvider("antlr4.imports", importsProvider));
 
@@ -259,14 +502,12 @@ export const activate = (context: ExtensionContext): void => {
     workspace.onDidOpenTextDocument((document: TextDocument) => {
         if (isGrammarFile(document)) {
             backend.loadGrammar(document.fileName);
-            regenerateBackgroundData(document);
         }
     });
 
     workspace.onDidCloseTextDocument((document: TextDocument) => {
         if (isGrammarFile(document)) {
             backend.releaseGrammar(document.fileName);
-            diagnosticCollection.set(document.uri, []);
         }
     });
 
@@ -286,18 +527,12 @@ export const activate = (context: ExtensionContext): void => {
 
                 diagramProvider.update(window.activeTextEditor!);
                 callGraphProvider.update(window.activeTextEditor!);
-                processDiagnostic(event.document);
+                modeGraphProvider.update(window.activeTextEditor!);
                 codeLensProvider.refresh();
             }, 300));
         }
     });
 
-    workspace.onDidSaveTextDocument((document: TextDocument) => {
-        if (isGrammarFile(document)) {
-            regenerateBackgroundData(document);
-        }
-    });
-
     window.onDidChangeTextEditorSelection((event: TextEditorSelectionChangeEvent) => {
         if (isGrammarFile(event.textEditor.document)) {
             diagramProvider.update(event.textEditor);
@@ -313,115 +548,32 @@ export const activate = (context: ExtensionContext): void => {
         }
     });
 
-    /**
-     * Convert diagnostic information for the given file to show in vscode.
-     *
-     * @param document The document for which this should happen.
-     */
-    const processDiagnostic = (document: TextDocument) => {
-        const diagnostics = [];
-        const entries = backend.getDiagnostics(document.fileName);
-        for (const entry of entries) {
-            const startRow = entry.range.start.row === 0 ? 0 : entry.range.start.row - 1;
-            const endRow = entry.range.end.row === 0 ? 0 : entry.range.end.row - 1;
-            const range = new Range(startRow, entry.range.start.column, endRow, entry.range.end.column);
-            const diagnostic = new Diagnostic(range, entry.message, DiagnosticTypeMap.get(entry.type));
-            diagnostics.push(diagnostic);
-        }
-        diagnosticCollection.set(document.uri, diagnostics);
-    };
-
-    /**
-     * For certain services we have to (re)generate files from grammars in the background:
-     * - syntactic + semantic grammar analysis by the ANTLR tool
-     * - generate interpreter data (for debugging + ATN views)
-     *
-     * @param document For which to generate the data.
-     */
-    const regenerateBackgroundData = (document: TextDocument): void => {
-        if (workspace.getConfiguration("antlr4.generation").mode === "none") {
-            return;
-        }
-
-        const externalMode = workspace.getConfiguration("antlr4.generation").mode === "external";
-
-        progress.startAnimation();
-        const basePath = path.dirname(document.fileName);
-        const antlrPath = path.join(basePath, ".antlr");
-
-        // In internal mode we generate files with the default target language into our .antlr folder.
-        // In external mode the files are generated into the given output folder (or the folder where the
-        // main grammar is). In this case we have to move the interpreter data to our .antlr folder.
-        let outputDir = antlrPath;
-        if (externalMode) {
-            outputDir = workspace.getConfiguration("antlr4.generation").outputDir as string;
-            if (!outputDir) {
-                outputDir = basePath;
-            } else {
-                if (!path.isAbsolute(outputDir)) {
-                    outputDir = path.join(basePath, outputDir);
-                }
-            }
-        }
-
-        try {
-            fs.ensureDirSync(outputDir);
-        } catch (error) {
-            progress.stopAnimation();
-            void window.showErrorMessage("Cannot create output folder: " + (error as string));
-
-            return;
-        }
-
-        const options: GenerationOptions = {
-            baseDir: basePath,
-            libDir: workspace.getConfiguration("antlr4.generation").importDir as string,
-            outputDir,
-            listeners: false,
-            visitors: false,
-            alternativeJar: workspace.getConfiguration("antlr4.generation").alternativeJar as string,
-            additionalParameters: workspace.getConfiguration("antlr4.generation").additionalParameters as string,
-        };
-
-        if (externalMode) {
-            options.language = workspace.getConfiguration("antlr4.generation").language as string;
-            options.package = workspace.getConfiguration("antlr4.generation").package as string;
-            options.listeners = workspace.getConfiguration("antlr4.generation").listeners as boolean;
-            options.visitors = workspace.getConfiguration("antlr4.generation").visitors as boolean;
-        }
+    // The server generates interpreter data on open and on save. Once done we load the data into our
+    // local backend too.
+    void client.onReady().then(() => {
+        client.onNotification(generationStartedNotification, () => {
+            progress.startAnimation();
+        });
 
-        const result = backend.generate(document.fileName, options);
-        result.then((affectedFiles: string[]) => {
-            for (const file of affectedFiles) {
-                const fullPath = path.resolve(basePath, file);
-                workspace.textDocuments.forEach((textDocument) => {
-                    if (textDocument.fileName === fullPath) {
-                        processDiagnostic(textDocument);
-                    }
-                });
-            }
+        client.onNotification(generationFinishedNotification, (params: GenerationNotificationParams) => {
+            if (params.error) {
+                progress.stopAnimation();
+                outputChannel.appendLine(params.error);
+                outputChannel.show(true);
 
-            // Finally move interpreter files to our internal folder and reload that.
-            if (externalMode && antlrPath !== outputDir) {
-                try {
-                    const files = fs.readdirSync(outputDir);
-                    for (const file of files) {
-                        if (file.endsWith(".interp")) {
-                            const sourceFile = path.join(outputDir, file);
-                            fs.moveSync(sourceFile, path.join(antlrPath, file), { overwrite: true });
-                        }
-                    }
-                } catch (reason) {
-                    progress.stopAnimation();
-                    outputChannel.appendLine(reason);
-                    outputChannel.show(true);
-                }
+                return;
             }
 
-            backend.generate(document.fileName, { outputDir: antlrPath, loadOnly: true }).then(() => {
-                if (window.activeTextEditor?.document.fileName === document.fileName) {
+            const fileName = Uri.parse(params.uri).fsPath;
+            const antlrPath = path.join(path.dirname(fileName), ".antlr");
+            backend.generate(fileName, { outputDir: antlrPath, loadOnly: true }).then(() => {
+                if (window.activeTextEditor?.document.fileName === fileName) {
                     atnGraphProvider.update(window.activeTextEditor, true);
                 }
+                tokenStreamProvider.refresh();
+                parseTreePreviewProvider.refresh();
+
+                const document = workspace.textDocuments.find((candidate) => candidate.fileName === fileName);
                 updateTreeProviders(document);
 
                 progress.stopAnimation();
@@ -430,15 +582,17 @@ export const activate = (context: ExtensionContext): void => {
                 outputChannel.appendLine(reason);
                 outputChannel.show(true);
             });
-
-        }).catch((reason) => {
-            progress.stopAnimation();
-            outputChannel.appendLine(reason);
-            outputChannel.show(true);
         });
-    };
+    });
 }; // activate() function
 
+/**
+ * Called when the extension is deactivated. Shuts down the language server.
+ *
+ * @returns A promise which resolves when the server has been stopped.
+ */
+export const deactivate = (): Thenable<void> | undefined => client?.stop();
+
 /**
  * Validates launch configuration for grammar debugging.
  */
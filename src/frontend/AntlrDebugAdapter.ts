@@ -11,7 +11,7 @@
 
 import {
     DebugSession, InitializedEvent, Thread, Scope, Source, OutputEvent,
-    TerminatedEvent, StoppedEvent, Breakpoint, BreakpointEvent, StackFrame,
+    TerminatedEvent, StoppedEvent, Breakpoint, BreakpointEvent, StackFrame, Handles,
 } from "vscode-debugadapter";
 import { DebugProtocol } from "vscode-debugprotocol/lib/debugProtocol";
 
@@ -20,7 +20,8 @@ import * as fs from "fs-extra";
 import * as path from "path";
 import { Subject } from "await-notify";
 
-import { GrammarDebugger, GrammarBreakPoint } from "../backend/GrammarDebugger";
+import { GrammarDebugger, GrammarBreakPoint, GrammarLexerState } from "../backend/GrammarDebugger";
+import { DecisionPrediction } from "../backend/GrammarInterpreters";
 import { AntlrParseTreeProvider } from "./ParseTreeProvider";
 import { AntlrFacade, ParseTreeNode, ParseTreeNodeType } from "../backend/facade";
 import { Token, CommonToken } from "antlr4ts";
@@ -37,6 +38,7 @@ export interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArgum
     trace?: boolean;
     printParseTree?: boolean;
     visualParseTree?: boolean;
+    logPredictions?: boolean;
 }
 
 export interface DebuggerConsumer {
@@ -49,9 +51,20 @@ export interface DebuggerConsumer {
 enum VarRef {
     Globals = 1000,
     ParseTree = 1002,
+    Lexer = 1004,
+    Predictions = 1006,
     Context = 2000,
     Tokens = 3000,
     SingleToken = 10000,
+    Dynamic = 1000000, // Start of the references created for the current stop (see VariableHandle).
+}
+
+/**
+ * The value behind a variable reference, which doesn't follow a fixed numbering scheme.
+ */
+interface VariableHandle {
+    token?: Token;
+    prediction?: DecisionPrediction;
 }
 
 export class AntlrDebugSession extends DebugSession {
@@ -68,6 +81,9 @@ export class AntlrDebugSession extends DebugSession {
     // Some variables, which are updated between each scope/var request.
     private tokens: Token[];
     private variables: Array<[string, string]>;
+    private lexerState: GrammarLexerState | undefined;
+    private variableHandles = new Handles<VariableHandle>(VarRef.Dynamic);
+    private predictions: DecisionPrediction[] = [];
 
     /**
      * Creates a new debug adapter that is used for one debug session.
@@ -99,6 +115,11 @@ export class AntlrDebugSession extends DebugSession {
         response.body = response.body || {};
         response.body.supportsConfigurationDoneRequest = true;
         response.body.supportsStepInTargetsRequest = true;
+        response.body.supportsConditionalBreakpoints = true;
+        response.body.supportsHitConditionalBreakpoints = true;
+        response.body.supportsLogPoints = true;
+        response.body.supportsFunctionBreakpoints = true;
+        response.body.supportsStepBack = true;
 
         this.sendResponse(response);
     }
@@ -204,6 +225,7 @@ export class AntlrDebugSession extends DebugSession {
         this.configurationDone.wait(1000).then(() => {
             this.showTextualParseTree = args.printParseTree || false;
             this.showGraphicalParseTree = args.visualParseTree || false;
+            this.debugger!.logPredictions = args.logPredictions || false;
             this.testInput = args.input;
 
             try {
@@ -238,14 +260,22 @@ export class AntlrDebugSession extends DebugSession {
 
     protected setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse,
         args: DebugProtocol.SetBreakpointsArguments): void {
-        this.debugger!.clearBreakPoints();
+        this.debugger!.clearBreakPoints(args.source.path);
         if (args.breakpoints && args.source.path) {
             const actualBreakpoints = args.breakpoints.map((sourceBreakPoint) => {
-                const { validated, line, id } = this.debugger!.addBreakPoint(args.source.path!,
-                    this.convertDebuggerLineToClient(sourceBreakPoint.line));
+                const column = sourceBreakPoint.column === undefined ? undefined :
+                    this.convertClientColumnToDebugger(sourceBreakPoint.column);
+                const { validated, line, column: actualColumn, id, message } = this.debugger!.addBreakPoint(
+                    args.source.path!, this.convertDebuggerLineToClient(sourceBreakPoint.line), {
+                        condition: sourceBreakPoint.condition,
+                        hitCondition: sourceBreakPoint.hitCondition,
+                        logMessage: sourceBreakPoint.logMessage,
+                    }, column);
                 const targetBreakPoint = <DebugProtocol.Breakpoint>new Breakpoint(validated,
-                    this.convertClientLineToDebugger(line));
+                    this.convertClientLineToDebugger(line), actualColumn === undefined ? undefined :
+                        this.convertDebuggerColumnToClient(actualColumn));
                 targetBreakPoint.id = id;
+                targetBreakPoint.message = message;
 
                 return targetBreakPoint;
             });
@@ -257,6 +287,34 @@ export class AntlrDebugSession extends DebugSession {
         this.sendResponse(response);
     }
 
+    /**
+     * Function break points are used to stop when the lexer produced a token of a specific type.
+     * The function name is the token name (e.g. "Identifier" or "'+'").
+     *
+     * @param response The response to send.
+     * @param args The requested break points.
+     */
+    protected setFunctionBreakPointsRequest(response: DebugProtocol.SetFunctionBreakpointsResponse,
+        args: DebugProtocol.SetFunctionBreakpointsArguments): void {
+        this.debugger!.clearTokenBreakPoints();
+        const actualBreakpoints = args.breakpoints.map((functionBreakPoint) => {
+            const { validated, id, message } = this.debugger!.addTokenBreakPoint(functionBreakPoint.name, {
+                condition: functionBreakPoint.condition,
+                hitCondition: functionBreakPoint.hitCondition,
+            });
+            const targetBreakPoint = <DebugProtocol.Breakpoint>new Breakpoint(validated);
+            targetBreakPoint.id = id;
+            targetBreakPoint.message = message;
+
+            return targetBreakPoint;
+        });
+
+        response.body = {
+            breakpoints: actualBreakpoints,
+        };
+        this.sendResponse(response);
+    }
+
     protected threadsRequest(response: DebugProtocol.ThreadsResponse): void {
         // We have no threads, so return a dummy entry.
         response.body = {
@@ -308,9 +366,17 @@ export class AntlrDebugSession extends DebugSession {
         // Cache a few values that stay the same during a single request for scopes and variables.
         this.tokens = this.debugger!.tokenList;
         this.variables = this.debugger!.getVariables(args.frameId);
+        this.lexerState = this.debugger!.lexerState;
+        this.variableHandles.reset();
+        this.predictions = this.debugger!.currentPredictions;
 
         const scopes: Scope[] = [];
         scopes.push(new Scope("Globals", VarRef.Globals, true));
+        if (this.lexerState) {
+            scopes.push(new Scope("Lexer", VarRef.Lexer, false));
+        } else {
+            scopes.push(new Scope("Predictions", VarRef.Predictions, false));
+        }
         //scopes.push(new Scope(this.debugger.getStackInfo(args.frameId), VarRef.Context, false));
         response.body = {
             scopes,
@@ -341,6 +407,11 @@ export class AntlrDebugSession extends DebugSession {
                     value: this.debugger!.errorCount.toString(),
                     variablesReference: 0,
                 });
+                variables.push({
+                    name: "Parse Step",
+                    value: `${this.debugger!.currentStep} of ${this.debugger!.recordedSteps}`,
+                    variablesReference: 0,
+                });
                 variables.push({
                     name: "Input Tokens",
                     value: (this.tokens.length - this.debugger!.currentTokenIndex).toString(),
@@ -354,6 +425,43 @@ export class AntlrDebugSession extends DebugSession {
                 break;
             }
 
+            case VarRef.Lexer: {
+                const state = this.lexerState;
+                if (state) {
+                    const token = state.token;
+                    variables.push({ name: "Mode", type: "string", value: state.mode, variablesReference: 0 });
+                    variables.push({
+                        name: "Mode Stack",
+                        value: `[${state.modeStack.join(", ")}]`,
+                        variablesReference: 0,
+                    });
+                    variables.push({
+                        name: "Last Token",
+                        value: token ? `${token.name} "${token.text}" (${token.line}:${token.offset})` : "<none>",
+                        variablesReference: token
+                            ? this.variableHandles.create({ token: this.tokens[token.tokenIndex] })
+                            : 0,
+                    });
+                    variables.push({
+                        name: "Matched By",
+                        type: "string",
+                        value: state.ruleName ?? "<none>",
+                        variablesReference: 0,
+                    });
+                    variables.push({
+                        name: "Candidates",
+                        value: `[${state.candidates.join(", ")}]`,
+                        variablesReference: 0,
+                    });
+                    variables.push({
+                        name: "Position",
+                        value: `${state.line}:${state.column}`,
+                        variablesReference: 0,
+                    });
+                }
+                break;
+            }
+
             case VarRef.Tokens: {
                 const start = this.debugger!.currentTokenIndex + (args.start ? args.start : 0);
                 const length = args.count ? args.count : this.tokens.length;
@@ -363,68 +471,83 @@ export class AntlrDebugSession extends DebugSession {
                         name: index + ": " + this.debugger!.tokenTypeName(this.tokens[index] as CommonToken),
                         type: "Token",
                         value: "",
-                        variablesReference: VarRef.Tokens + index,
+                        variablesReference: this.variableHandles.create({ token: this.tokens[index] }),
                         presentationHint: { kind: "class", attributes: ["readonly"] },
                     });
                 }
                 break;
             }
 
+            case VarRef.Predictions: {
+                // The most recent prediction first.
+                for (let i = this.predictions.length - 1; i >= 0; --i) {
+                    const prediction = this.predictions[i];
+                    variables.push({
+                        name: `Decision ${prediction.decision} in ${prediction.ruleName}`,
+                        value: `alternative ${prediction.prediction} of ${prediction.alternativeCount} ` +
+                            (prediction.fullContext ? "(LL)" : "(SLL)"),
+                        variablesReference: this.variableHandles.create({ prediction }),
+                    });
+                }
+                break;
+            }
+
             default: {
-                if (args.variablesReference >= VarRef.Tokens) {
-                    const tokenIndex = args.variablesReference % VarRef.Tokens;
-                    if (tokenIndex >= 0 && tokenIndex < this.tokens.length) {
-                        const token = this.tokens[tokenIndex];
-                        variables.push({
-                            name: "text",
-                            type: "string",
-                            value: token.text ? token.text : "",
-                            variablesReference: 0,
-                        });
-                        variables.push({
-                            name: "type",
-                            type: "number",
-                            value: token.type + "",
-                            variablesReference: 0,
-                        });
-                        variables.push({
-                            name: "line",
-                            type: "number",
-                            value: token.line + "",
-                            variablesReference: 0,
-                        });
-                        variables.push({
-                            name: "offset",
-                            type: "number",
-                            value: token.charPositionInLine + "",
-                            variablesReference: 0,
-                        });
-                        variables.push({
-                            name: "channel",
-                            type: "number",
-                            value: token.channel + "",
-                            variablesReference: 0,
-                        });
-                        variables.push({
-                            name: "tokenIndex",
-                            type: "number",
-                            value: token.tokenIndex + "",
-                            variablesReference: 0,
-                        });
-                        variables.push({
-                            name: "startIndex",
-                            type: "number",
-                            value: token.startIndex + "",
-                            variablesReference: 0,
-                        });
-                        variables.push({
-                            name: "stopIndex",
-                            type: "number",
-                            value: token.stopIndex + "",
-                            variablesReference: 0,
-                        });
+                const handle = this.variableHandles.get(args.variablesReference);
+                if (handle?.prediction) {
+                    variables.push(...this.predictionVariables(handle.prediction));
+                }
 
-                    }
+                const token = handle?.token;
+                if (token) {
+                    variables.push({
+                        name: "text",
+                        type: "string",
+                        value: token.text ? token.text : "",
+                        variablesReference: 0,
+                    });
+                    variables.push({
+                        name: "type",
+                        type: "number",
+                        value: token.type + "",
+                        variablesReference: 0,
+                    });
+                    variables.push({
+                        name: "line",
+                        type: "number",
+                        value: token.line + "",
+                        variablesReference: 0,
+                    });
+                    variables.push({
+                        name: "offset",
+                        type: "number",
+                        value: token.charPositionInLine + "",
+                        variablesReference: 0,
+                    });
+                    variables.push({
+                        name: "channel",
+                        type: "number",
+                        value: token.channel + "",
+                        variablesReference: 0,
+                    });
+                    variables.push({
+                        name: "tokenIndex",
+                        type: "number",
+                        value: token.tokenIndex + "",
+                        variablesReference: 0,
+                    });
+                    variables.push({
+                        name: "startIndex",
+                        type: "number",
+                        value: token.startIndex + "",
+                        variablesReference: 0,
+                    });
+                    variables.push({
+                        name: "stopIndex",
+                        type: "number",
+                        value: token.stopIndex + "",
+                        variablesReference: 0,
+                    });
                 }
                 break;
             }
@@ -461,6 +584,52 @@ export class AntlrDebugSession extends DebugSession {
         this.sendResponse(response);
     }
 
+    protected stepBackRequest(response: DebugProtocol.StepBackResponse, args: DebugProtocol.StepBackArguments): void {
+        this.debugger!.stepBack();
+        this.sendResponse(response);
+    }
+
+    protected reverseContinueRequest(response: DebugProtocol.ReverseContinueResponse,
+        args: DebugProtocol.ReverseContinueArguments): void {
+        this.debugger!.reverseContinue();
+        this.sendResponse(response);
+    }
+
+    /**
+     * Handles requests which are not part of the debug protocol:
+     * - "parseHistory" returns the parse events recorded so far, the current and the highest recorded step.
+     * - "goToStep" moves the debugger to the given recorded step.
+     *
+     * @param command The request name.
+     * @param response The response to send.
+     * @param args The request arguments.
+     * @param args.step The target step for "goToStep".
+     */
+    protected customRequest(command: string, response: DebugProtocol.Response, args: { step: number }): void {
+        switch (command) {
+            case "parseHistory": {
+                response.body = {
+                    events: this.debugger!.history,
+                    currentStep: this.debugger!.currentStep,
+                    recordedSteps: this.debugger!.recordedSteps,
+                };
+                break;
+            }
+
+            case "goToStep": {
+                this.debugger!.goTo(args.step);
+                break;
+            }
+
+            default: {
+                super.customRequest(command, response, args);
+
+                return;
+            }
+        }
+        this.sendResponse(response);
+    }
+
     protected evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments): void {
         response.body = {
             result: "evaluation not supported",
@@ -505,6 +674,9 @@ export class AntlrDebugSession extends DebugSession {
             const breakpoint: DebugProtocol.Breakpoint = {
                 verified: bp.validated,
                 id: bp.id,
+                line: this.convertDebuggerLineToClient(bp.line),
+                column: bp.column === undefined ? undefined : this.convertDebuggerColumnToClient(bp.column),
+                message: bp.message,
             };
             this.sendEvent(new BreakpointEvent("changed", breakpoint));
         });
@@ -563,6 +735,47 @@ export class AntlrDebugSession extends DebugSession {
             this.convertDebuggerPathToClient(filePath), undefined, undefined, "antlr-data");
     }
 
+    private predictionVariables(prediction: DecisionPrediction): DebugProtocol.Variable[] {
+        const alternatives = (list?: number[]) => (list ? `{${list.join(", ")}}` : "<none>");
+        const result: DebugProtocol.Variable[] = [
+            {
+                name: "Predicted Alternative",
+                type: "number",
+                value: prediction.prediction.toString(),
+                variablesReference: 0,
+            },
+            {
+                name: "Prediction Mode",
+                type: "string",
+                value: prediction.fullContext ? "LL (full context fallback)" : "SLL",
+                variablesReference: 0,
+            },
+            {
+                name: "Conflicting Alternatives",
+                value: alternatives(prediction.conflictingAlternatives),
+                variablesReference: 0,
+            },
+            {
+                name: "Ambiguous Alternatives",
+                value: alternatives(prediction.ambiguousAlternatives),
+                variablesReference: 0,
+            },
+        ];
+
+        // One entry per lookahead token, with the alternatives still viable after it.
+        prediction.steps.forEach((step, index) => {
+            result.push({
+                name: `Lookahead ${index + 1}${step.fullContext ? " (LL)" : ""}`,
+                value: `"${step.text}" (token ${step.tokenIndex}), viable: ${alternatives(step.alternatives)}`,
+                variablesReference: this.tokens[step.tokenIndex]
+                    ? this.variableHandles.create({ token: this.tokens[step.tokenIndex] })
+                    : 0,
+            });
+        });
+
+        return result;
+    }
+
     private parseNodeToString(node: ParseTreeNode, level = 0): string {
         let result = " ".repeat(level);
         switch (node.type) {
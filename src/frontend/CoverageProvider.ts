@@ -0,0 +1,98 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as path from "path";
+
+import {
+    Disposable, ExtensionContext, OverviewRulerLane, Range, TextEditor, TextEditorDecorationType, ThemeColor,
+    ViewColumn, window, workspace,
+} from "vscode";
+
+import { GrammarCoverageReport, LexicalRange } from "../backend/facade";
+import { GrammarCoverage } from "../backend/GrammarCoverage";
+
+/**
+ * Shows grammar coverage reports and marks never exercised rules and alternatives in the editor gutter.
+ */
+export class CoverageProvider implements Disposable {
+    private decorationType: TextEditorDecorationType;
+    private uncovered = new Map<string, LexicalRange[]>(); // Keyed by grammar file name.
+    private disposables: Disposable[] = [];
+
+    public constructor(context: ExtensionContext) {
+        this.decorationType = window.createTextEditorDecorationType({
+            gutterIconPath: context.asAbsolutePath(path.join("misc", "coverage-missing.svg")),
+            gutterIconSize: "contain",
+            overviewRulerColor: new ThemeColor("editorOverviewRuler.errorForeground"),
+            overviewRulerLane: OverviewRulerLane.Left,
+        });
+
+        this.disposables.push(window.onDidChangeVisibleTextEditors((editors) => {
+            editors.forEach((editor) => {
+                this.decorate(editor);
+            });
+        }));
+
+        // Ranges are no longer valid once the grammar was changed.
+        this.disposables.push(workspace.onDidChangeTextDocument((event) => {
+            if (event.contentChanges.length > 0 && this.uncovered.delete(event.document.fileName)) {
+                window.visibleTextEditors.forEach((editor) => {
+                    this.decorate(editor);
+                });
+            }
+        }));
+    }
+
+    public dispose(): void {
+        Disposable.from(...this.disposables, this.decorationType).dispose();
+    }
+
+    /**
+     * Shows the given report in a new editor and updates the gutter marks of all grammars in it.
+     *
+     * @param grammar The name of the tested grammar.
+     * @param report The report to show.
+     */
+    public async show(grammar: string, report: GrammarCoverageReport): Promise<void> {
+        const files = new Set(report.rules.map((rule) => rule.fileName));
+        files.forEach((fileName) => this.uncovered.set(path.resolve(fileName), []));
+
+        for (const rule of report.rules) {
+            const ranges = this.uncovered.get(path.resolve(rule.fileName))!;
+            if (rule.hits === 0) {
+                ranges.push(rule.range);
+            } else {
+                ranges.push(...rule.alternatives.filter((alternative) => alternative.hits === 0)
+                    .map((alternative) => alternative.range));
+            }
+        }
+
+        window.visibleTextEditors.forEach((editor) => {
+            this.decorate(editor);
+        });
+
+        const content = GrammarCoverage.formatReport(report, `Grammar Coverage: ${path.basename(grammar)}`);
+        const document = await workspace.openTextDocument({ content, language: "markdown" });
+        await window.showTextDocument(document, ViewColumn.Beside, true);
+    }
+
+    /**
+     * Removes all gutter marks.
+     */
+    public clear(): void {
+        this.uncovered.clear();
+        window.visibleTextEditors.forEach((editor) => {
+            this.decorate(editor);
+        });
+    }
+
+    private decorate(editor: TextEditor): void {
+        const ranges = this.uncovered.get(editor.document.fileName) ?? [];
+        editor.setDecorations(this.decorationType, ranges.map((range) => new Range(range.start.row - 1,
+            range.start.column, range.end.row - 1, range.end.column)));
+    }
+}
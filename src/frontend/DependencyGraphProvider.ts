@@ -0,0 +1,237 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as path from "path";
+
+import {
+    ExtensionContext, Range, Selection, TextEditor, TextEditorRevealType, Uri, ViewColumn, Webview, window, workspace,
+} from "vscode";
+
+import { AntlrFacade, GrammarDependencyGraph, GrammarDependencyKind, LexicalRange } from "../backend/facade";
+import { GrammarType } from "../backend/SourceContext";
+import { Utils } from "./Utils";
+import { WebviewMessage, WebviewProvider, WebviewShowOptions } from "./WebviewProvider";
+
+/**
+ * The dependency graph as prepared for the webview script.
+ */
+interface DependencyGraphData {
+    grammars: Array<{ id: string; name: string; type: string; cyclic: boolean }>;
+    links: Array<{ source: string; target: string; kind: string; file: string; range?: LexicalRange }>;
+    problems: Array<{ text: string; file: string; range?: LexicalRange }>;
+}
+
+/**
+ * Shows how all grammars in the workspace depend on each other, via imports and token vocabularies.
+ * Circular dependencies and grammars which cannot be found are reported.
+ */
+export class AntlrDependencyGraphProvider extends WebviewProvider {
+    // There's only one dependency graph, which is not bound to a specific grammar.
+    private static readonly graphUri = Uri.parse("antlr4-dependencies:workspace");
+
+    private graph: GrammarDependencyGraph = { grammars: [], dependencies: [], cycles: [] };
+    private isOpen = false;
+
+    public constructor(backend: AntlrFacade, context: ExtensionContext) {
+        super(backend, context);
+
+        // Dependencies are resolved on disk, so the graph only changes when grammar files are saved or removed.
+        context.subscriptions.push(workspace.onDidSaveTextDocument((document) => {
+            if (document.languageId === "antlr") {
+                void this.refresh();
+            }
+        }));
+        context.subscriptions.push(workspace.onDidCreateFiles(() => { void this.refresh(); }));
+        context.subscriptions.push(workspace.onDidDeleteFiles(() => { void this.refresh(); }));
+    }
+
+    /**
+     * Converts the backend graph into a form which can directly be used by the webview script.
+     *
+     * @param graph The graph to convert.
+     *
+     * @returns The converted graph.
+     */
+    private static prepareData(graph: GrammarDependencyGraph): DependencyGraphData {
+        const data: DependencyGraphData = { grammars: [], links: [], problems: [] };
+
+        const cyclic = new Set<string>();
+        for (const cycle of graph.cycles) {
+            cycle.forEach((fileName) => { cyclic.add(fileName); });
+
+            const names = cycle.map((fileName) => path.basename(fileName));
+            data.problems.push({
+                text: names.length === 1 ? `${names[0]} depends on itself` :
+                    `Circular dependency between ${names.join(", ")}`,
+                file: cycle[0],
+            });
+        }
+
+        for (const grammar of graph.grammars) {
+            let type: string;
+            switch (grammar.type) {
+                case GrammarType.Lexer: {
+                    type = "lexer";
+                    break;
+                }
+
+                case GrammarType.Parser: {
+                    type = "parser";
+                    break;
+                }
+
+                case GrammarType.Combined: {
+                    type = "combined";
+                    break;
+                }
+
+                default: {
+                    type = "unknown";
+                    break;
+                }
+            }
+
+            data.grammars.push({
+                id: grammar.fileName,
+                name: grammar.name,
+                type,
+                cyclic: cyclic.has(grammar.fileName),
+            });
+        }
+
+        for (const dependency of graph.dependencies) {
+            let target = dependency.target;
+            if (!target) {
+                // One node for each missing grammar name.
+                target = "missing:" + dependency.name;
+                if (!data.grammars.some((grammar) => grammar.id === target)) {
+                    data.grammars.push({ id: target, name: dependency.name, type: "missing", cyclic: false });
+                }
+
+                data.problems.push({
+                    text: `Grammar '${dependency.name}' (used in ${path.basename(dependency.source)}) not found`,
+                    file: dependency.source,
+                    range: dependency.range,
+                });
+            }
+
+            data.links.push({
+                source: dependency.source,
+                target,
+                kind: dependency.kind === GrammarDependencyKind.TokenVocab ? "token-vocab" : "import",
+                file: dependency.source,
+                range: dependency.range,
+            });
+        }
+
+        return data;
+    }
+
+    /**
+     * Collects all grammars in the workspace and opens (or updates) the dependency graph.
+     */
+    public async showDependencyGraph(): Promise<void> {
+        await this.collectDependencies();
+        this.showWebview(AntlrDependencyGraphProvider.graphUri, { title: "Grammar Dependencies" });
+        this.isOpen = true;
+    }
+
+    /**
+     * Updates the dependency graph, if it is open.
+     */
+    public async refresh(): Promise<void> {
+        if (!this.isOpen) {
+            return;
+        }
+
+        await this.collectDependencies();
+        if (!this.updateContent(AntlrDependencyGraphProvider.graphUri)) {
+            // The graph was closed.
+            this.isOpen = false;
+        }
+    }
+
+    protected generateContent(webView: Webview, source: TextEditor | Uri, options: WebviewShowOptions): string {
+        const data = AntlrDependencyGraphProvider.prepareData(this.graph);
+
+        const nonce = new Date().getTime() + "" + new Date().getMilliseconds();
+        const scripts = [
+            Utils.getMiscPath("utils.js", this.context, webView),
+            Utils.getMiscPath("dependency-graph.js", this.context, webView),
+        ];
+        const graphLibPath = Utils.getNodeModulesPath("d3/dist/d3.js", this.context);
+
+        return `<!DOCTYPE html>
+            <html>
+                <head>
+                    <meta http-equiv="Content-type" content="text/html;charset=UTF-8"/>
+                    ${this.generateContentSecurityPolicy(source)}
+                    ${this.getStyles(webView)}
+                    <script src="${graphLibPath}"></script>
+                    <script>
+                        var dependencyGraphData = ${JSON.stringify(data).replace(/</g, "\\u003c")};
+                    </script>
+                    ${this.getScripts(nonce, scripts)}
+                </head>
+
+            <body>
+                <div class="header"><span class="dependency-graph-color"><span class="graph-initial">Ⓓ</span>ependencies
+                    </span>
+                    <span class="action-box">
+                        Save to SVG
+                        <a onClick="exportToSVG('dependency-graph', 'grammar-dependencies');">
+                            <span class="dependency-graph-save-image" />
+                        </a>
+                    </span>
+                </div>
+
+                <div id="container">
+                    <div id="problems" class="dependency-problems"></div>
+                    <svg></svg>
+                </div>
+                <script>renderDependencyGraph();</script>
+            </body>
+        </html>`;
+    }
+
+    protected updateContent(uri: Uri): boolean {
+        return this.sendMessage(uri, {
+            command: "updateDependencyGraph",
+            dependencyGraphData: AntlrDependencyGraphProvider.prepareData(this.graph),
+        });
+    }
+
+    protected handleMessage(message: WebviewMessage): boolean {
+        if (message.command === "revealGrammar") {
+            let range: Range | undefined;
+            if (message.range) {
+                const lexicalRange = message.range as LexicalRange;
+                range = new Range(lexicalRange.start.row - 1, lexicalRange.start.column,
+                    lexicalRange.end.row - 1, lexicalRange.end.column + 1);
+            }
+            void this.reveal(message.file, range);
+
+            return true;
+        }
+
+        return false;
+    }
+
+    private async collectDependencies(): Promise<void> {
+        const files = await workspace.findFiles("**/*.{g4,g}", "**/node_modules/**");
+        this.graph = this.backend.getDependencyGraph(files.map((file) => file.fsPath));
+    }
+
+    private async reveal(fileName: string, range?: Range): Promise<void> {
+        const document = await workspace.openTextDocument(fileName);
+        const editor = await window.showTextDocument(document, ViewColumn.One, false);
+        if (range) {
+            editor.selection = new Selection(range.start, range.end);
+            editor.revealRange(range, TextEditorRevealType.InCenterIfOutsideViewport);
+        }
+    }
+}
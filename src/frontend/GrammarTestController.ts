@@ -0,0 +1,265 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as path from "path";
+
+import {
+    CancellationToken, Diagnostic, DiagnosticCollection, DiagnosticSeverity, Disposable, FileSystemWatcher, languages,
+    Location, Range, RelativePattern, TestController, TestItem, TestMessage, TestRunProfileKind, TestRunRequest, tests,
+    Uri, workspace, WorkspaceFolder,
+} from "vscode";
+
+import { AntlrFacade, GrammarTestOptions, LexicalRange } from "../backend/facade";
+import { GrammarTestRunner } from "../backend/GrammarTestRunner";
+import { GrammarCoverage } from "../backend/GrammarCoverage";
+import { CoverageProvider } from "./CoverageProvider";
+
+/**
+ * A single entry in the "antlr4.tests" setting.
+ */
+interface GrammarTestSuiteConfiguration {
+    grammar: string;
+    startRule: string;
+    inputs: string;
+    actionFile?: string;
+}
+
+/**
+ * The resolved details of a test suite, with absolute paths.
+ */
+interface GrammarTestSuite {
+    grammar: string;
+    inputs: string;
+    options: GrammarTestOptions;
+}
+
+/**
+ * Integrates the parse tree tests (inputs compared with golden files) into the VS Code Test Explorer.
+ * Each configured suite becomes a test item with one child per input file. Problems found in an input file
+ * (unexpected or missing errors, wrong tokens) are also shown as diagnostics in that file.
+ */
+export class GrammarTestController implements Disposable {
+    private controller: TestController;
+    private diagnostics: DiagnosticCollection;
+    private suites = new Map<string, GrammarTestSuite>(); // Keyed by suite item ID.
+    private watchers: FileSystemWatcher[] = [];
+    private disposables: Disposable[] = [];
+
+    public constructor(private backend: AntlrFacade, private coverageProvider: CoverageProvider) {
+        this.controller = tests.createTestController("antlr4", "ANTLR4 Grammar Tests");
+        this.diagnostics = languages.createDiagnosticCollection("antlr4-tests");
+
+        this.controller.createRunProfile("Run", TestRunProfileKind.Run, (request, token) => {
+            void this.runTests(request, token, false);
+        }, true);
+
+        this.controller.createRunProfile("Update Golden Files", TestRunProfileKind.Run, (request, token) => {
+            void this.runTests(request, token, true);
+        }, false);
+
+        this.controller.createRunProfile("Run with Coverage", TestRunProfileKind.Coverage, (request, token) => {
+            void this.runTests(request, token, false, true);
+        }, true);
+
+        this.disposables.push(workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration("antlr4.tests")) {
+                this.refresh();
+            }
+        }));
+
+        this.disposables.push(workspace.onDidChangeWorkspaceFolders(() => {
+            this.refresh();
+        }));
+
+        this.refresh();
+    }
+
+    private static toRange(range: LexicalRange): Range {
+        return new Range(range.start.row - 1, range.start.column, range.end.row - 1, range.end.column);
+    }
+
+    public dispose(): void {
+        Disposable.from(...this.watchers, ...this.disposables, this.controller, this.diagnostics).dispose();
+    }
+
+    /**
+     * Re-reads the test configuration of all workspace folders and rebuilds the test items.
+     */
+    public refresh(): void {
+        Disposable.from(...this.watchers).dispose();
+        this.watchers = [];
+        this.suites.clear();
+
+        const items: TestItem[] = [];
+        for (const folder of workspace.workspaceFolders ?? []) {
+            const entries = workspace.getConfiguration("antlr4", folder.uri).get<GrammarTestSuiteConfiguration[]>(
+                "tests") ?? [];
+
+            for (const entry of entries) {
+                const suite = this.resolveSuite(folder, entry);
+                const id = `${suite.grammar}|${suite.options.startRule}|${suite.inputs}`;
+                if (this.suites.has(id)) {
+                    continue;
+                }
+
+                const item = this.controller.createTestItem(id,
+                    `${path.basename(suite.grammar)}: ${suite.options.startRule}`, Uri.file(suite.inputs));
+                this.suites.set(id, suite);
+                this.updateInputs(item, suite);
+                items.push(item);
+
+                const watcher = workspace.createFileSystemWatcher(new RelativePattern(suite.inputs, "*"));
+                const update = () => {
+                    this.updateInputs(item, suite);
+                };
+                watcher.onDidCreate(update);
+                watcher.onDidDelete(update);
+                this.watchers.push(watcher);
+            }
+        }
+
+        this.controller.items.replace(items);
+    }
+
+    /**
+     * Resolves relative paths in a suite configuration against the given workspace folder.
+     *
+     * @param folder The folder whose settings contain the entry.
+     * @param entry The configuration entry.
+     *
+     * @returns The resolved suite.
+     */
+    private resolveSuite(folder: WorkspaceFolder, entry: GrammarTestSuiteConfiguration): GrammarTestSuite {
+        const resolve = (file: string): string => (path.isAbsolute(file) ? file : path.join(folder.uri.fsPath, file));
+
+        return {
+            grammar: resolve(entry.grammar),
+            inputs: resolve(entry.inputs),
+            options: {
+                startRule: entry.startRule,
+                actionFile: entry.actionFile ? resolve(entry.actionFile) : undefined,
+            },
+        };
+    }
+
+    private updateInputs(item: TestItem, suite: GrammarTestSuite): void {
+        item.children.replace(GrammarTestRunner.findInputs(suite.inputs).map((input) => this.controller.createTestItem(
+            `${item.id}|${input}`, path.basename(input), Uri.file(input))));
+    }
+
+    private async runTests(request: TestRunRequest, token: CancellationToken, updateGoldens: boolean,
+        withCoverage = false): Promise<void> {
+        const run = this.controller.createTestRun(request);
+
+        // Collect the input items to run, grouped by their suite.
+        const queue: TestItem[] = [];
+        const addItem = (item: TestItem): void => {
+            if (request.exclude?.includes(item)) {
+                return;
+            }
+
+            if (item.parent) {
+                queue.push(item);
+            } else {
+                item.children.forEach(addItem);
+            }
+        };
+
+        if (request.include) {
+            request.include.forEach(addItem);
+        } else {
+            this.controller.items.forEach(addItem);
+        }
+
+        queue.forEach((item) => run.enqueued(item));
+
+        const loaded = new Set<string>();
+        const coverages = new Map<string, GrammarCoverage>(); // Keyed by grammar file name.
+        for (const item of queue) {
+            if (token.isCancellationRequested) {
+                run.skipped(item);
+
+                continue;
+            }
+
+            const suite = this.suites.get(item.parent!.id);
+            if (!suite || !item.uri) {
+                run.skipped(item);
+
+                continue;
+            }
+
+            run.started(item);
+            const start = Date.now();
+            try {
+                if (!loaded.has(suite.grammar)) {
+                    this.backend.loadGrammar(suite.grammar);
+                    await this.backend.generate(suite.grammar, {
+                        outputDir: path.join(path.dirname(suite.grammar), ".antlr"),
+                        loadOnly: true,
+                    });
+                    loaded.add(suite.grammar);
+                }
+
+                let coverage: GrammarCoverage | undefined;
+                if (withCoverage) {
+                    coverage = coverages.get(suite.grammar) ?? new GrammarCoverage();
+                    coverages.set(suite.grammar, coverage);
+                }
+
+                const result = this.backend.runGrammarTest(suite.grammar, item.uri.fsPath,
+                    { ...suite.options, updateGoldens, coverage });
+                const duration = Date.now() - start;
+
+                const uri = item.uri;
+                this.diagnostics.set(uri, result.diagnostics.map((entry) => new Diagnostic(
+                    GrammarTestController.toRange(entry.range), entry.message, DiagnosticSeverity.Error)));
+
+                if (result.passed) {
+                    run.passed(item, duration);
+                } else {
+                    const messages = result.messages.map((text) => {
+                        const message = new TestMessage(text);
+                        const diagnostic = result.diagnostics.find((entry) => entry.message === text);
+                        if (diagnostic) {
+                            message.location = new Location(uri, GrammarTestController.toRange(diagnostic.range));
+                        }
+
+                        return message;
+                    });
+
+                    const actualTree = result.output.tree + "\n";
+                    if (result.expectedTree !== undefined && GrammarTestRunner.normalize(result.expectedTree)
+                        !== GrammarTestRunner.normalize(actualTree)) {
+                        messages.push(TestMessage.diff("Parse tree", result.expectedTree, actualTree));
+                    }
+
+                    const actualTokens = result.output.tokens.join("\n") + "\n";
+                    if (result.expectedTokens !== undefined && GrammarTestRunner.normalize(result.expectedTokens)
+                        !== GrammarTestRunner.normalize(actualTokens)) {
+                        messages.push(TestMessage.diff("Tokens", result.expectedTokens, actualTokens));
+                    }
+
+                    run.failed(item, messages, duration);
+                }
+            } catch (reason) {
+                run.errored(item, new TestMessage(String(reason)));
+            }
+        }
+
+        for (const [grammar, coverage] of coverages) {
+            await this.coverageProvider.show(grammar, this.backend.getCoverageReport(grammar, coverage));
+        }
+
+        // The grammars stay loaded as long as they are open in an editor.
+        loaded.forEach((grammar) => {
+            this.backend.releaseGrammar(grammar);
+        });
+
+        run.end();
+    }
+}
@@ -0,0 +1,138 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as path from "path";
+
+import {
+    Range, Selection, TextEditor, TextEditorRevealType, Uri, ViewColumn, Webview, window, workspace,
+} from "vscode";
+
+import { LexicalRange, ModeTransitionKind } from "../backend/facade";
+import { Utils } from "./Utils";
+import { WebviewMessage, WebviewProvider, WebviewShowOptions } from "./WebviewProvider";
+
+/**
+ * A connection between two modes in the mode graph, which combines all lexer rules with the same transition.
+ */
+interface ModeGraphLink {
+    source: string;
+    target: string;
+    kind: "push" | "pop" | "switch";
+    rules: Array<{ name: string; range: LexicalRange }>;
+}
+
+/**
+ * Renders the lexer modes of a grammar as state diagram. Pop transitions are drawn back to all modes
+ * which push the popping mode.
+ */
+export class AntlrModeGraphProvider extends WebviewProvider {
+
+    public generateContent(webView: Webview, source: TextEditor | Uri, options: WebviewShowOptions): string {
+        const uri = (source instanceof Uri) ? source : source.document.uri;
+
+        const fileName = uri.fsPath;
+        const baseName = path.basename(fileName, path.extname(fileName));
+
+        const graph = this.backend.getModeGraph(fileName);
+        const links = new Map<string, ModeGraphLink>();
+        const addLink = (sourceMode: string, target: string, kind: ModeGraphLink["kind"], rule: string,
+            range: LexicalRange) => {
+            const key = `${sourceMode}\n${target}\n${kind}`;
+            let link = links.get(key);
+            if (!link) {
+                link = { source: sourceMode, target, kind, rules: [] };
+                links.set(key, link);
+            }
+            link.rules.push({ name: rule, range });
+        };
+
+        for (const transition of graph.transitions) {
+            switch (transition.kind) {
+                case ModeTransitionKind.Push: {
+                    addLink(transition.source, transition.target!, "push", transition.rule, transition.range);
+                    break;
+                }
+
+                case ModeTransitionKind.Switch: {
+                    addLink(transition.source, transition.target!, "switch", transition.rule, transition.range);
+                    break;
+                }
+
+                default: {
+                    for (const push of graph.transitions) {
+                        if (push.kind === ModeTransitionKind.Push && push.target === transition.source) {
+                            addLink(transition.source, push.source, "pop", transition.rule, transition.range);
+                        }
+                    }
+
+                    break;
+                }
+            }
+        }
+
+        const data = { file: fileName, modes: graph.modes, links: [...links.values()] };
+
+        const nonce = new Date().getTime() + "" + new Date().getMilliseconds();
+        const scripts = [
+            Utils.getMiscPath("utils.js", this.context, webView),
+            Utils.getMiscPath("mode-graph.js", this.context, webView),
+        ];
+        const graphLibPath = Utils.getNodeModulesPath("d3/dist/d3.js", this.context);
+
+        return `<!DOCTYPE html>
+            <html>
+                <head>
+                    <meta http-equiv="Content-type" content="text/html;charset=UTF-8"/>
+                    ${this.generateContentSecurityPolicy(source)}
+                    ${this.getStyles(webView)}
+                    <base href="${uri.toString(true)}">
+                    <script src="${graphLibPath}"></script>
+                    <script>
+                        var modeGraphData = ${JSON.stringify(data)};
+                    </script>
+                    ${this.getScripts(nonce, scripts)}
+                </head>
+
+            <body>
+                <div class="header"><span class="mode-graph-color"><span class="graph-initial">Ⓜ</span>ode Graph
+                    </span>
+                    <span class="action-box">
+                        Save to SVG
+                        <a onClick="exportToSVG('mode-graph', '${baseName}');">
+                            <span class="mode-graph-save-image" />
+                        </a>
+                    </span>
+                </div>
+
+                <div id="container">
+                    <svg></svg>
+                </div>
+                <script>render();</script>
+            </body>
+        </html>`;
+    }
+
+    protected handleMessage(message: WebviewMessage): boolean {
+        if (message.command === "revealCommand") {
+            const lexicalRange = message.range as LexicalRange;
+            const range = new Range(lexicalRange.start.row - 1, lexicalRange.start.column,
+                lexicalRange.end.row - 1, lexicalRange.end.column);
+            void this.reveal(message.file, range);
+
+            return true;
+        }
+
+        return false;
+    }
+
+    private async reveal(fileName: string, range: Range): Promise<void> {
+        const document = await workspace.openTextDocument(fileName);
+        const editor = await window.showTextDocument(document, ViewColumn.One, false);
+        editor.selection = new Selection(range.start, range.end);
+        editor.revealRange(range, TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+}
@@ -0,0 +1,227 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { ExtensionContext, TextEditor, Uri, Webview, window, workspace } from "vscode";
+
+import { AntlrFacade, ParseTreeNode, ParseTreeNodeType } from "../backend/facade";
+import { GrammarDebugger } from "../backend/GrammarDebugger";
+import { AntlrParseTreeProvider } from "./ParseTreeProvider";
+import { WebviewShowOptions } from "./WebviewProvider";
+
+/**
+ * A grammar paired with an input file and a start rule.
+ */
+interface ParseTreePreview {
+    grammar: Uri;
+    input: string;
+    startRule: string;
+
+    debugger?: GrammarDebugger;
+    tree?: ParseTreeNode;
+}
+
+/**
+ * Shows the parse tree for an input file without a debug session. The tree is updated when the input changes
+ * or the interpreter data of the grammar was regenerated, and the node at the caret position in the input
+ * is highlighted.
+ */
+export class AntlrParseTreePreviewProvider extends AntlrParseTreeProvider {
+    private previews = new Map<string, ParseTreePreview>(); // Keyed by grammar URI.
+    private changeTimer: ReturnType<typeof setTimeout> | undefined;
+
+    public constructor(backend: AntlrFacade, context: ExtensionContext) {
+        super(backend, context);
+
+        context.subscriptions.push(workspace.onDidChangeTextDocument((event) => {
+            if (event.contentChanges.length === 0 || !this.isInput(event.document.fileName)) {
+                return;
+            }
+
+            if (this.changeTimer) {
+                clearTimeout(this.changeTimer);
+            }
+            this.changeTimer = setTimeout(() => {
+                this.changeTimer = undefined;
+                this.refresh();
+            }, 300);
+        }));
+
+        context.subscriptions.push(window.onDidChangeTextEditorSelection((event) => {
+            if (this.isInput(event.textEditor.document.fileName)) {
+                this.highlightNodes(event.textEditor);
+            }
+        }));
+    }
+
+    /**
+     * Searches the deepest node in a parse tree, which covers the given character index.
+     *
+     * @param node The (sub) tree to search.
+     * @param index The character index in the input.
+     *
+     * @returns The found node or undefined if the index is outside of the tree.
+     */
+    private static nodeAtIndex(node: ParseTreeNode, index: number): ParseTreeNode | undefined {
+        if (node.type !== ParseTreeNodeType.Rule) {
+            const symbol = node.symbol;
+            if (symbol && symbol.tokenIndex >= 0 && symbol.startIndex <= index && index <= symbol.stopIndex) {
+                return node;
+            }
+
+            return undefined;
+        }
+
+        if (!node.start || node.start.startIndex > index || (node.stop && node.stop.stopIndex < index)) {
+            return undefined;
+        }
+
+        for (const child of node.children) {
+            const result = AntlrParseTreePreviewProvider.nodeAtIndex(child, index);
+            if (result) {
+                return result;
+            }
+        }
+
+        return node;
+    }
+
+    /**
+     * Opens (or updates) the parse tree preview for the grammar in the given editor.
+     *
+     * @param editor The editor with the grammar to use for parsing.
+     * @param input The file to parse.
+     * @param startRule The rule to start parsing with.
+     *
+     * @returns True if the input could be parsed, otherwise false (e.g. if the grammar has errors).
+     */
+    public showPreview(editor: TextEditor, input: string, startRule: string): boolean {
+        const preview: ParseTreePreview = { grammar: editor.document.uri, input, startRule };
+        if (!this.parse(preview)) {
+            return false;
+        }
+
+        this.previews.set(preview.grammar.toString(), preview);
+        this.showWebview(preview.grammar, { title: `Parse Tree: ${path.basename(input)} (${startRule})` });
+
+        const inputEditor = window.visibleTextEditors.find((candidate) => candidate.document.fileName === input);
+        if (inputEditor) {
+            this.highlightNodes(inputEditor);
+        }
+
+        return true;
+    }
+
+    /**
+     * Parses the inputs of all open previews again.
+     */
+    public refresh(): void {
+        for (const [key, preview] of this.previews) {
+            if (!this.parse(preview)) {
+                // Keep the last tree, e.g. while the grammar has errors.
+                continue;
+            }
+
+            if (!this.sendMessage(preview.grammar, { command: "updateParseTreeData", treeData: preview.tree })) {
+                // The preview was closed.
+                this.previews.delete(key);
+            }
+        }
+
+        window.visibleTextEditors.forEach((editor) => {
+            if (this.isInput(editor.document.fileName)) {
+                this.highlightNodes(editor);
+            }
+        });
+    }
+
+    public generateContent(webView: Webview, uri: Uri, options: WebviewShowOptions): string {
+        this.selectDebugger(uri);
+
+        return super.generateContent(webView, uri, options);
+    }
+
+    protected updateContent(uri: Uri): boolean {
+        this.selectDebugger(uri);
+
+        return super.updateContent(uri);
+    }
+
+    /**
+     * Runs the input of the preview through the grammar interpreters. Unsaved changes in an open input document
+     * are taken into account. A new debugger is created for each run, as the interpreter data might have changed.
+     *
+     * @param preview The preview to update.
+     *
+     * @returns True if a parse tree could be created.
+     */
+    private parse(preview: ParseTreePreview): boolean {
+        const grammar = preview.grammar.fsPath;
+        const debuggerInstance = this.backend.createDebugger(grammar, "", path.join(path.dirname(grammar), ".antlr"));
+        if (!debuggerInstance || !debuggerInstance.isValid) {
+            return false;
+        }
+
+        const startRuleIndex = debuggerInstance.ruleIndexFromName(preview.startRule);
+        if (startRuleIndex < 0) {
+            return false;
+        }
+
+        let text: string;
+        const document = workspace.textDocuments.find((candidate) => candidate.fileName === preview.input);
+        if (document) {
+            text = document.getText();
+        } else {
+            try {
+                text = fs.readFileSync(preview.input, { encoding: "utf8" });
+            } catch (reason) {
+                return false;
+            }
+        }
+
+        debuggerInstance.parse(startRuleIndex, text);
+        preview.debugger = debuggerInstance;
+        preview.tree = debuggerInstance.currentParseTree;
+
+        return preview.tree !== undefined;
+    }
+
+    /**
+     * Highlights the parse tree node at the caret position of the given input editor, in all previews for that
+     * input.
+     *
+     * @param editor The editor with the input file.
+     */
+    private highlightNodes(editor: TextEditor): void {
+        const index = editor.document.offsetAt(editor.selection.active);
+        for (const preview of this.previews.values()) {
+            if (preview.input === editor.document.fileName && preview.tree) {
+                const node = AntlrParseTreePreviewProvider.nodeAtIndex(preview.tree, index);
+                this.sendMessage(preview.grammar, { command: "highlightParseTreeNode", id: node?.id ?? -1 });
+            }
+        }
+    }
+
+    private selectDebugger(uri: Uri): void {
+        const preview = this.previews.get(uri.toString());
+        if (preview?.debugger) {
+            this.debugger = preview.debugger;
+        }
+    }
+
+    private isInput(fileName: string): boolean {
+        for (const preview of this.previews.values()) {
+            if (preview.input === fileName) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+}
@@ -9,10 +9,12 @@ import * as path from "path";
 import * as vscode from "vscode";
 
 import { SymbolKind } from "../backend/facade";
-import { WebviewProvider, WebviewShowOptions } from "./WebviewProvider";
+import { WebviewMessage, WebviewProvider, WebviewShowOptions } from "./WebviewProvider";
 import { Utils } from "./Utils";
 
 export class AntlrRailroadDiagramProvider extends WebviewProvider {
+    // Set when the user toggled annotations in the diagram view. Takes precedence over the configuration.
+    private showAnnotations: boolean | undefined;
 
     public generateContent(webView: vscode.Webview, editor: vscode.TextEditor, options: WebviewShowOptions): string {
         const caret = editor.selection.active;
@@ -24,6 +26,19 @@ export class AntlrRailroadDiagramProvider extends WebviewProvider {
         }
 
         const baseName = path.basename(fileName, path.extname(fileName));
+        const annotated = this.showAnnotations ??
+            vscode.workspace.getConfiguration("antlr4.rrd").showAnnotations as boolean ?? true;
+        const checked = annotated ? " checked" : "";
+        const annotationSwitch = `
+            Plain
+            <span class="switch">
+                <span class="switch-border">
+                    <input id="switch1" type="checkbox" onClick="toggleAnnotations(this)"${checked}/>
+                    <label for="switch1"></label>
+                    <span class="switch-handle-top"></span>
+                </span>
+            </span>
+            Annotated&nbsp;&nbsp;`;
 
         // Content Security Policy
         const nonce = new Date().getTime() + "" + new Date().getMilliseconds();
@@ -49,7 +64,7 @@ export class AntlrRailroadDiagramProvider extends WebviewProvider {
             diagram += `
                 <div class="header">
                     <span class="rrd-color"><span class="graph-initial">Ⓡ</span>rd&nbsp;&nbsp;</span>All rules
-                    <span class="action-box">
+                    <span class="action-box">${annotationSwitch}
                     Save to HTML<a onClick="exportToHTML('rrd', '${baseName}');"><span class="rrd-save-image" /></a>
                     </span>
                 </div>
@@ -59,7 +74,7 @@ export class AntlrRailroadDiagramProvider extends WebviewProvider {
                 if (symbol.kind === SymbolKind.LexerRule
                     || symbol.kind === SymbolKind.ParserRule
                     || symbol.kind === SymbolKind.FragmentLexerToken) {
-                    const script = this.backend.getRRDScript(fileName, symbol.name);
+                    const script = this.backend.getRRDScript(fileName, symbol.name, annotated);
                     diagram += `<h3>${symbol.name}</h3>\n<script>${script}</script>\n\n`;
                 }
             }
@@ -70,12 +85,12 @@ export class AntlrRailroadDiagramProvider extends WebviewProvider {
                     <span class="rrd-color">
                         <span class="graph-initial">Ⓡ</span>ule&nbsp;&nbsp;
                     </span>&nbsp;&nbsp;${ruleName} <span class="rule-index">(rule index: ${ruleIndex})</span>
-                    <span class="action-box">
+                    <span class="action-box">${annotationSwitch}
                     Save to SVG<a onClick="exportToSVG('rrd', '${ruleName}');"><span class="rrd-save-image" /></a>
                     </span>
                 </div>
                 <div id="container">
-                    <script>${this.backend.getRRDScript(fileName, ruleName)}</script>
+                    <script>${this.backend.getRRDScript(fileName, ruleName, annotated)}</script>
                 </div>
             `;
         }
@@ -83,4 +98,17 @@ export class AntlrRailroadDiagramProvider extends WebviewProvider {
 
         return diagram;
     }
+
+    protected handleMessage(message: WebviewMessage): boolean {
+        if (message.command === "toggleRRDAnnotations") {
+            this.showAnnotations = message.show as boolean;
+            if (this.currentEditor) {
+                this.update(this.currentEditor);
+            }
+
+            return true;
+        }
+
+        return false;
+    }
 }
@@ -0,0 +1,103 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as fs from "fs-extra";
+
+import {
+    commands, Event, EventEmitter, Range, TextDocumentContentProvider, Uri, window, workspace, WorkspaceEdit,
+} from "vscode";
+
+import { GrammarEdit, Refactoring } from "../backend/facade";
+
+/**
+ * Shows the result of a refactoring as a diff against the current grammar text, before it is applied.
+ */
+export class RefactoringPreviewProvider implements TextDocumentContentProvider {
+    public static readonly scheme = "antlr4-preview";
+
+    private contents = new Map<string, string>(); // Keyed by preview URI.
+    private changeEvent = new EventEmitter<Uri>();
+
+    /**
+     * Applies the edits for one file to the given text.
+     *
+     * @param text The current file content.
+     * @param edits The edits for this file.
+     *
+     * @returns The new content.
+     */
+    private static applyEdits(text: string, edits: GrammarEdit[]): string {
+        const lineStarts = [0];
+        for (let i = 0; i < text.length; ++i) {
+            if (text[i] === "\n") {
+                lineStarts.push(i + 1);
+            }
+        }
+
+        const offset = (position: { column: number; row: number }) => lineStarts[position.row - 1] + position.column;
+
+        // Apply from the end, so that earlier offsets stay valid.
+        const sorted = [...edits].sort((lhs, rhs) => offset(rhs.range.start) - offset(lhs.range.start));
+        for (const edit of sorted) {
+            text = text.substring(0, offset(edit.range.start)) + edit.text + text.substring(offset(edit.range.end));
+        }
+
+        return text;
+    }
+
+    public get onDidChange(): Event<Uri> {
+        return this.changeEvent.event;
+    }
+
+    public provideTextDocumentContent(uri: Uri): string {
+        return this.contents.get(uri.toString()) ?? "";
+    }
+
+    /**
+     * Shows a diff for each file changed by the refactoring and asks the user to apply the changes.
+     *
+     * @param refactoring The changes to preview.
+     *
+     * @returns True if the changes were applied.
+     */
+    public async preview(refactoring: Refactoring): Promise<boolean> {
+        const editsPerFile = new Map<string, GrammarEdit[]>();
+        for (const edit of refactoring.edits) {
+            const edits = editsPerFile.get(edit.fileName) ?? [];
+            edits.push(edit);
+            editsPerFile.set(edit.fileName, edits);
+        }
+
+        const previews: Uri[] = [];
+        for (const [fileName, edits] of editsPerFile) {
+            const uri = Uri.file(fileName);
+            const document = workspace.textDocuments.find((candidate) => candidate.fileName === fileName);
+            const text = document ? document.getText() : fs.readFileSync(fileName, "utf8");
+
+            const previewUri = uri.with({ scheme: RefactoringPreviewProvider.scheme });
+            this.contents.set(previewUri.toString(), RefactoringPreviewProvider.applyEdits(text, edits));
+            this.changeEvent.fire(previewUri);
+            previews.push(previewUri);
+
+            await commands.executeCommand("vscode.diff", uri, previewUri, `${refactoring.title} (Preview)`);
+        }
+
+        const answer = await window.showInformationMessage(`Apply "${refactoring.title}"?`, "Apply", "Cancel");
+        previews.forEach((uri) => this.contents.delete(uri.toString()));
+        if (answer !== "Apply") {
+            return false;
+        }
+
+        const workspaceEdit = new WorkspaceEdit();
+        for (const edit of refactoring.edits) {
+            workspaceEdit.replace(Uri.file(edit.fileName), new Range(edit.range.start.row - 1, edit.range.start.column,
+                edit.range.end.row - 1, edit.range.end.column), edit.text);
+        }
+
+        return workspace.applyEdit(workspaceEdit);
+    }
+}
@@ -0,0 +1,192 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+    ExtensionContext, Range, Selection, TextEditor, TextEditorRevealType, Uri, ViewColumn, Webview, window, workspace,
+} from "vscode";
+
+import { AntlrFacade, LexicalRange, TokenStreamResult } from "../backend/facade";
+import { Utils } from "./Utils";
+import { WebviewMessage, WebviewProvider, WebviewShowOptions } from "./WebviewProvider";
+
+/**
+ * Shows the tokens the lexer interpreter produces for an input file. The view is refreshed whenever the input
+ * changes or the interpreter data of the grammar was regenerated.
+ */
+export class AntlrTokenStreamProvider extends WebviewProvider {
+    private inputs = new Map<string, [Uri, string]>(); // Grammar URI -> (grammar URI, input file name).
+    private changeTimer: ReturnType<typeof setTimeout> | undefined;
+
+    public constructor(backend: AntlrFacade, context: ExtensionContext) {
+        super(backend, context);
+
+        context.subscriptions.push(workspace.onDidChangeTextDocument((event) => {
+            if (event.contentChanges.length === 0 || !this.isInput(event.document.fileName)) {
+                return;
+            }
+
+            if (this.changeTimer) {
+                clearTimeout(this.changeTimer);
+            }
+            this.changeTimer = setTimeout(() => {
+                this.changeTimer = undefined;
+                this.refresh();
+            }, 300);
+        }));
+    }
+
+    /**
+     * Opens (or updates) the token stream view for the grammar in the given editor.
+     *
+     * @param editor The editor with the grammar to use for lexing.
+     * @param inputFile The file to tokenize.
+     */
+    public showTokenStream(editor: TextEditor, inputFile: string): void {
+        this.inputs.set(editor.document.uri.toString(), [editor.document.uri, inputFile]);
+        this.showWebview(editor, { title: "Tokens: " + path.basename(inputFile) });
+    }
+
+    /**
+     * Tokenizes the inputs of all open views again.
+     */
+    public refresh(): void {
+        for (const [key, [uri]] of this.inputs) {
+            if (!this.updateContent(uri)) {
+                // The view was closed.
+                this.inputs.delete(key);
+            }
+        }
+    }
+
+    protected generateContent(webView: Webview, source: TextEditor | Uri, options: WebviewShowOptions): string {
+        const uri = (source instanceof Uri) ? source : source.document.uri;
+        const data = this.tokenize(uri);
+
+        const nonce = new Date().getTime() + "" + new Date().getMilliseconds();
+        const scripts = [
+            Utils.getMiscPath("utils.js", this.context, webView),
+            Utils.getMiscPath("token-stream.js", this.context, webView),
+        ];
+
+        return `<!DOCTYPE html>
+            <html>
+                <head>
+                    <meta http-equiv="Content-type" content="text/html;charset=UTF-8">
+                    ${this.generateContentSecurityPolicy(source)}
+                    ${this.getStyles(webView)}
+                    <base target="_blank">
+                    <script>
+                        var tokenStreamData = ${JSON.stringify(data).replace(/</g, "\\u003c")};
+                    </script>
+                </head>
+
+            <body>
+                <div class="header"><span class="token-stream-color"><span class="graph-initial">Ⓣ</span>oken Stream
+                    </span>
+                    <span class="action-box">
+                        ${path.basename(data.input)}: <span id="token-count"></span> tokens
+                    </span>
+                </div>
+
+                <table class="token-table">
+                    <thead>
+                        <tr>
+                            <th>Index</th><th>Type</th><th>Channel</th><th>Mode</th><th>Text</th><th>Position</th>
+                            <th>Rule</th>
+                        </tr>
+                    </thead>
+                    <tbody id="tokens"></tbody>
+                </table>
+                <div id="errors" class="token-errors"></div>
+                ${this.getScripts(nonce, scripts)}
+                <script>renderTokenStream();</script>
+            </body>
+        </html>`;
+    }
+
+    protected updateContent(uri: Uri): boolean {
+        return this.sendMessage(uri, {
+            command: "updateTokenStream",
+            tokenStreamData: this.tokenize(uri),
+        });
+    }
+
+    protected handleMessage(message: WebviewMessage): boolean {
+        switch (message.command) {
+            case "revealInput": {
+                const start = (message.column as number);
+                const range = new Range(message.line - 1, start, message.line - 1, start + (message.length as number));
+                void this.reveal(message.file, range);
+
+                return true;
+            }
+
+            case "revealRule": {
+                const lexicalRange = message.range as LexicalRange;
+                const range = new Range(lexicalRange.start.row - 1, lexicalRange.start.column,
+                    lexicalRange.end.row - 1, lexicalRange.end.column + 1);
+                void this.reveal(message.file, range);
+
+                return true;
+            }
+
+            default: {
+                return false;
+            }
+        }
+    }
+
+    /**
+     * Runs the input which belongs to the given grammar through the lexer interpreter. Unsaved changes in an open
+     * input document are taken into account.
+     *
+     * @param uri The URI of the grammar.
+     *
+     * @returns The input file name together with the produced tokens.
+     */
+    private tokenize(uri: Uri): TokenStreamResult & { input: string } {
+        const entry = this.inputs.get(uri.toString());
+        if (!entry) {
+            return { input: "", tokens: [], errors: [] };
+        }
+
+        const [, input] = entry;
+        let text: string;
+        const document = workspace.textDocuments.find((candidate) => candidate.fileName === input);
+        if (document) {
+            text = document.getText();
+        } else {
+            try {
+                text = fs.readFileSync(input, { encoding: "utf8" });
+            } catch (reason) {
+                return { input, tokens: [], errors: [`Cannot read ${input}: ${String(reason)}`] };
+            }
+        }
+
+        return { input, ...this.backend.getTokenStream(uri.fsPath, text) };
+    }
+
+    private isInput(fileName: string): boolean {
+        for (const [, input] of this.inputs.values()) {
+            if (input === fileName) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    private async reveal(fileName: string, range: Range): Promise<void> {
+        const document = await workspace.openTextDocument(fileName);
+        const editor = await window.showTextDocument(document, ViewColumn.One, false);
+        editor.selection = new Selection(range.start, range.end);
+        editor.revealRange(range, TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+}
@@ -0,0 +1,654 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as fs from "fs-extra";
+import * as path from "path";
+
+import {
+    CodeAction, CodeActionKind, CodeActionParams, CompletionItem, CompletionList, Connection, Diagnostic,
+    DiagnosticSeverity, DocumentFormattingParams, DocumentRangeFormattingParams, DocumentSymbolParams, Hover,
+    InitializeParams, InitializeResult, Location, MarkupKind, Range, ReferenceParams, RenameParams, SymbolInformation,
+    TextDocumentPositionParams, TextDocuments, TextDocumentSyncKind, TextEdit, WorkspaceEdit, CompletionParams,
+    DidChangeWatchedFilesParams, FileChangeType, WorkspaceSymbolParams, ResponseError, ErrorCodes, DiagnosticTag,
+    CompletionItemTag,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+
+import {
+    AntlrFacade, DiagnosticEntry, DiagnosticType, FormattingOptions, GenerationOptions, GrammarEdit, LexicalRange,
+    RefactoringKind, SymbolDocumentation, SymbolKind,
+} from "../backend/facade";
+import { symbolDescriptionFromEnum, translateCompletionKind, translateSymbolKind } from "./Symbol";
+import {
+    generationFinishedNotification, generationStartedNotification, GenerationNotificationParams,
+    InitializationOptions,
+} from "./Protocol";
+import { WorkspaceIndexer } from "./WorkspaceIndexer";
+
+/**
+ * The settings in the "antlr4.generation" section.
+ */
+interface GenerationSettings {
+    mode?: "none" | "internal" | "external";
+    outputDir?: string;
+    importDir?: string;
+    package?: string;
+    language?: string;
+    listeners?: boolean;
+    visitors?: boolean;
+    alternativeJar?: string;
+    additionalParameters?: string;
+}
+
+// Determines the sort order in the completion list. One value for each SymbolKind.
+const sortKeys = [
+    "01", // Keyword
+    "06", // TokenVocab
+    "07", // Import
+    "03", // BuiltInLexerToken
+    "03", // VirtualLexerToken
+    "03", // FragmentLexerToken
+    "03", // LexerToken
+    "05", // BuiltInMode
+    "05", // LexerMode
+    "02", // BuiltInChannel
+    "02", // TokenChannel
+    "04", // ParserRule
+    "08", // Action
+    "09", // Predicate
+    "00", // Operator
+    "10", // Option
+];
+
+// Descriptions for each symbol kind.
+const details = [
+    "Keyword",                // Keyword
+    undefined,                // TokenVocab
+    undefined,                // Import
+    "Built-in lexer token",   // BuiltInLexerToken
+    "Virtual lexer token",    // VirtualLexerToken
+    "Fragment lexer token",   // FragmentLexerToken
+    "Lexer token",            // LexerToken
+    "Built-in lexer mode",    // BuiltInMode
+    "Lexer mode",             // LexerMode
+    "Built-in token channel", // BuiltInChannel
+    "Token channel",          // TokenChannel
+    "Parser rule",            // ParserRule
+    "Action",                 // Action
+    "Predicate",              // Predicate
+    "Operator",               // Operators usually come with an own description from the backend.
+    "Grammar option",
+];
+
+const diagnosticTypeMap = new Map<DiagnosticType, DiagnosticSeverity>([
+    [DiagnosticType.Hint, DiagnosticSeverity.Hint],
+    [DiagnosticType.Info, DiagnosticSeverity.Information],
+    [DiagnosticType.Warning, DiagnosticSeverity.Warning],
+    [DiagnosticType.Error, DiagnosticSeverity.Error],
+]);
+
+const refactoringKinds = new Map<RefactoringKind, string>([
+    [RefactoringKind.Extract, CodeActionKind.RefactorExtract],
+    [RefactoringKind.Inline, CodeActionKind.RefactorInline],
+    [RefactoringKind.Rewrite, CodeActionKind.RefactorRewrite],
+]);
+
+/**
+ * Converts a backend range (one-based rows) to an LSP range (zero-based lines).
+ *
+ * @param range The range to convert.
+ *
+ * @returns The LSP range.
+ */
+const toRange = (range: LexicalRange): Range => {
+    const startRow = range.start.row === 0 ? 0 : range.start.row - 1;
+    const endRow = range.end.row === 0 ? 0 : range.end.row - 1;
+
+    return Range.create(startRow, range.start.column, endRow, range.end.column);
+};
+
+const toDiagnostic = (entry: DiagnosticEntry): Diagnostic => {
+    const diagnostic = Diagnostic.create(toRange(entry.range), entry.message, diagnosticTypeMap.get(entry.type),
+        undefined, "antlr4");
+    if (entry.deprecated) {
+        diagnostic.tags = [DiagnosticTag.Deprecated];
+    }
+
+    return diagnostic;
+};
+
+/**
+ * Renders the documentation comment of a rule as markdown.
+ *
+ * @param documentation The documentation to render.
+ *
+ * @returns The markdown text.
+ */
+const documentationToMarkdown = (documentation: SymbolDocumentation): string => {
+    const parts: string[] = [];
+    if (documentation.deprecated !== undefined) {
+        parts.push("**Deprecated**" + (documentation.deprecated.length > 0 ? ": " + documentation.deprecated : ""));
+    }
+
+    if (documentation.text.length > 0) {
+        parts.push(documentation.text);
+    }
+
+    for (const example of documentation.examples) {
+        parts.push("*Example:*\n```\n" + example + "\n```");
+    }
+
+    return parts.join("\n\n");
+};
+
+/**
+ * Converts backend edits, which can span multiple files, to an LSP workspace edit.
+ *
+ * @param edits The edits to convert.
+ *
+ * @returns The workspace edit.
+ */
+const toWorkspaceEdit = (edits: GrammarEdit[]): WorkspaceEdit => {
+    const changes: { [uri: string]: TextEdit[] } = {};
+    for (const edit of edits) {
+        const uri = URI.file(edit.fileName).toString();
+        if (!changes[uri]) {
+            changes[uri] = [];
+        }
+        changes[uri].push(TextEdit.replace(toRange(edit.range), edit.text));
+    }
+
+    return { changes };
+};
+
+/**
+ * Provides the language features of the backend via the language server protocol. Each open grammar document
+ * is kept in sync with the backend and (re)generated on save, as the VS Code extension did before.
+ */
+export class AntlrLanguageServer {
+    private backend: AntlrFacade;
+    private indexer: WorkspaceIndexer;
+    private documents = new TextDocuments(TextDocument);
+    private hasConfigurationCapability = false;
+    private workspaceFolders: string[] = [];
+
+    private changeTimers = new Map<string, ReturnType<typeof setTimeout>>(); // Keyed by URI.
+    private parsedVersions = new Map<string, number>(); // Keyed by URI.
+
+    public constructor(private connection: Connection) {
+        connection.onInitialize((params) => this.initialize(params));
+        connection.onInitialized(() => {
+            // Index the workspace in the background, once the client is ready.
+            void this.indexer.indexFolders(this.workspaceFolders);
+        });
+
+        connection.onHover((params) => this.hover(params));
+        connection.onDefinition((params) => this.definition(params));
+        connection.onReferences((params) => this.references(params));
+        connection.onRenameRequest((params) => this.rename(params));
+        connection.onCompletion((params) => this.completion(params));
+        connection.onDocumentSymbol((params) => this.documentSymbols(params));
+        connection.onWorkspaceSymbol((params) => this.workspaceSymbols(params));
+        connection.onDocumentFormatting((params) => this.formatDocument(params));
+        connection.onDocumentRangeFormatting((params) => this.formatRange(params));
+        connection.onCodeAction((params) => this.codeActions(params));
+        connection.onDidChangeWatchedFiles((params) => this.watchedFilesChanged(params));
+
+        this.documents.onDidOpen((event) => {
+            const fileName = URI.parse(event.document.uri).fsPath;
+            this.parsedVersions.set(event.document.uri, event.document.version);
+            this.backend.loadGrammar(fileName, event.document.getText());
+            if (this.indexer.isIndexed(fileName)) {
+                // The indexer loaded the file from disk, but the editor content takes precedence.
+                this.backend.setText(fileName, event.document.getText());
+                this.backend.reparse(fileName);
+            }
+
+            this.publishDiagnostics(event.document);
+            void this.regenerateBackgroundData(event.document);
+        });
+
+        this.documents.onDidChangeContent((event) => {
+            const document = event.document;
+            if (this.parsedVersions.get(document.uri) === document.version) {
+                // Already handled when the document was opened.
+                return;
+            }
+
+            const fileName = URI.parse(document.uri).fsPath;
+            this.backend.setText(fileName, document.getText());
+
+            const timer = this.changeTimers.get(document.uri);
+            if (timer) {
+                clearTimeout(timer);
+            }
+
+            this.changeTimers.set(document.uri, setTimeout(() => {
+                this.changeTimers.delete(document.uri);
+                this.parsedVersions.set(document.uri, document.version);
+                this.backend.reparse(fileName);
+                this.publishDiagnostics(document);
+            }, 300));
+        });
+
+        this.documents.onDidSave((event) => {
+            void this.regenerateBackgroundData(event.document);
+        });
+
+        this.documents.onDidClose((event) => {
+            const timer = this.changeTimers.get(event.document.uri);
+            if (timer) {
+                clearTimeout(timer);
+                this.changeTimers.delete(event.document.uri);
+            }
+            this.parsedVersions.delete(event.document.uri);
+
+            const fileName = URI.parse(event.document.uri).fsPath;
+            this.backend.releaseGrammar(fileName);
+
+            // Unsaved changes are gone now.
+            this.indexer.reload(fileName);
+            void this.connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+        });
+    }
+
+    /**
+     * Starts listening for messages from the client.
+     */
+    public listen(): void {
+        this.documents.listen(this.connection);
+        this.connection.listen();
+    }
+
+    private initialize(params: InitializeParams): InitializeResult {
+        const options = (params.initializationOptions ?? {}) as InitializationOptions;
+        this.backend = new AntlrFacade(options.importDir ?? "");
+        this.indexer = new WorkspaceIndexer(this.backend);
+        this.hasConfigurationCapability = params.capabilities.workspace?.configuration ?? false;
+
+        if (params.workspaceFolders) {
+            this.workspaceFolders = params.workspaceFolders.map((folder) => URI.parse(folder.uri).fsPath);
+        } else if (params.rootUri) {
+            this.workspaceFolders = [URI.parse(params.rootUri).fsPath];
+        }
+
+        return {
+            capabilities: {
+                textDocumentSync: {
+                    openClose: true,
+                    change: TextDocumentSyncKind.Incremental,
+                    save: { includeText: false },
+                },
+                hoverProvider: true,
+                definitionProvider: true,
+                referencesProvider: true,
+                renameProvider: true,
+                documentSymbolProvider: true,
+                workspaceSymbolProvider: true,
+                completionProvider: {
+                    triggerCharacters: [" ", ":", "@", "<", "{", "["],
+                },
+                documentFormattingProvider: true,
+                documentRangeFormattingProvider: true,
+                codeActionProvider: {
+                    codeActionKinds: [
+                        CodeActionKind.QuickFix, CodeActionKind.RefactorExtract, CodeActionKind.RefactorInline,
+                        CodeActionKind.RefactorRewrite,
+                    ],
+                },
+            },
+        };
+    }
+
+    private hover(params: TextDocumentPositionParams): Hover | undefined {
+        const fileName = URI.parse(params.textDocument.uri).fsPath;
+        const info = this.backend.symbolInfoAtPosition(fileName, params.position.character, params.position.line + 1,
+            true);
+        if (!info) {
+            return undefined;
+        }
+
+        const description = symbolDescriptionFromEnum(info.kind);
+        let definition = info.definition ? info.definition.text : "";
+        let documentation = "";
+        if (info.documentation) {
+            // The doc comment is part of the rule definition, but is shown separately.
+            definition = definition.replace(/^(\s*\/\*\*[\s\S]*?\*\/)+\s*/, "");
+            documentation = "\n\n---\n\n" + documentationToMarkdown(info.documentation);
+        }
+
+        return {
+            contents: {
+                kind: MarkupKind.Markdown,
+                value: "**" + description + "**\ndefined in: " + path.basename(info.source) + "\n```antlr\n" +
+                    definition + "\n```" + documentation,
+            },
+        };
+    }
+
+    private definition(params: TextDocumentPositionParams): Location | undefined {
+        const fileName = URI.parse(params.textDocument.uri).fsPath;
+        const info = this.backend.symbolInfoAtPosition(fileName, params.position.character, params.position.line + 1,
+            true);
+
+        // No location for built-in entities.
+        if (!info || !info.definition) {
+            return undefined;
+        }
+
+        // Clients often show the text for the range given here (e.g. when holding ctrl/cmd), which is rather
+        // useless given that we show this info already in the hover. So, in order to limit the amount of text
+        // we only pass on the smallest range which is possible. Yet we need the correct start position to not
+        // break the goto-definition feature.
+        return Location.create(URI.file(info.source).toString(), toRange(info.definition.range));
+    }
+
+    private references(params: ReferenceParams): Location[] | undefined {
+        const fileName = URI.parse(params.textDocument.uri).fsPath;
+        const info = this.backend.symbolInfoAtPosition(fileName, params.position.character, params.position.line + 1,
+            false);
+        if (!info) {
+            return undefined;
+        }
+
+        const result: Location[] = [];
+        const occurrences = this.backend.getWorkspaceSymbolOccurrences(fileName, info.name);
+        for (const symbol of occurrences) {
+            if (symbol.definition) {
+                const range = toRange(symbol.definition.range);
+                range.end = { line: range.start.line, character: range.start.character + info.name.length };
+                result.push(Location.create(URI.file(symbol.source).toString(), range));
+            }
+        }
+
+        return result;
+    }
+
+    private rename(params: RenameParams): WorkspaceEdit | ResponseError<void> | undefined {
+        const fileName = URI.parse(params.textDocument.uri).fsPath;
+        const info = this.backend.symbolInfoAtPosition(fileName, params.position.character, params.position.line + 1,
+            false);
+        if (!info) {
+            return undefined;
+        }
+
+        // Renames which would break a grammar are refused with an error, which clients show to the user.
+        const result = this.backend.renameSymbol(fileName, info.name, params.newName);
+        if (result.error) {
+            return new ResponseError<void>(ErrorCodes.InvalidRequest, result.error);
+        }
+
+        return toWorkspaceEdit(result.edits);
+    }
+
+    private completion(params: CompletionParams): CompletionList {
+        const fileName = URI.parse(params.textDocument.uri).fsPath;
+        const candidates = this.backend.getCodeCompletionCandidates(fileName, params.position.character,
+            params.position.line + 1);
+
+        const items = candidates.map((info): CompletionItem => {
+            const item: CompletionItem = {
+                label: info.name,
+                kind: translateCompletionKind(info.kind),
+                sortText: sortKeys[info.kind] + info.name,
+                detail: (info.description !== undefined) ? info.description : details[info.kind],
+            };
+
+            if (info.documentation) {
+                item.documentation = {
+                    kind: MarkupKind.Markdown,
+                    value: documentationToMarkdown(info.documentation),
+                };
+
+                if (info.documentation.deprecated !== undefined) {
+                    item.tags = [CompletionItemTag.Deprecated];
+                }
+            }
+
+            return item;
+        });
+
+        return CompletionList.create(items, false);
+    }
+
+    private documentSymbols(params: DocumentSymbolParams): SymbolInformation[] {
+        const fileName = URI.parse(params.textDocument.uri).fsPath;
+        const symbols = this.backend.listTopLevelSymbols(fileName, false);
+
+        const result: SymbolInformation[] = [];
+        for (const symbol of symbols) {
+            if (!symbol.definition) {
+                continue;
+            }
+
+            let description = symbolDescriptionFromEnum(symbol.kind);
+            const totalTextLength = symbol.name.length + description.length + 1;
+            if (symbol.kind === SymbolKind.LexerMode && totalTextLength < 80) {
+                // Add a marker to show parts which belong to a particular lexer mode.
+                // Not 100% perfect (i.e. right aligned, as symbol and description use different fonts), but good enough.
+                const markerWidth = 80 - totalTextLength;
+                description += " " + "-".repeat(markerWidth);
+            }
+
+            result.push(SymbolInformation.create(symbol.name, translateSymbolKind(symbol.kind),
+                toRange(symbol.definition.range), URI.file(symbol.source).toString(), description));
+        }
+
+        return result;
+    }
+
+    private workspaceSymbols(params: WorkspaceSymbolParams): SymbolInformation[] {
+        return this.backend.findWorkspaceSymbols(params.query).map((symbol) => SymbolInformation.create(symbol.name,
+            translateSymbolKind(symbol.kind), toRange(symbol.definition!.range), URI.file(symbol.source).toString(),
+            path.basename(symbol.source)));
+    }
+
+    private watchedFilesChanged(params: DidChangeWatchedFilesParams): void {
+        for (const change of params.changes) {
+            const fileName = URI.parse(change.uri).fsPath;
+            switch (change.type) {
+                case FileChangeType.Created: {
+                    this.indexer.add(fileName);
+                    break;
+                }
+
+                case FileChangeType.Deleted: {
+                    this.indexer.remove(fileName);
+                    break;
+                }
+
+                default: {
+                    // Open documents are kept in sync by the editor.
+                    if (!this.documents.get(change.uri)) {
+                        this.indexer.reload(fileName);
+                    }
+                    break;
+                }
+            }
+        }
+    }
+
+    private formatDocument(params: DocumentFormattingParams): Promise<TextEdit[]> {
+        const document = this.documents.get(params.textDocument.uri);
+        if (!document) {
+            return Promise.resolve([]);
+        }
+
+        const range = Range.create(document.positionAt(0), document.positionAt(document.getText().length));
+
+        return this.formatRange({ textDocument: params.textDocument, range, options: params.options });
+    }
+
+    private async formatRange(params: DocumentRangeFormattingParams): Promise<TextEdit[]> {
+        const document = this.documents.get(params.textDocument.uri);
+        if (!document) {
+            return [];
+        }
+
+        let start = document.offsetAt(params.range.start);
+        let end = document.offsetAt(params.range.end) - 1; // Make the end inclusive.
+
+        const formatOptions = await this.getSettings<FormattingOptions>("antlr4.format", document.uri);
+        let text = "";
+        [text, start, end] = this.backend.formatGrammar(URI.parse(document.uri).fsPath,
+            Object.assign({}, formatOptions), start, end);
+
+        return [TextEdit.replace(Range.create(document.positionAt(start), document.positionAt(end + 1)), text)];
+    }
+
+    private codeActions(params: CodeActionParams): CodeAction[] {
+        const fileName = URI.parse(params.textDocument.uri).fsPath;
+        const range = {
+            start: { column: params.range.start.character, row: params.range.start.line + 1 },
+            end: { column: params.range.end.character, row: params.range.end.line + 1 },
+        };
+
+        const result = this.backend.getQuickFixes(fileName, range).map((fix) => {
+            const action = CodeAction.create(fix.title, toWorkspaceEdit(fix.edits), CodeActionKind.QuickFix);
+            if (fix.diagnostic) {
+                action.diagnostics = [toDiagnostic(fix.diagnostic)];
+            }
+            action.isPreferred = fix.isPreferred;
+
+            return action;
+        });
+
+        for (const refactoring of this.backend.getRefactorings(fileName, range)) {
+            result.push(CodeAction.create(refactoring.title, toWorkspaceEdit(refactoring.edits),
+                refactoringKinds.get(refactoring.kind)));
+        }
+
+        return result;
+    }
+
+    /**
+     * Converts diagnostic information for the given document and sends it to the client.
+     *
+     * @param document The document for which this should happen.
+     */
+    private publishDiagnostics(document: TextDocument): void {
+        const diagnostics: Diagnostic[] = [];
+        const entries = this.backend.getDiagnostics(URI.parse(document.uri).fsPath);
+        for (const entry of entries) {
+            diagnostics.push(toDiagnostic(entry));
+        }
+
+        void this.connection.sendDiagnostics({ uri: document.uri, diagnostics });
+    }
+
+    /**
+     * For certain services we have to (re)generate files from grammars in the background:
+     * - syntactic + semantic grammar analysis by the ANTLR tool
+     * - generate interpreter data (for debugging + ATN views)
+     *
+     * @param document For which to generate the data.
+     */
+    private async regenerateBackgroundData(document: TextDocument): Promise<void> {
+        const settings = await this.getSettings<GenerationSettings>("antlr4.generation", document.uri);
+        if (settings.mode === "none") {
+            return;
+        }
+
+        const externalMode = settings.mode === "external";
+        const fileName = URI.parse(document.uri).fsPath;
+        const finished = (error?: string) => {
+            const params: GenerationNotificationParams = { uri: document.uri, error };
+            this.connection.sendNotification(generationFinishedNotification, params);
+        };
+
+        const started: GenerationNotificationParams = { uri: document.uri };
+        this.connection.sendNotification(generationStartedNotification, started);
+
+        const basePath = path.dirname(fileName);
+        const antlrPath = path.join(basePath, ".antlr");
+
+        // In internal mode we generate files with the default target language into our .antlr folder.
+        // In external mode the files are generated into the given output folder (or the folder where the
+        // main grammar is). In this case we have to move the interpreter data to our .antlr folder.
+        let outputDir = antlrPath;
+        if (externalMode) {
+            outputDir = settings.outputDir ?? "";
+            if (!outputDir) {
+                outputDir = basePath;
+            } else if (!path.isAbsolute(outputDir)) {
+                outputDir = path.join(basePath, outputDir);
+            }
+        }
+
+        try {
+            fs.ensureDirSync(outputDir);
+        } catch (error) {
+            finished("Cannot create output folder: " + String(error));
+
+            return;
+        }
+
+        const options: GenerationOptions = {
+            baseDir: basePath,
+            libDir: settings.importDir,
+            outputDir,
+            listeners: false,
+            visitors: false,
+            alternativeJar: settings.alternativeJar,
+            additionalParameters: settings.additionalParameters,
+        };
+
+        if (externalMode) {
+            options.language = settings.language;
+            options.package = settings.package;
+            options.listeners = settings.listeners;
+            options.visitors = settings.visitors;
+        }
+
+        try {
+            const affectedFiles = await this.backend.generate(fileName, options);
+            for (const file of affectedFiles) {
+                const fullPath = path.resolve(basePath, file);
+                for (const candidate of this.documents.all()) {
+                    if (URI.parse(candidate.uri).fsPath === fullPath) {
+                        this.publishDiagnostics(candidate);
+                    }
+                }
+            }
+
+            // Finally move interpreter files to our internal folder and reload that.
+            if (externalMode && antlrPath !== outputDir) {
+                const files = fs.readdirSync(outputDir);
+                for (const file of files) {
+                    if (file.endsWith(".interp")) {
+                        const sourceFile = path.join(outputDir, file);
+                        fs.moveSync(sourceFile, path.join(antlrPath, file), { overwrite: true });
+                    }
+                }
+            }
+
+            await this.backend.generate(fileName, { outputDir: antlrPath, loadOnly: true });
+            finished();
+        } catch (reason) {
+            finished(String(reason));
+        }
+    }
+
+    /**
+     * Reads a configuration section from the client. Clients without configuration support get the defaults.
+     *
+     * @param section The section to read.
+     * @param uri The document for which the settings apply.
+     *
+     * @returns The settings of the given section.
+     */
+    private async getSettings<T>(section: string, uri: string): Promise<T> {
+        if (!this.hasConfigurationCapability) {
+            return {} as T;
+        }
+
+        const settings = await this.connection.workspace.getConfiguration({ scopeUri: uri, section }) as T | null;
+
+        return settings ?? {} as T;
+    }
+}
@@ -0,0 +1,36 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+// Extensions to the language server protocol, shared by the ANTLR4 language server and its clients.
+// This file must not import anything, so that it can be used on both sides.
+
+/**
+ * Sent from the server when a parser generation run for a grammar (and its dependencies) starts.
+ */
+export const generationStartedNotification = "antlr4/generationStarted";
+
+/**
+ * Sent from the server when a generation run has finished. Interpreter data in the ".antlr" folder next to the
+ * grammar is up to date afterwards, unless an error is given.
+ */
+export const generationFinishedNotification = "antlr4/generationFinished";
+
+export interface GenerationNotificationParams {
+    /** The URI of the grammar for which generation was triggered. */
+    uri: string;
+
+    /** Non-grammar error output, if generation failed (e.g. a Java exception). */
+    error?: string;
+}
+
+/**
+ * Options a client can pass to the server when initializing the connection.
+ */
+export interface InitializationOptions {
+    /** The location to import grammars from (relative to a grammar or absolute path). */
+    importDir?: string;
+}
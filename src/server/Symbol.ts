@@ -5,7 +5,7 @@
  * See LICENSE file for more info.
  */
 
-import * as vscode from "vscode";
+import { CompletionItemKind, SymbolKind as LspSymbolKind } from "vscode-languageserver";
 import { SymbolKind } from "../backend/facade";
 
 /**
@@ -68,109 +68,109 @@ export const symbolDescriptionFromEnum = (kind: SymbolKind): string => {
 };
 
 /**
- * Converts the native symbol kind to a vscode symbol kind.
+ * Converts the native symbol kind to an LSP symbol kind.
  *
- * @param kind The kind of symbol for which the vscode kind is needed.
+ * @param kind The kind of symbol for which the LSP kind is needed.
  *
- * @returns The vscode symbol kind for the given ANTLR4 kind.
+ * @returns The LSP symbol kind for the given ANTLR4 kind.
  */
-export const translateSymbolKind = (kind: SymbolKind): vscode.SymbolKind => {
+export const translateSymbolKind = (kind: SymbolKind): LspSymbolKind => {
     switch (kind) {
         case SymbolKind.LexerRule: {
-            return vscode.SymbolKind.Function;
+            return LspSymbolKind.Function;
         }
         case SymbolKind.VirtualLexerToken: {
-            return vscode.SymbolKind.Enum;
+            return LspSymbolKind.Enum;
         }
         case SymbolKind.FragmentLexerToken: {
-            return vscode.SymbolKind.Function;
+            return LspSymbolKind.Function;
         }
         case SymbolKind.BuiltInLexerToken: {
-            return vscode.SymbolKind.Property;
+            return LspSymbolKind.Property;
         }
         case SymbolKind.ParserRule: {
-            return vscode.SymbolKind.Method;
+            return LspSymbolKind.Method;
         }
         case SymbolKind.LexerMode: {
-            return vscode.SymbolKind.Variable;
+            return LspSymbolKind.Variable;
         }
         case SymbolKind.BuiltInMode: {
-            return vscode.SymbolKind.Variable;
+            return LspSymbolKind.Variable;
         }
         case SymbolKind.TokenChannel: {
-            return vscode.SymbolKind.Variable;
+            return LspSymbolKind.Variable;
         }
         case SymbolKind.BuiltInChannel: {
-            return vscode.SymbolKind.Variable;
+            return LspSymbolKind.Variable;
         }
         case SymbolKind.Import: {
-            return vscode.SymbolKind.Module;
+            return LspSymbolKind.Module;
         }
         case SymbolKind.TokenVocab: {
-            return vscode.SymbolKind.Module;
+            return LspSymbolKind.Module;
         }
 
         default: {
-            return vscode.SymbolKind.Null;
+            return LspSymbolKind.Null;
         }
     }
 };
 
 /**
- * Converts the native symbol kind to a vscode completion item kind.
+ * Converts the native symbol kind to an LSP completion item kind.
  *
  * @param kind The kind of symbol for which return the completion item kind.
  *
- * @returns The vscode completion item kind.
+ * @returns The LSP completion item kind.
  */
-export const translateCompletionKind = (kind: SymbolKind): vscode.CompletionItemKind => {
+export const translateCompletionKind = (kind: SymbolKind): CompletionItemKind => {
     switch (kind) {
         case SymbolKind.Keyword: {
-            return vscode.CompletionItemKind.Keyword;
+            return CompletionItemKind.Keyword;
         }
 
         case SymbolKind.LexerRule: {
-            return vscode.CompletionItemKind.Text;
+            return CompletionItemKind.Text;
         }
         case SymbolKind.VirtualLexerToken: {
-            return vscode.CompletionItemKind.Text;
+            return CompletionItemKind.Text;
         }
         case SymbolKind.FragmentLexerToken: {
-            return vscode.CompletionItemKind.Text;
+            return CompletionItemKind.Text;
         }
         case SymbolKind.BuiltInLexerToken: {
-            return vscode.CompletionItemKind.Constant;
+            return CompletionItemKind.Constant;
         }
 
         case SymbolKind.ParserRule: {
-            return vscode.CompletionItemKind.Method;
+            return CompletionItemKind.Method;
         }
         case SymbolKind.LexerMode: {
-            return vscode.CompletionItemKind.Enum;
+            return CompletionItemKind.Enum;
         }
         case SymbolKind.BuiltInMode: {
-            return vscode.CompletionItemKind.Constant;
+            return CompletionItemKind.Constant;
         }
         case SymbolKind.TokenChannel: {
-            return vscode.CompletionItemKind.Property;
+            return CompletionItemKind.Property;
         }
         case SymbolKind.BuiltInChannel: {
-            return vscode.CompletionItemKind.Constant;
+            return CompletionItemKind.Constant;
         }
         case SymbolKind.Import: {
-            return vscode.CompletionItemKind.Module;
+            return CompletionItemKind.Module;
         }
         case SymbolKind.TokenVocab: {
-            return vscode.CompletionItemKind.Module;
+            return CompletionItemKind.Module;
         }
 
         case SymbolKind.Action:
         case SymbolKind.Predicate: {
-            return vscode.CompletionItemKind.Snippet;
+            return CompletionItemKind.Snippet;
         }
 
         default: {
-            return vscode.CompletionItemKind.Text;
+            return CompletionItemKind.Text;
         }
     }
 };
@@ -0,0 +1,96 @@
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { AntlrFacade } from "../backend/facade";
+
+/**
+ * Keeps all grammars in the workspace folders loaded in the backend, so that workspace wide features
+ * (symbol search, references and rename) do not depend on which grammars are currently open.
+ */
+export class WorkspaceIndexer {
+    private files = new Set<string>();
+
+    public constructor(private backend: AntlrFacade) { }
+
+    /**
+     * Searches the given folders for grammar files and loads them. Files are loaded one after the other, giving
+     * the server the chance to handle requests in between.
+     *
+     * @param folders The folders to search (recursively).
+     */
+    public async indexFolders(folders: string[]): Promise<void> {
+        const grammars: string[] = [];
+        for (const folder of folders) {
+            await this.collectGrammars(folder, grammars);
+        }
+
+        for (const grammar of grammars) {
+            await new Promise((resolve) => { setImmediate(resolve); });
+            this.add(grammar);
+        }
+    }
+
+    public isIndexed(fileName: string): boolean {
+        return this.files.has(fileName);
+    }
+
+    public add(fileName: string): void {
+        if (!this.files.has(fileName)) {
+            this.files.add(fileName);
+            this.backend.loadGrammar(fileName);
+        }
+    }
+
+    public remove(fileName: string): void {
+        if (this.files.delete(fileName)) {
+            this.backend.releaseGrammar(fileName);
+        }
+    }
+
+    /**
+     * Parses an indexed grammar again, using the file content on disk. Must not be called for grammars which are
+     * open in an editor, as the editor content takes precedence.
+     *
+     * @param fileName The grammar to reload.
+     */
+    public reload(fileName: string): void {
+        if (!this.files.has(fileName)) {
+            return;
+        }
+
+        try {
+            this.backend.setText(fileName, fs.readFileSync(fileName, "utf8"));
+            this.backend.reparse(fileName);
+        } catch (e) {
+            // The file is about to be removed. The watcher will tell us.
+        }
+    }
+
+    private async collectGrammars(folder: string, grammars: string[]): Promise<void> {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(folder, { withFileTypes: true });
+        } catch (e) {
+            return;
+        }
+
+        for (const entry of entries) {
+            const fullPath = path.join(folder, entry.name);
+            if (entry.isDirectory()) {
+                // Skip folders like .git, .antlr (our generated data) and installed packages.
+                if (!entry.name.startsWith(".") && entry.name !== "node_modules") {
+                    await this.collectGrammars(fullPath, grammars);
+                }
+            } else if (entry.isFile() && (entry.name.endsWith(".g4") || entry.name.endsWith(".g"))) {
+                grammars.push(fullPath);
+            }
+        }
+    }
+}
@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+
+/*
+ * This file is released under the MIT license.
+ * Copyright (c) 2021, Mike Lischke
+ *
+ * See LICENSE file for more info.
+ */
+
+import { createConnection, ProposedFeatures } from "vscode-languageserver";
+
+import { AntlrLanguageServer } from "./AntlrLanguageServer";
+
+// The transport is taken from the command line (e.g. --stdio or --node-ipc).
+const server = new AntlrLanguageServer(createConnection(ProposedFeatures.all));
+server.listen();
@@ -0,0 +1,14 @@
+grammar leftRecursion;
+
+expr: expr '*' expr | expr '+' expr | INT | '(' expr ')';
+labeled
+    : labeled '*' labeled # Mul
+    | left = labeled '+' labeled {System.out.println("add");} # Add
+    | INT # Int
+    ;
+a: b 'x' | 'c';
+b: a 'y' | 'd';
+post: post '++' | ID;
+none: INT;
+ID: [a-z]+;
+INT: [0-9]+;
@@ -0,0 +1,14 @@
+grammar refactoring;
+
+start: stat+ EOF;
+stat: 'return' expr ';' | ID '=' expr ';';
+expr: expr '*' expr | atom;
+atom: INT | ID | '(' expr ')';
+value: INT;
+usesValue: value+ value;
+
+ID: LETTER (LETTER | DIGIT)*;
+INT: DIGIT+;
+LETTER: [a-zA-Z];
+fragment DIGIT: [0-9];
+WS: [ \t\r\n]+ -> skip;
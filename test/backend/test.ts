@@ -8,10 +8,29 @@
 
 import fs = require("fs-extra");
 import glob = require("glob");
+import os = require("os");
+import path = require("path");
 
 import { expect, assert } from "chai";
-import { AntlrFacade, SymbolKind, RuleMappings } from "../../src/backend/facade";
-import { SourceContext } from "../../src/backend/SourceContext";
+import { CharStreams, CommonTokenStream, VocabularyImpl } from "antlr4ts";
+
+import {
+    AntlrFacade, SymbolKind, RuleMappings, DiagnosticType, DiagnosticEntry, RefactoringKind, ModeTransitionKind,
+    GrammarDependencyKind,
+} from "../../src/backend/facade";
+import { SourceContext, GrammarType } from "../../src/backend/SourceContext";
+import { GrammarAnalyzer } from "../../src/backend/GrammarAnalyzer";
+import { LexerModeAnalyzer } from "../../src/backend/LexerModeAnalyzer";
+import { GrammarTestRunner } from "../../src/backend/GrammarTestRunner";
+import { GrammarCoverage } from "../../src/backend/GrammarCoverage";
+import { InterpreterDataReader } from "../../src/backend/InterpreterDataReader";
+import { ANTLRv4Lexer } from "../../src/parser/ANTLRv4Lexer";
+import { ANTLRv4Parser } from "../../src/parser/ANTLRv4Parser";
+import { GrammarChecker } from "../../src/cli/GrammarChecker";
+import { WorkspaceIndexer } from "../../src/server/WorkspaceIndexer";
+import { ReportFormatter } from "../../src/cli/ReportFormatter";
+import { GrammarBreakPoint, GrammarBreakPointConditions } from "../../src/backend/GrammarDebugger";
+import { DecisionPrediction, ParseEventType } from "../../src/backend/GrammarInterpreters";
 
 let backend: AntlrFacade;
 
@@ -74,6 +93,42 @@ describe("vscode-antlr4-backend:", function () {
             expect(context, "Test 3").to.equal(c1);
             backend.releaseGrammar("test/backend/t.g4");
         });
+
+        it("Dependency graph", () => {
+            const folder = fs.mkdtempSync(path.join(os.tmpdir(), "antlr4-"));
+            try {
+                fs.writeFileSync(path.join(folder, "P.g4"),
+                    "parser grammar P;\noptions { tokenVocab = L; }\nimport C;\nstart: ID;\n");
+                fs.writeFileSync(path.join(folder, "L.g4"), "lexer grammar L;\nID: [a-z]+;\n");
+                fs.writeFileSync(path.join(folder, "C.g4"), "parser grammar C;\nimport D, Missing;\nc: ID;\n");
+                fs.writeFileSync(path.join(folder, "D.g4"), "parser grammar D;\nimport C;\nd: ID;\n");
+
+                const localBackend = new AntlrFacade(".");
+                const graph = localBackend.getDependencyGraph([path.join(folder, "P.g4")]);
+
+                // Referenced grammars are included, even if not given explicitly.
+                expect(graph.grammars.map((grammar) => grammar.name), "Test 1").to.deep.equal(["P", "L", "C", "D"]);
+                expect(graph.grammars[1].type, "Test 2").to.equal(GrammarType.Lexer);
+
+                expect(graph.dependencies.length, "Test 3").to.equal(5);
+                expect(graph.dependencies[0], "Test 4").to.deep.equal({
+                    kind: GrammarDependencyKind.TokenVocab,
+                    name: "L",
+                    source: path.join(folder, "P.g4"),
+                    target: path.join(folder, "L.g4"),
+                    range: { start: { column: 23, row: 2 }, end: { column: 23, row: 2 } },
+                });
+                expect(graph.dependencies[1].kind, "Test 5").to.equal(GrammarDependencyKind.Import);
+
+                const missing = graph.dependencies.filter((dependency) => dependency.target === undefined);
+                expect(missing.map((dependency) => dependency.name), "Test 6").to.deep.equal(["Missing"]);
+                expect(missing[0].source, "Test 7").to.equal(path.join(folder, "C.g4"));
+
+                expect(graph.cycles, "Test 8").to.deep.equal([[path.join(folder, "C.g4"), path.join(folder, "D.g4")]]);
+            } finally {
+                fs.removeSync(folder);
+            }
+        });
     });
 
     describe("Symbol Info Retrieval (t.g4):", () => {
@@ -288,6 +343,34 @@ describe("vscode-antlr4-backend:", function () {
             );
         });
 
+        it("Annotated RRD diagram", () => {
+            const fileName = "test/backend/annotations.g4";
+            backend.loadGrammar(fileName, "grammar annotations;\n" +
+                "start: left = ID '=' values += INT # Assignment\n | {isValid('x')}? ID # Call\n ;\n" +
+                "ID: [a-z]+;\nINT: [0-9]+ -> channel(HIDDEN);\nWS: [ \\t]+ -> skip;\n");
+            try {
+                // The plain variant doesn't change.
+                expect(backend.getRRDScript(fileName, "start"), "Test 1").to.equal("ComplexDiagram(Choice(0, " +
+                    "Sequence(Terminal('ID'), Terminal('\\'=\\''), Terminal('INT')), " +
+                    "Sequence(Comment('{isValid(\\'x\\')}?'), Terminal('ID')))).addTo()");
+
+                expect(backend.getRRDScript(fileName, "start", true), "Test 2").to.equal("ComplexDiagram(Choice(0, " +
+                    "Sequence(Sequence(Sequence(Comment('left='), Terminal('ID')), Terminal('\\'=\\''), " +
+                    "Sequence(Comment('values+='), Terminal('INT'))), Comment('# Assignment')), " +
+                    "Sequence(Sequence(Comment('{isValid(\\'x\\')}?'), Terminal('ID')), Comment('# Call')))).addTo()");
+                expect(backend.getRRDScript(fileName, "INT", true), "Test 3").to.equal("Diagram(Choice(0, " +
+                    "Sequence(Sequence(OneOrMore(Terminal('[0-9]'))), Comment('-> channel(HIDDEN)')))).addTo()");
+                expect(backend.getRRDScript(fileName, "WS", true), "Test 4").to.contain("Comment('-> skip')");
+
+                // All scripts must be valid for the diagram library.
+                for (const rule of ["start", "ID", "INT", "WS"]) {
+                    expect(backend.getRRDSvg(fileName, rule, true), rule).to.match(/^<svg /);
+                }
+            } finally {
+                backend.releaseGrammar(fileName);
+            }
+        });
+
         it("Reference Graph", () => {
             const graph = backend.getReferenceGraph("test/backend/TParser.g4");
             expect(graph.size, "Test 1").to.equal(48);
@@ -307,6 +390,116 @@ describe("vscode-antlr4-backend:", function () {
             expect(element!.literals, "Test 11").contains("return");
         });
 
+        it("Workspace index", async () => {
+            const folder = fs.mkdtempSync(path.join(os.tmpdir(), "antlr4-"));
+            try {
+                fs.writeFileSync(path.join(folder, "L.g4"), "lexer grammar L;\nID: [a-z]+;\nINT: [0-9]+;\n");
+                fs.mkdirSync(path.join(folder, "sub"));
+                fs.writeFileSync(path.join(folder, "P.g4"),
+                    "parser grammar P;\noptions { tokenVocab = L; }\nstart: ID INT;\n");
+                fs.writeFileSync(path.join(folder, "sub", "Q.g4"), "grammar Q;\nq: ID;\nID: [A-Z]+;\n");
+                fs.mkdirSync(path.join(folder, ".antlr"));
+                fs.writeFileSync(path.join(folder, ".antlr", "Ignored.g4"), "grammar Ignored;\nignored: ID;\n");
+
+                const localBackend = new AntlrFacade("");
+                const indexer = new WorkspaceIndexer(localBackend);
+                await indexer.indexFolders([folder]);
+                expect(indexer.isIndexed(path.join(folder, "sub", "Q.g4")), "Test 1").to.be.true;
+                expect(indexer.isIndexed(path.join(folder, ".antlr", "Ignored.g4")), "Test 2").to.be.false;
+
+                const symbols = localBackend.findWorkspaceSymbols("id");
+                expect(symbols.map((symbol) => path.basename(symbol.source)), "Test 3").to.have.members(["L.g4",
+                    "Q.g4"]);
+
+                // References of a token used in a dependent grammar, found from the defining grammar.
+                // The token with the same name in the unrelated grammar Q is not included.
+                let occurrences = localBackend.getWorkspaceSymbolOccurrences(path.join(folder, "L.g4"), "ID");
+                expect(occurrences.length, "Test 4").to.equal(2);
+                expect(occurrences.map((symbol) => path.basename(symbol.source)), "Test 5").to.have.members(["L.g4",
+                    "P.g4"]);
+                expect(occurrences[1].definition!.range.start, "Test 6").to.deep.equal({ column: 7, row: 3 });
+
+                // Changes on disk are picked up.
+                fs.writeFileSync(path.join(folder, "sub", "Q.g4"), "grammar Q;\nq: IDENT;\nIDENT: [A-Z]+;\n");
+                indexer.reload(path.join(folder, "sub", "Q.g4"));
+                expect(localBackend.findWorkspaceSymbols("ident").length, "Test 7").to.equal(1);
+
+                indexer.remove(path.join(folder, "P.g4"));
+                occurrences = localBackend.getWorkspaceSymbolOccurrences(path.join(folder, "L.g4"), "ID");
+                expect(occurrences.length, "Test 8").to.equal(1);
+            } finally {
+                fs.removeSync(folder);
+            }
+        });
+
+        it("Rule documentation", () => {
+            const fileName = "test/backend/docs.g4";
+            backend.loadGrammar(fileName, "grammar docs;\n" +
+                "/**\n * The entry rule.\n *\n * @example\n *   a b\n * @see other\n */\nstart: other ID;\n" +
+                "/** @deprecated Use start instead. */\nother: ID;\n" +
+                "/**\n * @deprecated\n */\nID: [a-z]+;\n");
+            try {
+                const info = backend.infoForSymbol(fileName, "start")!;
+                expect(info.documentation, "Test 1").to.deep.equal({
+                    text: "The entry rule.\n\n*@see* other",
+                    examples: ["  a b"],
+                });
+                expect(info.definition!.text.startsWith("/**"), "Test 2").to.be.true;
+
+                const other = backend.infoForSymbol(fileName, "other")!;
+                expect(other.documentation!.deprecated, "Test 3").to.equal("Use start instead.");
+                expect(backend.infoForSymbol(fileName, "ID")!.documentation!.deprecated, "Test 4").to.equal("");
+
+                const deprecations = backend.getDiagnostics(fileName).filter((entry) => entry.deprecated);
+                expect(deprecations.map((entry) => entry.message), "Test 5").to.deep.equal([
+                    "'other' is deprecated: Use start instead.",
+                    "'ID' is deprecated",
+                    "'ID' is deprecated",
+                ]);
+                expect(deprecations[0].type, "Test 6").to.equal(DiagnosticType.Warning);
+                expect(deprecations[0].range, "Test 7").to.deep.equal({
+                    start: { column: 7, row: 9 },
+                    end: { column: 12, row: 9 },
+                });
+            } finally {
+                backend.releaseGrammar(fileName);
+            }
+        });
+
+        it("Grammar documentation", () => {
+            const fileName = "test/backend/reference.g4";
+            backend.loadGrammar(fileName, "/** A tiny language. */\ngrammar reference;\n" +
+                "/**\n * The entry rule.\n * @example x = 1\n */\nstart: assignment* EOF;\n" +
+                "assignment: ID '=' (INT | ) ;\n" +
+                "/** An identifier. */\nID: Letter+;\nfragment Letter: [a-z];\nINT: [0-9]+;\n");
+            const folder = fs.mkdtempSync(path.join(os.tmpdir(), "antlr4-"));
+            try {
+                // Empty alternatives must not break the diagram.
+                expect(backend.getRRDScript(fileName, "assignment"), "Test 1").to.contain("Skip()");
+                expect(backend.getRRDSvg(fileName, "assignment"), "Test 2").to.match(/^<svg .*class="railroad-diagram"/);
+
+                const files = backend.generateDocumentation(fileName, { outputDir: folder });
+                expect(files.map((file) => path.basename(file)), "Test 3").to.deep.equal(["reference.html",
+                    "reference.md"]);
+                expect(fs.readdirSync(path.join(folder, "reference")), "Test 4").to.have.members(["start.svg",
+                    "assignment.svg", "ID.svg", "Letter.svg", "INT.svg"]);
+
+                const markdown = fs.readFileSync(files[1], "utf8");
+                expect(markdown, "Test 5").to.contain("# Grammar reference\n\nA tiny language.");
+                expect(markdown, "Test 6").to.contain("### start\n\nThe entry rule.\n\n![start](reference/start.svg)");
+                expect(markdown, "Test 7").to.contain("*Example:*\n\n```\nx = 1\n```");
+                expect(markdown, "Test 8").to.contain("Uses: [assignment](#rule-assignment), `EOF`");
+                expect(markdown, "Test 9").to.contain("Used by: [start](#rule-start)");
+                expect(markdown, "Test 10").to.contain("```antlr\nID: Letter+;\n```\n\nUses: [Letter](#token-Letter)");
+
+                const html = fs.readFileSync(files[0], "utf8");
+                expect(html, "Test 11").to.contain('<section id="token-INT">');
+                expect(html.match(/<svg /g)!.length, "Test 12").to.equal(5);
+            } finally {
+                backend.releaseGrammar(fileName);
+                fs.removeSync(folder);
+            }
+        });
     });
 
     describe("ATN Related:", () => {
@@ -532,7 +725,9 @@ describe("vscode-antlr4-backend:", function () {
                 // File contains left recursive rule which are detected only by the ANTLR.
                 // Hence we need a generation run to report them.
                 const parserDiags = backend.getDiagnostics("test/backend/t2.g4");
-                expect(parserDiags.length, "Test 1").to.be.equal(0); // No error here yet.
+                // Only our own warnings about the indirect left recursion here yet.
+                expect(parserDiags.length, "Test 1").to.be.equal(3);
+                expect(parserDiags[0].type, "Test 1a").to.be.equal(DiagnosticType.Warning);
 
                 await backend.generate("test/backend/t2.g4", {
                     outputDir: "generated", language: "Cpp", package: "parser", listeners: false, visitors: true,
@@ -599,6 +794,718 @@ describe("vscode-antlr4-backend:", function () {
         });
     });
 
+    describe("Command Line Checker:", () => {
+        it("Check grammar files", async () => {
+            const files = GrammarChecker.collectGrammarFiles(["test/backend/t.g4", "test/backend/TParser.g4"]);
+            expect(files.length, "Test 1").to.equal(2);
+            expect(files[0], "Test 2").to.equal(path.resolve("test/backend/t.g4"));
+
+            const checker = new GrammarChecker(new AntlrFacade("."));
+            const results = await checker.check(files);
+
+            // TParser.g4 pulls in its token vocabulary.
+            expect(results.length, "Test 3").to.equal(3);
+            expect(results[0].fileName, "Test 4").to.equal(files[0]);
+            expect(results[2].fileName, "Test 5").to.equal(path.resolve("test/backend/TLexer.g4"));
+
+            expect(results[0].diagnostics.length, "Test 6").to.equal(2);
+            expect(results[0].diagnostics[0].message, "Test 7").to.equal("Unknown token reference 'ZZ'");
+            expect(ReportFormatter.count(results, DiagnosticType.Error), "Test 8").to.equal(2);
+
+            const text = ReportFormatter.format(results, "text", path.resolve("test/backend")).split("\n");
+            expect(text[0], "Test 9").to.equal("t.g4:3:4: error: Unknown token reference 'ZZ'");
+            expect(text[text.length - 1], "Test 10").to.equal("3 file(s) checked, 2 error(s), 0 warning(s)");
+
+            const json = JSON.parse(ReportFormatter.format(results, "json"));
+            expect(json[0].diagnostics[0].severity, "Test 11").to.equal("error");
+            expect(json[0].diagnostics[0].range.start, "Test 12").to.deep.equal({ line: 3, column: 4 });
+
+            const sarif = JSON.parse(ReportFormatter.format(results, "sarif", path.resolve("test/backend")));
+            expect(sarif.version, "Test 13").to.equal("2.1.0");
+            expect(sarif.runs[0].results.length, "Test 14").to.equal(2);
+            const location = sarif.runs[0].results[0].locations[0].physicalLocation;
+            expect(location.artifactLocation.uri, "Test 15").to.equal("t.g4");
+            expect(location.region.startLine, "Test 16").to.equal(3);
+            expect(location.region.startColumn, "Test 17").to.equal(4);
+        });
+
+        it("Unresolved dependencies", async () => {
+            const fileName = path.resolve("test/backend/unresolved.g4");
+            fs.writeFileSync(fileName, "parser grammar unresolved;\noptions { tokenVocab = Missing; }\n" +
+                "import Absent;\na: b;\nb: 'b';\n");
+            try {
+                const checker = new GrammarChecker(new AntlrFacade("."));
+                const results = await checker.check([fileName]);
+                expect(results.length, "Test 1").to.equal(1);
+
+                const diagnostics = results[0].diagnostics.filter((entry) => entry.type === DiagnosticType.Warning);
+                expect(diagnostics.length, "Test 2").to.equal(2);
+                expect(diagnostics[0].message, "Test 3").to.equal("Cannot find the grammar file for dependency " +
+                    "'Missing'");
+                expect(diagnostics[1].message, "Test 4").to.equal("Cannot find the grammar file for dependency " +
+                    "'Absent'");
+                expect(diagnostics[1].range.start.row, "Test 5").to.equal(3);
+            } finally {
+                fs.removeSync(fileName);
+            }
+        });
+
+        it("Railroad diagram export", async () => {
+            const folder = fs.mkdtempSync(path.join(os.tmpdir(), "antlr4-"));
+            try {
+                const checker = new GrammarChecker(new AntlrFacade("."), { rrdDir: folder });
+                await checker.check([path.resolve("test/backend/TLexer.g4")]);
+
+                const files = fs.readdirSync(path.join(folder, "TLexer"));
+                expect(files, "Test 1").to.include.members(["index.html", "Any.svg", "Comment.svg"]);
+
+                // Each file can be used stand-alone, so it contains the styles.
+                const svg = fs.readFileSync(path.join(folder, "TLexer", "Any.svg"), "utf8");
+                expect(svg.startsWith('<?xml version="1.0" standalone="no"?>\n<svg '), "Test 2").to.be.true;
+                expect(svg, "Test 3").to.contain("<style>");
+
+                const index = fs.readFileSync(path.join(folder, "TLexer", "index.html"), "utf8");
+                expect(index.match(/<img /g)!.length, "Test 4").to.equal(files.length - 1);
+                expect(index, "Test 5").to.contain('<img src="Any.svg" alt="Any">');
+            } finally {
+                fs.removeSync(folder);
+            }
+        });
+    });
+
+    describe("Grammar Analysis:", () => {
+        it("Indirect left recursion", () => {
+            try {
+                backend.loadGrammar("test/backend/t2.g4");
+                const diagnostics = backend.getDiagnostics("test/backend/t2.g4");
+                expect(diagnostics.length, "Test 1").to.equal(3);
+
+                const entry = diagnostics.find((diagnostic) => diagnostic.message.startsWith("Rule 'a'"));
+                expect(entry, "Test 2").not.to.be.undefined;
+                expect(entry!.type, "Test 3").to.equal(DiagnosticType.Warning);
+                expect(entry!.message, "Test 4").to.equal("Rule 'a' is indirectly left-recursive (a -> b -> c -> a)");
+                expect(entry!.range, "Test 5").to.deep.equal({
+                    start: { column: 3, row: 4 },
+                    end: { column: 4, row: 4 },
+                });
+            } finally {
+                backend.releaseGrammar("test/backend/t2.g4");
+            }
+        });
+
+        it("Decision analysis", () => {
+            // Uses the interpreter data of our own grammar parser.
+            const context = backend.loadGrammar("grammars/ANTLRv4Parser.g4");
+            try {
+                expect(backend.getDiagnostics("grammars/ANTLRv4Parser.g4").length, "Test 1").to.equal(0);
+
+                context.setupInterpreters("src/parser");
+                const diagnostics = backend.getDiagnostics("grammars/ANTLRv4Parser.g4");
+                expect(diagnostics.length, "Test 2").to.equal(12);
+                expect(diagnostics.every((entry) => entry.type === DiagnosticType.Warning), "Test 3").to.be.true;
+
+                // idList: identifier (COMMA identifier)* COMMA?
+                expect(diagnostics[1].message, "Test 4").to.equal("Potential ambiguity in rule 'idList': the loop " +
+                    "can be continued or exited on COMMA");
+                expect(diagnostics[1].range, "Test 5").to.deep.equal({
+                    start: { column: 16, row: 104 },
+                    end: { column: 35, row: 104 },
+                });
+
+                // setElement: TOKEN_REF elementOptions? | STRING_LITERAL elementOptions? | characterRange | ...
+                expect(diagnostics[10].message, "Test 6").to.equal("FIRST/FIRST conflict in rule 'setElement': " +
+                    "alternative 3 and alternative 2 can both start with STRING_LITERAL");
+                expect(diagnostics[10].range.start, "Test 7").to.deep.equal({ column: 5, row: 338 });
+
+                // Loading interpreter data again must not duplicate the results.
+                context.setupInterpreters("src/parser");
+                expect(backend.getDiagnostics("grammars/ANTLRv4Parser.g4").length, "Test 8").to.equal(12);
+            } finally {
+                backend.releaseGrammar("grammars/ANTLRv4Parser.g4");
+            }
+        });
+
+        it("Shadowed lexer rules", () => {
+            const context = backend.loadGrammar("grammars/ANTLRv4Lexer.g4");
+            try {
+                context.setupInterpreters("src/parser");
+                const diagnostics = backend.getDiagnostics("grammars/ANTLRv4Lexer.g4");
+                expect(diagnostics.length, "Test 1").to.equal(2);
+
+                // LBRACE: LBrace; after BEGIN_ACTION: LBrace -> pushMode(Action);
+                expect(diagnostics[0].type, "Test 2").to.equal(DiagnosticType.Warning);
+                expect(diagnostics[0].message, "Test 3").to.equal("Lexer rule 'LBRACE' can never be matched, " +
+                    "because everything it matches is matched by the earlier rule 'BEGIN_ACTION'");
+                expect(diagnostics[0].range, "Test 4").to.deep.equal({
+                    start: { column: 0, row: 242 },
+                    end: { column: 6, row: 242 },
+                });
+
+                // Keyword after identifier in the Options mode.
+                expect(diagnostics[1].message, "Test 5").to.equal("Lexer rule 'OPT_INT' can never be matched, " +
+                    "because everything it matches is matched by the earlier rule 'OPT_ID'");
+            } finally {
+                backend.releaseGrammar("grammars/ANTLRv4Lexer.g4");
+            }
+        });
+
+        it("Literals lexed as other tokens", () => {
+            const lexerData = InterpreterDataReader.parseFile("src/parser/ANTLRv4Lexer.interp");
+
+            // Pretend there's a literal 'int' for the INT token, which must be lexed as identifier.
+            const literalNames: Array<string | undefined> = [];
+            const symbolicNames: Array<string | undefined> = [];
+            for (let i = 0; i <= lexerData.vocabulary.maxTokenType; ++i) {
+                literalNames.push(lexerData.vocabulary.getLiteralName(i));
+                symbolicNames.push(lexerData.vocabulary.getSymbolicName(i));
+            }
+            literalNames[ANTLRv4Lexer.INT] = "'int'";
+            const vocabulary = new VocabularyImpl(literalNames, symbolicNames, []);
+
+            const lexer = new ANTLRv4Lexer(CharStreams.fromString("parser grammar p;\n" +
+                "a: 'fragment' 'int' ('{' | 'int');\n"));
+            const parser = new ANTLRv4Parser(new CommonTokenStream(lexer));
+            const diagnostics: DiagnosticEntry[] = [];
+            const analyzer = new GrammarAnalyzer(parser.grammarSpec(), diagnostics);
+            analyzer.checkParserLiterals(lexerData.atn, vocabulary);
+
+            expect(diagnostics.length, "Test 1").to.equal(2);
+            expect(diagnostics[0].message, "Test 2").to.equal("The literal 'int' is always lexed as ID, not as INT");
+            expect(diagnostics[0].range, "Test 3").to.deep.equal({
+                start: { column: 14, row: 2 },
+                end: { column: 19, row: 2 },
+            });
+            expect(diagnostics[1].range.start, "Test 4").to.deep.equal({ column: 27, row: 2 });
+        });
+
+        it("Lexer modes", () => {
+            backend.loadGrammar("grammars/ANTLRv4Lexer.g4");
+            try {
+                const graph = backend.getModeGraph("grammars/ANTLRv4Lexer.g4");
+                expect(graph.modes.length, "Test 1").to.equal(7);
+                expect(graph.modes[0].name, "Test 2").to.equal("DEFAULT_MODE");
+
+                // These modes are only entered from action code in the lexer base class.
+                const unreachable = graph.modes.filter((mode) => !mode.reachable).map((mode) => mode.name);
+                expect(unreachable, "Test 3").to.deep.equal(["Argument", "LexerCharSet"]);
+                expect(graph.modes.some((mode) => mode.pushedWithoutPop), "Test 4").to.be.false;
+
+                const transition = graph.transitions.find((entry) => entry.rule === "BEGIN_ACTION");
+                expect(transition, "Test 5").to.deep.equal({
+                    kind: ModeTransitionKind.Push,
+                    source: "DEFAULT_MODE",
+                    target: "Action",
+                    rule: "BEGIN_ACTION",
+                    range: {
+                        start: { column: 15, row: 115 },
+                        end: { column: 32, row: 115 },
+                    },
+                });
+            } finally {
+                backend.releaseGrammar("grammars/ANTLRv4Lexer.g4");
+            }
+
+            const lexer = new ANTLRv4Lexer(CharStreams.fromString("lexer grammar l;\n" +
+                "A: 'a' -> pushMode(M1);\nB: 'b' -> mode(M3);\n" +
+                "mode M1;\nC: 'c' -> mode(M2);\n" +
+                "mode M2;\nD: 'd' -> popMode;\n" +
+                "mode M3;\nE: 'e' -> pushMode(M4);\n" +
+                "mode M4;\nF: 'f';\n" +
+                "mode M5;\nG: 'g' -> popMode;\n"));
+            const parser = new ANTLRv4Parser(new CommonTokenStream(lexer));
+            const graph = new LexerModeAnalyzer(parser.grammarSpec()).createGraph();
+
+            expect(graph.modes.map((mode) => mode.name), "Test 6").to.deep.equal(
+                ["DEFAULT_MODE", "M1", "M2", "M3", "M4", "M5"]);
+            expect(graph.transitions.length, "Test 7").to.equal(6);
+            expect(graph.modes.filter((mode) => !mode.reachable).map((mode) => mode.name), "Test 8")
+                .to.deep.equal(["M5"]);
+
+            // M1 pops after switching to M2, but M4 never pops.
+            expect(graph.modes.filter((mode) => mode.pushedWithoutPop).map((mode) => mode.name), "Test 9")
+                .to.deep.equal(["M4"]);
+        });
+    });
+
+    describe("Quick Fixes:", () => {
+        // Other tests leave modified grammars in the shared backend.
+        const localBackend = new AntlrFacade(".");
+
+        it("Unknown symbols and unused rules", () => {
+            try {
+                localBackend.loadGrammar("test/backend/t.g4");
+                const position = (column: number, row: number) => ({ start: { column, row }, end: { column, row } });
+
+                let fixes = localBackend.getQuickFixes("test/backend/t.g4", position(4, 3));
+                expect(fixes.length, "Test 1").to.equal(1);
+                expect(fixes[0].title, "Test 2").to.equal("Create lexer rule 'ZZ'");
+                expect(fixes[0].diagnostic?.message, "Test 3").to.equal("Unknown token reference 'ZZ'");
+                expect(fixes[0].edits, "Test 4").to.deep.equal([{
+                    fileName: "test/backend/t.g4",
+                    range: position(24, 8),
+                    text: "\n\nZZ: 'zz';",
+                }]);
+
+                expect(localBackend.getContextDetails("test/backend/t.g4").unreferencedRules, "Test 5")
+                    .to.have.members(["x", "y", "D"]);
+                fixes = localBackend.getQuickFixes("test/backend/t.g4", position(0, 2));
+                expect(fixes.length, "Test 6").to.equal(1);
+                expect(fixes[0].title, "Test 7").to.equal("Remove unreferenced rule 'x'");
+                expect(fixes[0].edits[0].range, "Test 8").to.deep.equal({
+                    start: { column: 0, row: 2 },
+                    end: { column: 0, row: 3 },
+                });
+
+                // Lexer tokens are not removed.
+                expect(localBackend.getQuickFixes("test/backend/t.g4", position(0, 5)).length, "Test 9").to.equal(0);
+            } finally {
+                localBackend.releaseGrammar("test/backend/t.g4");
+            }
+        });
+
+        it("Literals in parser rules", () => {
+            try {
+                localBackend.loadGrammar("test/backend/TParser.g4");
+                const fixes = localBackend.getQuickFixes("test/backend/TParser.g4", {
+                    start: { column: 16, row: 112 },
+                    end: { column: 24, row: 112 },
+                });
+                expect(fixes.length, "Test 1").to.equal(1);
+                expect(fixes[0].title, "Test 2").to.equal("Replace 'return' with token Return");
+                expect(fixes[0].edits[0].text, "Test 3").to.equal("Return");
+            } finally {
+                localBackend.releaseGrammar("test/backend/TParser.g4");
+            }
+        });
+
+        it("Missing dependencies", () => {
+            const folder = fs.mkdtempSync(path.join(os.tmpdir(), "antlr4-"));
+            const fileName = path.join(folder, "P.g4");
+            try {
+                fs.writeFileSync(path.join(folder, "L.g4"), "lexer grammar L;\nID: [a-z]+;\n");
+                fs.writeFileSync(path.join(folder, "R.g4"), "parser grammar R;\noptions { tokenVocab = L; }\nr: ID;\n");
+                fs.writeFileSync(fileName, "parser grammar P;\nstart: ID r;\n");
+
+                localBackend.loadGrammar(fileName);
+
+                let fixes = localBackend.getQuickFixes(fileName, {
+                    start: { column: 7, row: 2 },
+                    end: { column: 7, row: 2 },
+                });
+                expect(fixes.length, "Test 1").to.equal(1);
+                expect(fixes[0].title, "Test 2").to.equal("Use the token vocabulary from 'L'");
+                expect(fixes[0].edits[0].text, "Test 3").to.equal("\noptions { tokenVocab = L; }");
+
+                fixes = localBackend.getQuickFixes(fileName, {
+                    start: { column: 10, row: 2 },
+                    end: { column: 10, row: 2 },
+                });
+                expect(fixes.length, "Test 4").to.equal(2);
+                expect(fixes[0].title, "Test 5").to.equal("Create parser rule 'r'");
+                expect(fixes[0].edits[0].text, "Test 6").to.equal("\n\nr: ;");
+                expect(fixes[1].title, "Test 7").to.equal("Import grammar 'R' (R.g4)");
+                expect(fixes[1].edits[0], "Test 8").to.deep.equal({
+                    fileName,
+                    range: { start: { column: 17, row: 1 }, end: { column: 17, row: 1 } },
+                    text: "\nimport R;",
+                });
+            } finally {
+                localBackend.releaseGrammar(fileName);
+                fs.removeSync(folder);
+            }
+        });
+    });
+
+    describe("Refactorings:", () => {
+        const fileName = "test/backend/refactoring.g4";
+        const range = (startRow: number, startColumn: number, endRow: number, endColumn: number) => ({
+            start: { column: startColumn, row: startRow },
+            end: { column: endColumn, row: endRow },
+        });
+
+        before(() => {
+            backend.loadGrammar(fileName);
+        });
+
+        after(() => {
+            backend.releaseGrammar(fileName);
+        });
+
+        it("Extract rule", () => {
+            // The selection includes surrounding whitespace.
+            let refactorings = backend.getRefactorings(fileName, range(4, 14, 4, 24))
+                .filter((refactoring) => refactoring.kind === RefactoringKind.Extract);
+            expect(refactorings.length, "Test 1").to.equal(2);
+            expect(refactorings[0].title, "Test 2").to.equal("Extract rule 'statPart'");
+            expect(refactorings[0].edits, "Test 3").to.deep.equal([
+                { fileName, range: range(4, 15, 4, 23), text: "statPart" },
+                { fileName, range: range(4, 42, 4, 42), text: "\n\nstatPart: expr ';';" },
+            ]);
+
+            refactorings = backend.getRefactorings(fileName, range(6, 6, 6, 15));
+            expect(refactorings.length, "Test 4").to.equal(1);
+            expect(refactorings[0].edits[1].text, "Test 5").to.equal("\n\natomPart: INT | ID;");
+
+            // Left recursive references stay in their rule.
+            refactorings = backend.getRefactorings(fileName, range(5, 6, 5, 16))
+                .filter((refactoring) => refactoring.kind === RefactoringKind.Extract);
+            expect(refactorings.length, "Test 6").to.equal(1);
+            expect(refactorings[0].title, "Test 7").to.equal("Introduce token 'STAR' for '*'");
+        });
+
+        it("Inline rule", () => {
+            let refactorings = backend.getRefactorings(fileName, range(7, 1, 7, 1));
+            expect(refactorings.length, "Test 1").to.equal(1);
+            expect(refactorings[0].kind, "Test 2").to.equal(RefactoringKind.Inline);
+            expect(refactorings[0].edits, "Test 3").to.deep.equal([
+                { fileName, range: range(8, 11, 8, 16), text: "INT" },
+                { fileName, range: range(8, 18, 8, 23), text: "INT" },
+                { fileName, range: range(7, 0, 8, 0), text: "" },
+            ]);
+
+            // Invoked on a reference to a fragment rule.
+            refactorings = backend.getRefactorings(fileName, range(11, 6, 11, 6));
+            expect(refactorings.length, "Test 4").to.equal(1);
+            expect(refactorings[0].title, "Test 5").to.equal("Inline rule 'DIGIT'");
+            expect(refactorings[0].edits.map((edit) => edit.text), "Test 6").to.deep.equal(["[0-9]", "[0-9]", ""]);
+
+            // Lexer rules, which are not fragments, produce tokens and cannot be inlined.
+            expect(backend.getRefactorings(fileName, range(11, 1, 11, 1)).length, "Test 7").to.equal(0);
+        });
+
+        it("Introduce token", () => {
+            const refactorings = backend.getRefactorings(fileName, range(4, 23, 4, 23));
+            expect(refactorings.length, "Test 1").to.equal(1);
+            expect(refactorings[0].title, "Test 2").to.equal("Introduce token 'SEMI' for ';'");
+
+            // The new rule comes before all other lexer rules, like implicit tokens.
+            expect(refactorings[0].edits, "Test 3").to.deep.equal([
+                { fileName, range: range(10, 0, 10, 0), text: "SEMI: ';';\n\n" },
+                { fileName, range: range(4, 20, 4, 23), text: "SEMI" },
+                { fileName, range: range(4, 38, 4, 41), text: "SEMI" },
+            ]);
+        });
+
+        it("Convert to fragment", () => {
+            const refactorings = backend.getRefactorings(fileName, range(12, 1, 12, 1));
+            expect(refactorings.length, "Test 1").to.equal(1);
+            expect(refactorings[0].title, "Test 2").to.equal("Convert 'LETTER' to a fragment rule");
+            expect(refactorings[0].edits, "Test 3").to.deep.equal([
+                { fileName, range: range(12, 0, 12, 0), text: "fragment " },
+            ]);
+
+            // ID is used by parser rules.
+            expect(backend.getRefactorings(fileName, range(10, 1, 10, 1)).length, "Test 4").to.equal(0);
+        });
+
+        it("Eliminate left recursion", () => {
+            const lrFileName = "test/backend/leftRecursion.g4";
+            try {
+                backend.loadGrammar(lrFileName);
+
+                let refactoring = backend.eliminateLeftRecursion(lrFileName, "expr");
+                expect(refactoring, "Test 1").not.to.be.undefined;
+                expect(refactoring!.title, "Test 2").to.equal("Eliminate left recursion in 'expr'");
+                expect(refactoring!.edits, "Test 3").to.deep.equal([{
+                    fileName: lrFileName,
+                    range: range(3, 6, 3, 56),
+                    text: "(INT | '(' expr ')') ('*' expr | '+' expr)*",
+                }]);
+
+                // Labels are kept by moving the recursive alternatives to a new rule. Actions are kept too.
+                refactoring = backend.eliminateLeftRecursion(lrFileName, "labeled");
+                expect(refactoring!.edits, "Test 4").to.deep.equal([{
+                    fileName: lrFileName,
+                    range: range(5, 6, 7, 15),
+                    text: "INT labeledTail* # Int",
+                }, {
+                    fileName: lrFileName,
+                    range: range(8, 5, 8, 5),
+                    text: "\n\nlabeledTail: '*' labeled # Mul\n    | '+' labeled {System.out.println(\"add\");} # Add;",
+                }]);
+
+                // Indirect left recursion.
+                refactoring = backend.eliminateLeftRecursion(lrFileName, "a");
+                expect(refactoring!.edits[0].text, "Test 5").to.equal("('d' 'x' | 'c') ('y' 'x')*");
+
+                expect(backend.eliminateLeftRecursion(lrFileName, "none"), "Test 6").to.be.undefined;
+
+                // Also available as refactoring on the rule name.
+                const refactorings = backend.getRefactorings(lrFileName, range(11, 1, 11, 1));
+                expect(refactorings.length, "Test 7").to.equal(1);
+                expect(refactorings[0].kind, "Test 8").to.equal(RefactoringKind.Rewrite);
+                expect(refactorings[0].edits[0].text, "Test 9").to.equal("ID ('++')*");
+            } finally {
+                backend.releaseGrammar(lrFileName);
+            }
+        });
+
+        it("Rename across grammars", () => {
+            const folder = fs.mkdtempSync(path.join(os.tmpdir(), "antlr4-"));
+            const lexerFile = path.join(folder, "L.g4");
+            const parserFile = path.join(folder, "P.g4");
+            const otherFile = path.join(folder, "Q.g4");
+            const localBackend = new AntlrFacade("");
+            try {
+                fs.writeFileSync(lexerFile, "lexer grammar L;\nID: [a-z]+;\nINT: [0-9]+;\n");
+                fs.writeFileSync(parserFile, "parser grammar P;\noptions { tokenVocab = L; }\nstart: ID INT ID;\n");
+                fs.writeFileSync(otherFile, "parser grammar Q;\noptions { tokenVocab = L; }\nq: ID;\nother: q;\n");
+                localBackend.loadGrammar(parserFile);
+                localBackend.loadGrammar(otherFile);
+
+                // Starting in a parser grammar also renames the token in the lexer and all other users.
+                let result = localBackend.renameSymbol(parserFile, "ID", "Identifier");
+                expect(result.error, "Test 1").to.be.undefined;
+                expect(result.edits.length, "Test 2").to.equal(4);
+                expect(result.edits.map((edit) => path.basename(edit.fileName)), "Test 3").to.have.members(
+                    ["L.g4", "P.g4", "P.g4", "Q.g4"]);
+                expect(result.edits.find((edit) => edit.fileName === lexerFile), "Test 4").to.deep.equal({
+                    fileName: lexerFile,
+                    range: range(2, 0, 2, 2),
+                    text: "Identifier",
+                });
+
+                result = localBackend.renameSymbol(parserFile, "ID", "identifier");
+                expect(result.error, "Test 5").to.equal("'identifier' is not a valid name: token names must start " +
+                    "with an uppercase letter and consist of letters, digits and underscores");
+                expect(result.edits.length, "Test 6").to.equal(0);
+
+                result = localBackend.renameSymbol(parserFile, "ID", "INT");
+                expect(result.error, "Test 7").to.equal("'INT' is already defined in L.g4");
+
+                result = localBackend.renameSymbol(parserFile, "start", "Start");
+                expect(result.error, "Test 8").to.equal("'Start' is not a valid name: parser rule names must start " +
+                    "with a lowercase letter and consist of letters, digits and underscores");
+
+                // Collisions are also checked in grammars which use the renamed symbol.
+                result = localBackend.renameSymbol(lexerFile, "INT", "EOF");
+                expect(result.error, "Test 9").to.equal("'EOF' is a built-in symbol");
+                result = localBackend.renameSymbol(otherFile, "q", "returns");
+                expect(result.error, "Test 10").to.equal("'returns' is a reserved word");
+                result = localBackend.renameSymbol(otherFile, "q", "other");
+                expect(result.error, "Test 11").to.equal("'other' is already defined in Q.g4");
+                expect(localBackend.renameSymbol(otherFile, "q", "q").edits.length, "Test 12").to.equal(0);
+
+                result = localBackend.renameSymbol(parserFile, "EOF", "End");
+                expect(result.error, "Test 13").to.equal("'EOF' is not defined in a grammar and cannot be renamed");
+            } finally {
+                localBackend.releaseGrammar(parserFile);
+                localBackend.releaseGrammar(otherFile);
+                fs.removeSync(folder);
+            }
+        });
+    });
+
+    describe("Grammar Tests:", () => {
+        it("Golden files", () => {
+            // Uses the interpreter data of our own grammar parser and lexer.
+            const parserContext = backend.loadGrammar("grammars/ANTLRv4Parser.g4");
+            const lexerContext = backend.loadGrammar("grammars/ANTLRv4Lexer.g4");
+            const folder = fs.mkdtempSync(path.join(os.tmpdir(), "antlr4-tests-"));
+            try {
+                parserContext.setupInterpreters("src/parser");
+                lexerContext.setupInterpreters("src/parser");
+
+                fs.writeFileSync(path.join(folder, "loop.txt"), "*?");
+                fs.writeFileSync(path.join(folder, "optional.txt"), "?");
+                const options = { startRule: "ebnfSuffix" };
+
+                let results = backend.runGrammarTests("grammars/ANTLRv4Parser.g4", folder, options);
+                expect(results.length, "Test 1").to.equal(2);
+                expect(results[0].passed, "Test 2").to.be.false;
+                expect(results[0].messages, "Test 3").to.deep.equal(["No golden file found for loop.txt"]);
+
+                // Write the golden files and compare against them.
+                results = backend.runGrammarTests("grammars/ANTLRv4Parser.g4", folder,
+                    { ...options, updateGoldens: true });
+                expect(results.every((result) => result.updated && result.passed), "Test 4").to.be.true;
+                expect(fs.readFileSync(path.join(folder, "loop.tree"), "utf8"), "Test 5")
+                    .to.equal("(ebnfSuffix * ?)\n");
+                expect(fs.readFileSync(path.join(folder, "loop.tokens"), "utf8"), "Test 6").to.equal(
+                    "[@0,0:0='*',<STAR>,1:0]\n[@1,1:1='?',<QUESTION>,1:1]\n[@2,2:1='<EOF>',<EOF>,1:2]\n");
+
+                results = backend.runGrammarTests("grammars/ANTLRv4Parser.g4", folder, options);
+                expect(results.every((result) => !result.updated && result.passed), "Test 7").to.be.true;
+
+                // Line terminators and trailing whitespace don't matter.
+                fs.writeFileSync(path.join(folder, "loop.tree"), "(ebnfSuffix * ?)  \r\n\r\n");
+                let result = backend.runGrammarTest("grammars/ANTLRv4Parser.g4", path.join(folder, "loop.txt"),
+                    options);
+                expect(result.passed, "Test 8").to.be.true;
+
+                // A changed input no longer matches its golden files.
+                fs.writeFileSync(path.join(folder, "optional.txt"), "+");
+                result = backend.runGrammarTest("grammars/ANTLRv4Parser.g4", path.join(folder, "optional.txt"),
+                    options);
+                expect(result.passed, "Test 9").to.be.false;
+                expect(result.output.tree, "Test 10").to.equal("(ebnfSuffix +)");
+                expect(result.messages, "Test 11").to.deep.equal([
+                    "The token list differs from optional.tokens",
+                    "The parse tree differs from optional.tree",
+                ]);
+
+                // Syntax errors fail a test, even if the golden files match.
+                fs.writeFileSync(path.join(folder, "optional.txt"), "");
+                result = backend.runGrammarTest("grammars/ANTLRv4Parser.g4", path.join(folder, "optional.txt"),
+                    { ...options, updateGoldens: true });
+                expect(result.passed, "Test 12").to.be.false;
+                expect(result.messages.length, "Test 13").to.equal(1);
+                expect(result.messages[0], "Test 14").to.match(/^Parser error \(1, 1\): mismatched input '<EOF>'/);
+            } finally {
+                fs.removeSync(folder);
+                backend.releaseGrammar("grammars/ANTLRv4Lexer.g4");
+                backend.releaseGrammar("grammars/ANTLRv4Parser.g4");
+            }
+        });
+
+        it("Expected errors and tokens", () => {
+            const parserContext = backend.loadGrammar("grammars/ANTLRv4Parser.g4");
+            const lexerContext = backend.loadGrammar("grammars/ANTLRv4Lexer.g4");
+            const folder = fs.mkdtempSync(path.join(os.tmpdir(), "antlr4-tests-"));
+            try {
+                parserContext.setupInterpreters("src/parser");
+                lexerContext.setupInterpreters("src/parser");
+
+                const inputFile = path.join(folder, "extraneous.txt");
+                const expectationFile = path.join(folder, "extraneous.expect");
+                fs.writeFileSync(inputFile, "\n ;*");
+                fs.writeFileSync(expectationFile, JSON.stringify({
+                    errors: [{ line: 2, column: 2, message: "^extraneous input ';'" }],
+                    tokens: ["SEMI", "STAR"],
+                }));
+
+                // An expectation file replaces the golden files and expected errors don't fail the test.
+                const options = { startRule: "ebnfSuffix" };
+                let result = backend.runGrammarTest("grammars/ANTLRv4Parser.g4", inputFile, options);
+                expect(result.passed, "Test 1").to.be.true;
+                expect(result.diagnostics.length, "Test 2").to.equal(0);
+                expect(GrammarTestRunner.findInputs(folder), "Test 3").to.deep.equal([inputFile]);
+
+                // A missing error and a wrong token.
+                fs.writeFileSync(inputFile, "*+");
+                fs.writeFileSync(expectationFile, JSON.stringify({
+                    errors: [{ line: 1, message: "missing" }],
+                    tokens: ["STAR", "QUESTION"],
+                }));
+                result = backend.runGrammarTest("grammars/ANTLRv4Parser.g4", inputFile, options);
+                expect(result.passed, "Test 4").to.be.false;
+                expect(result.messages, "Test 5").to.deep.equal([
+                    "Expected error in line 1 matching \"missing\" was not reported",
+                    "Expected token QUESTION at index 1, but found PLUS",
+                ]);
+                expect(result.diagnostics[1], "Test 6").to.deep.equal({
+                    type: DiagnosticType.Error,
+                    message: "Expected token QUESTION at index 1, but found PLUS",
+                    range: { start: { column: 1, row: 1 }, end: { column: 2, row: 1 } },
+                });
+
+                // Errors which are not declared are reported at their position.
+                fs.writeFileSync(inputFile, ";*");
+                fs.writeFileSync(expectationFile, JSON.stringify({ tokens: ["SEMI"] }));
+                result = backend.runGrammarTest("grammars/ANTLRv4Parser.g4", inputFile, options);
+                expect(result.messages, "Test 7").to.deep.equal([
+                    "Parser error (1, 1): extraneous input ';' expecting {QUESTION, STAR, PLUS}",
+                    "Unexpected token STAR at index 1, no more tokens are expected",
+                ]);
+                expect(result.diagnostics.map((entry) => entry.range.start), "Test 8").to.deep.equal([
+                    { column: 0, row: 1 },
+                    { column: 1, row: 1 },
+                ]);
+            } finally {
+                fs.removeSync(folder);
+                backend.releaseGrammar("grammars/ANTLRv4Lexer.g4");
+                backend.releaseGrammar("grammars/ANTLRv4Parser.g4");
+            }
+        });
+
+        it("Coverage", () => {
+            const parserContext = backend.loadGrammar("grammars/ANTLRv4Parser.g4");
+            const lexerContext = backend.loadGrammar("grammars/ANTLRv4Lexer.g4");
+            const folder = fs.mkdtempSync(path.join(os.tmpdir(), "antlr4-tests-"));
+            try {
+                parserContext.setupInterpreters("src/parser");
+                lexerContext.setupInterpreters("src/parser");
+
+                fs.writeFileSync(path.join(folder, "loop.txt"), "*?");
+                fs.writeFileSync(path.join(folder, "plus.txt"), "+");
+
+                const coverage = new GrammarCoverage();
+                backend.runGrammarTests("grammars/ANTLRv4Parser.g4", folder, { startRule: "ebnfSuffix", coverage });
+                const report = backend.getCoverageReport("grammars/ANTLRv4Parser.g4", coverage);
+                expect(report.inputCount, "Test 1").to.equal(2);
+
+                // ebnfSuffix: QUESTION QUESTION? | STAR QUESTION? | PLUS QUESTION?
+                const rule = report.rules.find((entry) => entry.name === "ebnfSuffix")!;
+                expect(rule.hits, "Test 2").to.equal(2);
+                expect(rule.alternatives.map((alternative) => alternative.hits), "Test 3")
+                    .to.deep.equal([0, 0, 1, 1, 1, 0]);
+                expect(rule.alternatives[1].range, "Test 4").to.deep.equal({
+                    start: { column: 14, row: 303 },
+                    end: { column: 23, row: 303 },
+                });
+
+                expect(report.rules.find((entry) => entry.name === "grammarSpec")!.hits, "Test 5").to.equal(0);
+
+                const lexerRules = report.rules.filter((entry) => entry.isLexerRule && entry.hits > 0);
+                expect(lexerRules.map((entry) => entry.name), "Test 6").to.deep.equal(["QUESTION", "STAR", "PLUS"]);
+                expect(lexerRules[0].fileName, "Test 7").to.equal("grammars/ANTLRv4Lexer.g4");
+
+                const text = GrammarCoverage.formatReport(report, "Coverage").split("\n");
+                expect(text.slice(2, 6), "Test 8").to.deep.equal([
+                    "Inputs: 2  ",
+                    "Parser rules reached: 1/63  ",
+                    "Alternatives exercised: 3/128  ",
+                    "Lexer rules matched: 3/101",
+                ]);
+                expect(text, "Test 9").to.include("| ebnfSuffix | 2 | 3/6 | ANTLRv4Parser.g4:303:6, " +
+                    "ANTLRv4Parser.g4:303:15, ANTLRv4Parser.g4:305:11 |");
+            } finally {
+                fs.removeSync(folder);
+                backend.releaseGrammar("grammars/ANTLRv4Lexer.g4");
+                backend.releaseGrammar("grammars/ANTLRv4Parser.g4");
+            }
+        });
+
+        it("Token stream", () => {
+            const parserContext = backend.loadGrammar("grammars/ANTLRv4Parser.g4");
+            const lexerContext = backend.loadGrammar("grammars/ANTLRv4Lexer.g4");
+            try {
+                parserContext.setupInterpreters("src/parser");
+                lexerContext.setupInterpreters("src/parser");
+
+                // The lexer data comes from the lexer grammar.
+                const result = backend.getTokenStream("grammars/ANTLRv4Parser.g4", "options {x=a;}\n// c");
+                expect(result.errors, "Test 1").to.be.empty;
+                expect(result.tokens.map((entry) => entry.token.name), "Test 2").to.deep.equal([
+                    "OPTIONS", "WS", "LBRACE", "ID", "ASSIGN", "ID", "SEMI", "RBRACE", "WS", "LINE_COMMENT", "EOF",
+                ]);
+
+                // Rules with a type() command produce tokens of another type.
+                const brace = result.tokens[2];
+                expect(brace.ruleName, "Test 3").to.equal("OPT_LBRACE");
+                expect(brace.modeName, "Test 4").to.equal("Options");
+                expect(brace.channelName, "Test 5").to.equal("DEFAULT_TOKEN_CHANNEL");
+                expect(brace.token.offset, "Test 6").to.equal(8);
+                expect(brace.ruleDefinition?.source, "Test 7").to.equal("grammars/ANTLRv4Lexer.g4");
+                expect(brace.ruleDefinition?.definition?.range.start.row, "Test 8").to.equal(454);
+
+                const comment = result.tokens[9];
+                expect(comment.ruleName, "Test 9").to.equal("LINE_COMMENT");
+                expect(comment.modeName, "Test 10").to.equal("DEFAULT_MODE");
+                expect(comment.token.line, "Test 11").to.equal(2);
+                expect(comment.channelName, "Test 12").to.not.equal("DEFAULT_TOKEN_CHANNEL");
+
+                expect(result.tokens[10].ruleName, "Test 13").to.be.undefined;
+                expect(backend.getTokenStream("test/backend/t.g4", "a").errors, "Test 14")
+                    .to.deep.equal(["No interpreter data available"]);
+            } finally {
+                backend.releaseGrammar("test/backend/t.g4");
+                backend.releaseGrammar("grammars/ANTLRv4Lexer.g4");
+                backend.releaseGrammar("grammars/ANTLRv4Parser.g4");
+            }
+        });
+    });
+
     // TODO: sentence generation is not ready yet.
     // Due to the nature of language definition by rules, we often generate invalid content.
     // This need investigation.
@@ -865,6 +1772,248 @@ describe("vscode-antlr4-backend:", function () {
                 fs.removeSync("generated");
             }
         }).timeout(20000);
+
+        it("Repeated parse runs", () => {
+            backend.loadGrammar("grammars/ANTLRv4Parser.g4");
+            try {
+                const d = backend.createDebugger("grammars/ANTLRv4Parser.g4", "", "src/parser");
+                expect(d, "Test 1").not.to.be.undefined;
+
+                const ruleIndex = d!.ruleIndexFromName("ebnfSuffix");
+                d!.parse(ruleIndex, "*?");
+                let tree = d!.currentParseTree!;
+                expect(tree.name, "Test 2").to.equal("ebnfSuffix");
+                expect(tree.children.map((child) => child.name), "Test 3").to.deep.equal(["STAR", "QUESTION"]);
+                expect(d!.errorCount, "Test 4").to.equal(0);
+
+                // The same debugger can parse new input.
+                d!.parse(ruleIndex, "+");
+                tree = d!.currentParseTree!;
+                expect(tree.children.map((child) => child.name), "Test 5").to.deep.equal(["PLUS"]);
+                expect(tree.children[0].symbol!.startIndex, "Test 6").to.equal(0);
+
+                d!.parse(ruleIndex, "x");
+                expect(d!.errorCount, "Test 7").to.equal(1);
+            } finally {
+                backend.releaseGrammar("grammars/ANTLRv4Parser.g4");
+            }
+        });
+
+        it("Conditional break points and log points", async () => {
+            backend.loadGrammar("grammars/ANTLRv4Parser.g4");
+            try {
+                // Runs a new debugger with a break point at the start of the "ruleModifier" rule (line 190).
+                // Returns the text of the current token on each stop, as well as all printed messages.
+                const run = (conditions?: GrammarBreakPointConditions): Promise<[string[], string[]]> => {
+                    const d = backend.createDebugger("grammars/ANTLRv4Parser.g4", "", "src/parser")!;
+                    d.addBreakPoint("grammars/ANTLRv4Parser.g4", 190, conditions);
+
+                    const stops: string[] = [];
+                    const output: string[] = [];
+
+                    return new Promise((resolve) => {
+                        d.on("stopOnBreakpoint", () => {
+                            stops.push(d.evaluationScope.tokenText as string);
+                            d.continue();
+                        });
+                        d.on("output", (text: string) => { output.push(text); });
+                        d.on("end", () => { resolve([stops, output]); });
+                        d.start(d.ruleIndexFromName("ruleModifiers"), "public private fragment", false);
+                    });
+                };
+
+                expect(await run(), "Test 1").to.deep.equal([["public", "private", "fragment"], []]);
+                expect(await run({ condition: "tokenText === 'private' && ruleDepth === 2" }), "Test 2")
+                    .to.deep.equal([["private"], []]);
+                expect(await run({ hitCondition: "2" }), "Test 3").to.deep.equal([["private", "fragment"], []]);
+                expect(await run({ hitCondition: "% 3" }), "Test 4").to.deep.equal([["fragment"], []]);
+                const logMessage = "{ruleName}: {tokenName} '{tokenText}'";
+                expect(await run({ condition: "tokenIndex > 0", logMessage }), "Test 5").to.deep.equal([[],
+                    ["ruleModifier: PRIVATE 'private'", "ruleModifier: FRAGMENT 'fragment'"]]);
+
+                const d = backend.createDebugger("grammars/ANTLRv4Parser.g4", "", "src/parser")!;
+                const breakPoint = d.addBreakPoint("grammars/ANTLRv4Parser.g4", 190, { hitCondition: "often" });
+                expect(breakPoint.validated, "Test 6").to.be.false;
+                expect(breakPoint.message, "Test 7").to.equal('Invalid hit count condition "often"');
+            } finally {
+                backend.releaseGrammar("grammars/ANTLRv4Parser.g4");
+            }
+        });
+
+        it("Element break points", async () => {
+            backend.loadGrammar("grammars/ANTLRv4Parser.g4");
+            try {
+                // Parses "*?" as ebnfSuffix, with a break point in the rule's third line ("   | STAR QUESTION?").
+                // Returns the validated break point and the text of the current token on each stop.
+                const run = (column?: number): Promise<[GrammarBreakPoint, string[]]> => {
+                    const d = backend.createDebugger("grammars/ANTLRv4Parser.g4", "", "src/parser")!;
+                    const breakPoint = d.addBreakPoint("grammars/ANTLRv4Parser.g4", 304, undefined, column);
+
+                    const stops: string[] = [];
+
+                    return new Promise((resolve) => {
+                        d.on("stopOnBreakpoint", () => {
+                            stops.push(d.evaluationScope.tokenText as string);
+                            d.continue();
+                        });
+                        d.on("end", () => { resolve([breakPoint, stops]); });
+                        d.start(d.ruleIndexFromName("ebnfSuffix"), "*?", false);
+                    });
+                };
+
+                // Without a column the first element in the line is used (STAR).
+                let [breakPoint, stops] = await run();
+                expect(breakPoint.line, "Test 1").to.equal(304);
+                expect(breakPoint.column, "Test 2").to.be.undefined;
+                expect(stops, "Test 3").to.deep.equal(["*"]);
+
+                // A column selects a specific element (QUESTION).
+                [breakPoint, stops] = await run(12);
+                expect(breakPoint.column, "Test 4").to.equal(10);
+                expect(stops, "Test 5").to.deep.equal(["?"]);
+
+                // A position after the last element falls back to the rule start.
+                [breakPoint, stops] = await run(30);
+                expect(breakPoint.line, "Test 6").to.equal(302);
+                expect(breakPoint.column, "Test 7").to.be.undefined;
+                expect(stops, "Test 8").to.deep.equal(["*"]);
+            } finally {
+                backend.releaseGrammar("grammars/ANTLRv4Parser.g4");
+            }
+        });
+
+        it("Lexer break points", async () => {
+            backend.loadGrammar("grammars/ANTLRv4Parser.g4");
+            try {
+                const d = backend.createDebugger("grammars/ANTLRv4Parser.g4", "", "src/parser")!;
+
+                // In the STAR lexer rule and in the ebnfSuffix parser rule.
+                const lexerBreakPoint = d.addBreakPoint("grammars/ANTLRv4Lexer.g4", 278);
+                const fragmentBreakPoint = d.addBreakPoint("grammars/ANTLRv4LexBasic.g4", 60);
+                d.addBreakPoint("grammars/ANTLRv4Parser.g4", 302);
+                const tokenBreakPoint = d.addTokenBreakPoint("QUESTION");
+                const unknownBreakPoint = d.addTokenBreakPoint("Unknown");
+                expect(tokenBreakPoint.validated, "Test 1").to.be.true;
+                expect(unknownBreakPoint.validated, "Test 2").to.be.false;
+
+                const stops: string[] = [];
+                await new Promise<void>((resolve) => {
+                    d.on("stopOnBreakpoint", () => {
+                        const state = d.lexerState;
+                        if (state) {
+                            stops.push(`${state.ruleName!}:${state.token!.text} ${state.candidates.join(",")}`);
+                            expect(state.mode, "Test 3").to.equal("DEFAULT_MODE");
+                            expect(d.currentStackTrace[0].source, "Test 4").to.equal("grammars/ANTLRv4Lexer.g4");
+                        } else {
+                            stops.push(d.currentStackTrace[0].name);
+                        }
+                        d.continue();
+                    });
+                    d.on("end", () => { resolve(); });
+                    d.start(d.ruleIndexFromName("ebnfSuffix"), "*?", false);
+                });
+
+                expect(lexerBreakPoint.validated, "Test 5").to.be.true;
+                expect(fragmentBreakPoint.validated, "Test 6").to.be.false;
+                expect(stops, "Test 7").to.deep.equal(["STAR:* QUESTION", "QUESTION:? ", "ebnfSuffix"]);
+                expect(d.errorCount, "Test 8").to.equal(0);
+            } finally {
+                backend.releaseGrammar("grammars/ANTLRv4Parser.g4");
+            }
+        });
+
+        it("Reverse debugging", async () => {
+            backend.loadGrammar("grammars/ANTLRv4Parser.g4");
+            try {
+                const d = backend.createDebugger("grammars/ANTLRv4Parser.g4", "", "src/parser")!;
+                d.addBreakPoint("grammars/ANTLRv4Parser.g4", 190); // Enter ruleModifier.
+
+                // Each entry is an action to take on the next stop. The state on each stop is recorded.
+                const actions = [
+                    () => { d.stepIn(); },
+                    () => { d.stepIn(); },
+                    () => { d.stepIn(); },
+                    () => { d.stepBack(); },
+                    () => { d.stepBack(); },
+                    () => { d.reverseContinue(); },
+                    () => { d.goTo(5); },
+                    () => { d.continue(); },
+                    () => { d.continue(); },
+                ];
+                const stops: string[] = [];
+                await new Promise<void>((resolve) => {
+                    const stopped = (reason: string) => {
+                        const scope = d.evaluationScope;
+                        stops.push(`${reason} ${d.currentStep} ${scope.tokenText} ${scope.ruleName}`);
+                        actions.shift()!();
+                    };
+                    d.on("stopOnBreakpoint", () => { stopped("bp"); });
+                    d.on("stopOnStep", () => { stopped("step"); });
+                    d.on("end", () => { resolve(); });
+                    d.start(d.ruleIndexFromName("ruleModifiers"), "public private fragment", false);
+                });
+
+                expect(stops, "Test 1").to.deep.equal([
+                    "bp 2 public ruleModifier",
+                    "step 3 private ruleModifier",
+                    "step 4 private ruleModifiers",
+                    "bp 5 private ruleModifier",
+                    "step 4 private ruleModifiers",
+                    "step 3 private ruleModifier",
+                    "bp 2 public ruleModifier",
+                    "bp 5 private ruleModifier",
+                    "bp 8 fragment ruleModifier",
+                ]);
+                expect(d.errorCount, "Test 2").to.equal(0);
+
+                // All events are recorded only once, even though parts of the input were parsed multiple times.
+                const consumed = d.history.filter((event) => event.type === ParseEventType.Consume);
+                expect(consumed.map((event) => event.text), "Test 3").to.deep.equal(["public", "private", "fragment"]);
+                expect(d.history[0], "Test 4").to.deep.include({
+                    type: ParseEventType.EnterRule, step: 0, ruleName: "ruleModifiers", depth: 1,
+                });
+            } finally {
+                backend.releaseGrammar("grammars/ANTLRv4Parser.g4");
+            }
+        });
+
+        it("Decision predictions", async () => {
+            backend.loadGrammar("grammars/ANTLRv4Parser.g4");
+            try {
+                const d = backend.createDebugger("grammars/ANTLRv4Parser.g4", "", "src/parser")!;
+                d.logPredictions = true;
+                d.addBreakPoint("grammars/ANTLRv4Parser.g4", 304); // "| STAR QUESTION?"
+
+                const output: string[] = [];
+                let predictions: DecisionPrediction[] = [];
+                await new Promise<void>((resolve) => {
+                    d.on("stopOnBreakpoint", () => {
+                        predictions = d.currentPredictions;
+                        d.continue();
+                    });
+                    d.on("output", (text: string) => { output.push(text); });
+                    d.on("end", () => { resolve(); });
+                    d.start(d.ruleIndexFromName("ebnfSuffix"), "*?", false);
+                });
+
+                // The prediction of the ebnfSuffix alternative, which led to the break point.
+                expect(predictions.length, "Test 1").to.equal(1);
+                expect(predictions[0], "Test 2").to.deep.include({
+                    ruleName: "ebnfSuffix", alternativeCount: 3, fullContext: false, prediction: 2,
+                });
+                expect(predictions[0].steps, "Test 3").to.deep.equal([
+                    { tokenIndex: 0, text: "*", alternatives: [2], fullContext: false },
+                ]);
+
+                expect(output.length, "Test 4").to.equal(2);
+                expect(output[0], "Test 5").to.match(
+                    /^Decision \d+ in ebnfSuffix: predicted alternative 2 of 3, lookahead: "\*" \{2\}$/);
+                expect(output[1], "Test 6").to.match(
+                    /^Decision \d+ in ebnfSuffix: predicted alternative 1 of 2, lookahead: "\?" \{1\}$/);
+            } finally {
+                backend.releaseGrammar("grammars/ANTLRv4Parser.g4");
+            }
+        });
     });
 });
 